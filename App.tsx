@@ -2,7 +2,11 @@ import React, { useEffect, useState } from 'react';
 import AssetManager from './components/AssetManager';
 import SceneViewer from './components/SceneViewer';
 import RendererPanel from './components/RendererPanel';
+import TimelinePanel from './components/TimelinePanel';
 import { useAppStore } from './store/useAppStore';
+import { startAssetLibrarySync } from './services/assetLibrary';
+import { startRenderQueue } from './services/renderQueue';
+import { parseClipboard, readClipboard, serializeClipboard, writeClipboard } from './services/clipboardService';
 import { CheckCircle, AlertCircle, Info, X, Aperture, Link, ExternalLink } from 'lucide-react';
 
 const ToastContainer = () => {
@@ -36,12 +40,73 @@ export default function App() {
   // This constant matches the one in tripoService and SceneViewer
   const DEFAULT_BACKEND_URL = 'https://soft-wave-9c83.a718919334.workers.dev';
 
-  // Global Undo/Redo Listener
+  // Rehydrate the local asset library and keep it in sync with the store
   useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+    startAssetLibrarySync().then(unsub => {
+        if (cancelled) unsub();
+        else unsubscribe = unsub;
+    });
+    return () => {
+        cancelled = true;
+        unsubscribe?.();
+    };
+  }, []);
+
+  // Rehydrate the AI render queue and resume unfinished jobs
+  useEffect(() => {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+    startRenderQueue().then(unsub => {
+        if (cancelled) unsub();
+        else unsubscribe = unsub;
+    });
+    return () => {
+        cancelled = true;
+        unsubscribe?.();
+    };
+  }, []);
+
+  // Global Undo/Redo and Clipboard Listener
+  useEffect(() => {
+    const handleCopy = async () => {
+        const { sceneObjects, selectedObjectIds, addNotification } = useAppStore.getState();
+        const text = serializeClipboard(sceneObjects, selectedObjectIds);
+        if (!text) return;
+        await writeClipboard(text);
+        addNotification('info', `Copied ${selectedObjectIds.length === 1 ? '1 object' : `${selectedObjectIds.length} objects`}`);
+    };
+
+    const handlePaste = async () => {
+        const text = await readClipboard();
+        const objects = text && parseClipboard(text);
+        if (objects) useAppStore.getState().pasteSceneObjects(objects);
+    };
+
     // Keyboard shortcuts
     const handleKeyDown = (e: KeyboardEvent) => {
+        // Text fields keep their own clipboard and duplicate keys
+        const target = e.target as HTMLElement;
+        const isTextField = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+
         // Check for Ctrl (or Command on Mac)
         if (e.ctrlKey || e.metaKey) {
+            const key = e.key.toLowerCase();
+            if (!isTextField && key === 'd') {
+                // Ctrl+Shift+D makes linked duplicates
+                e.preventDefault();
+                const { selectedObjectIds, duplicateSceneObjects } = useAppStore.getState();
+                duplicateSceneObjects(selectedObjectIds, e.shiftKey);
+            }
+            if (!isTextField && key === 'c' && !window.getSelection()?.toString()) {
+                e.preventDefault();
+                handleCopy();
+            }
+            if (!isTextField && key === 'v') {
+                e.preventDefault();
+                handlePaste();
+            }
             if (e.key === 'z') {
                 e.preventDefault();
                 if (e.shiftKey) {
@@ -162,7 +227,10 @@ export default function App() {
         
         {/* Middle Panel: 3D Viewport (WORKBENCH) */}
         <div className="flex-1 flex flex-col bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-zinc-600/50 -zinc-800 to-zinc-1000">
-            <SceneViewer />
+            <div className="flex-1 min-h-0 flex flex-col">
+                <SceneViewer />
+            </div>
+            <TimelinePanel />
         </div>
         
         {/* Right Panel: Properties (Dark Layer 1) */}
@@ -1,14 +1,36 @@
-import React, { useState, Suspense, useMemo } from 'react';
+import React, { useState, Suspense, useMemo, useEffect, use } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Stage, OrbitControls, useGLTF } from '@react-three/drei';
 import { useAppStore } from '../store/useAppStore';
-import { AssetStatus } from '../types';
-import { testApiConnection, uploadImageToTripo, createImageTo3DTask, pollTripoTask, downloadTripoModel, getProxyUrl } from '../services/tripoService';
+import { AssetStatus, ModelFormat, ModelSource } from '../types';
+import { testApiConnection, uploadImageToTripo, createImageTo3DTask, pollTripoTask, downloadTripoModel, getProxyUrl, isTaskBeingPolled } from '../services/tripoService';
+import { importModelFiles, ACCEPTED_MODEL_FILES, isGLTFFormat, loadModelCached } from '../services/modelLoaders';
+import { uploadFileToStorage, deleteAsset, purgeAssetLibrary, getStorageReport, StorageReport } from '../services/assetLibrary';
+import { downloadUrl } from '../services/downloadService';
 import { v4 as uuidv4 } from 'uuid';
-import { Loader2, Image as ImageIcon, FolderOpen, Wifi, GripVertical, Sparkles, Box, Plus, Trash2, CloudUpload, Download } from 'lucide-react';
+import { Loader2, Image as ImageIcon, FolderOpen, Wifi, GripVertical, Sparkles, Box, Plus, Trash2, CloudUpload, Download, HardDrive } from 'lucide-react';
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+function GLTFPreview({ url }: { url: string }) {
+    const { scene } = useGLTF(url, true);
+    return <primitive object={scene} />;
+}
+
+// Non-glTF formats come from the shared loader cache, so preview a copy
+function LoaderPreview({ url, source }: { url: string, source: ModelSource }) {
+    const object = use(loadModelCached(url, source));
+    const clone = useMemo(() => object.clone(), [object]);
+    return <primitive object={clone} />;
+}
 
 // Preview Component for the Hover Card
-function AssetPreview3D({ url }: { url: string }) {
+function AssetPreview3D({ url, source }: { url: string, source: ModelSource }) {
     // Reuse proxy logic to ensure remote models load correctly via worker
     const processedUrl = useMemo(() => {
         if (!url) return "";
@@ -18,60 +40,83 @@ function AssetPreview3D({ url }: { url: string }) {
         return getProxyUrl(url);
     }, [url]);
 
-    const { scene } = useGLTF(processedUrl || "", true);
-    return <primitive object={scene} />;
+    if (!processedUrl) return null;
+    return isGLTFFormat(source.format)
+        ? <GLTFPreview url={processedUrl} />
+        : <LoaderPreview url={processedUrl} source={source} />;
 }
 
 export default function AssetManager() {
-  const { assets, addModelToScene, addAsset, updateAsset, removeAsset, addNotification } = useAppStore();
+  const { assets, setAssets, addModelToScene, addAsset, updateAsset, removeAsset, addNotification } = useAppStore();
   const [apiStatus, setApiStatus] = useState<'idle' | 'checking' | 'ok' | 'error'>('idle');
   const [apiMsg, setApiMsg] = useState('');
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
+  // Local Library Storage State
+  const [storageReport, setStorageReport] = useState<StorageReport | null>(null);
+  const [confirmPurge, setConfirmPurge] = useState(false);
+
+  const refreshStorageReport = () => {
+      getStorageReport()
+        .then(setStorageReport)
+        .catch(err => console.warn('[AssetManager] Storage report unavailable:', err));
+  };
+
+  // Refresh quota info when the library changes (writes are async, so give them a moment)
+  useEffect(() => {
+      const timer = setTimeout(refreshStorageReport, 1500);
+      return () => clearTimeout(timer);
+  }, [assets]);
+
   // State for Hover Preview
-  const [hoveredAsset, setHoveredAsset] = useState<{ id: string, url: string, name: string, top: number } | null>(null);
+  const [hoveredAsset, setHoveredAsset] = useState<{ id: string, url: string, name: string, source: ModelSource, top: number } | null>(null);
 
   // 1. Handle Image Selection
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
     const files = Array.from(e.target.files) as File[];
-    files.forEach(file => {
-      const fileId = uuidv4();
+    e.target.value = '';
+
+    let unsaved = 0;
+    for (const file of files) {
+      let imageUrl: string;
+      try {
+        imageUrl = await uploadFileToStorage(file);
+      } catch (err) {
+        // No local storage (e.g. private mode): the image still works for this session
+        console.warn('[AssetManager] Could not store upload, keeping it in memory:', err);
+        imageUrl = URL.createObjectURL(file);
+        unsaved++;
+      }
       addAsset({
-        id: fileId,
+        id: uuidv4(),
         originalName: file.name,
-        imageUrl: URL.createObjectURL(file),
+        imageUrl,
         status: AssetStatus.PENDING,
         modelUrl: null,
         createdAt: Date.now()
       });
-    });
-    e.target.value = '';
+    }
+    if (unsaved > 0) addNotification('info', `${unsaved === 1 ? 'Upload is' : `${unsaved} uploads are`} not stored and will be lost on reload`);
   };
 
-  // 1.b Handle Model Upload (.glb)
-  const handleModelUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // 1.b Handle Model Upload (GLB, glTF, OBJ+MTL, FBX, STL, PLY, USDZ)
+  // Side files (MTL, textures, .bin) selected together with a model are bundled with it
+  const handleModelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
     const files = Array.from(e.target.files) as File[];
-
-    files.forEach(file => {
-      const fileId = uuidv4();
-      const localModelUrl = URL.createObjectURL(file);
-
-      addAsset({
-        id: fileId,
-        originalName: file.name,
-        imageUrl: "https://placehold.co/100x100/27272a/52525b?text=GLB", 
-        status: AssetStatus.COMPLETED,
-        modelUrl: localModelUrl,
-        createdAt: Date.now()
-      });
-      
-      addNotification('success', `Model "${file.name}" imported successfully`);
-      addModelToScene(localModelUrl, file.name);
-    });
-
     e.target.value = '';
+
+    try {
+      const { imported } = await importModelFiles(files);
+      if (imported.length === 0) {
+        addNotification('error', 'No supported model file selected');
+        return;
+      }
+      imported.forEach(name => addNotification('success', `Model "${name}" imported successfully`));
+    } catch (err: any) {
+      addNotification('error', `Import failed: ${err.message}`);
+    }
   };
 
   // 2. Generation Logic with Auto-Download
@@ -103,58 +148,97 @@ export default function AssetManager() {
         
         // Use the sanitized extension for the task creation
         const taskId = await createImageTo3DTask(imageToken, safeExtension);
-
-        pollTripoTask(taskId, async (status, remoteModelUrl) => {
-            if (status === AssetStatus.COMPLETED && remoteModelUrl) {
-                // AUTO-DOWNLOAD Logic: Fetch the model to local memory
-                try {
-                    addNotification('info', 'Downloading model to local storage...');
-                    const modelBlob = await downloadTripoModel(remoteModelUrl);
-                    const localBlobUrl = URL.createObjectURL(modelBlob);
-                    
-                    updateAsset(assetId, { status, modelUrl: localBlobUrl });
-                    addNotification('success', `Model "${originalName}" is ready!`);
-                    
-                    // Auto-add to scene using the local URL
-                    addModelToScene(localBlobUrl, originalName);
-
-                } catch (downloadErr: any) {
-                    // FALLBACK STRATEGY:
-                    // If local download fails (proxy missing), fallback to the DIRECT REMOTE URL.
-                    // This allows Three.js to try loading it directly (CORS might work depending on CDN).
-                    
-                    if (downloadErr.message.includes('404')) {
-                        addNotification('error', 'Note: Proxy download failed. Switched to direct connection.');
-                    } else {
-                        addNotification('info', `Local download failed, using remote link...`);
-                    }
-                    
-                    // Use Direct URL, DO NOT use getProxyUrl here as it would likely fail again
-                    updateAsset(assetId, { status, modelUrl: remoteModelUrl });
-                    addModelToScene(remoteModelUrl, originalName);
-                }
-            } else {
-                updateAsset(assetId, { status, modelUrl: remoteModelUrl });
-                if (status === AssetStatus.ERROR) {
-                     updateAsset(assetId, { errorMsg: "API Error" });
-                     addNotification('error', `Generation failed: ${originalName}`);
-                }
-            }
-        });
+        
+        // Remember the task so the generation can resume after a reload
+        updateAsset(assetId, { taskId });
+        watchGenerationTask(assetId, taskId, originalName);
     } catch (err: any) {
         updateAsset(assetId, { status: AssetStatus.ERROR, errorMsg: err.message });
         addNotification('error', `Error: ${err.message}`);
     }
   };
 
-  const handleDownloadFile = (e: React.MouseEvent, url: string, name: string) => {
+  // Polls a Tripo task and stores the finished model in the local library
+  const watchGenerationTask = (assetId: string, taskId: string, originalName: string) => {
+    pollTripoTask(taskId, async (status, remoteModelUrl) => {
+        if (status === AssetStatus.COMPLETED && remoteModelUrl) {
+            // AUTO-DOWNLOAD Logic: Fetch the model to local storage
+            try {
+                addNotification('info', 'Downloading model to local storage...');
+                const modelBlob = await downloadTripoModel(remoteModelUrl);
+                const localBlobUrl = await uploadFileToStorage(modelBlob);
+                
+                updateAsset(assetId, { status, modelUrl: localBlobUrl });
+                addNotification('success', `Model "${originalName}" is ready!`);
+                
+                // Auto-add to scene using the local URL
+                addModelToScene(localBlobUrl, originalName);
+
+            } catch (downloadErr: any) {
+                // FALLBACK STRATEGY:
+                // If local download fails (proxy missing), fallback to the DIRECT REMOTE URL.
+                // This allows Three.js to try loading it directly (CORS might work depending on CDN).
+                
+                if (downloadErr.message.includes('404')) {
+                    addNotification('error', 'Note: Proxy download failed. Switched to direct connection.');
+                } else {
+                    addNotification('info', `Local download failed, using remote link...`);
+                }
+                
+                // Use Direct URL, DO NOT use getProxyUrl here as it would likely fail again
+                updateAsset(assetId, { status, modelUrl: remoteModelUrl });
+                addModelToScene(remoteModelUrl, originalName);
+            }
+        } else {
+            updateAsset(assetId, { status, modelUrl: remoteModelUrl });
+            if (status === AssetStatus.ERROR) {
+                 updateAsset(assetId, { errorMsg: "API Error" });
+                 addNotification('error', `Generation failed: ${originalName}`);
+            }
+        }
+    });
+  };
+
+  // Resume generations that were still running when the page was closed (credits are already spent)
+  useEffect(() => {
+    assets.forEach(asset => {
+        const isRunning = asset.status === AssetStatus.PENDING || asset.status === AssetStatus.PROCESSING;
+        if (isRunning && asset.taskId && !asset.modelUrl && !isTaskBeingPolled(asset.taskId)) {
+            watchGenerationTask(asset.id, asset.taskId, asset.originalName);
+        }
+    });
+  }, [assets]);
+
+  const handleDeleteAsset = async (id: string) => {
+      removeAsset(id);
+      try {
+          await deleteAsset(id);
+      } catch (err: any) {
+          addNotification('error', `Failed to delete from library: ${err.message}`);
+      }
+      refreshStorageReport();
+  };
+
+  const handlePurgeLibrary = async () => {
+      if (!confirmPurge) {
+          setConfirmPurge(true);
+          setTimeout(() => setConfirmPurge(false), 3000);
+          return;
+      }
+      setConfirmPurge(false);
+      try {
+          await purgeAssetLibrary();
+          setAssets([]);
+          addNotification('success', 'Local asset library purged');
+      } catch (err: any) {
+          addNotification('error', `Purge failed: ${err.message}`);
+      }
+      refreshStorageReport();
+  };
+
+  const handleDownloadFile = (e: React.MouseEvent, url: string, name: string, format: ModelFormat = 'glb') => {
       e.stopPropagation();
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = name.endsWith('.glb') ? name : `${name}.glb`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadUrl(url, name.toLowerCase().endsWith(`.${format}`) ? name : `${name}.${format}`);
   };
 
   const checkConnection = async (): Promise<boolean> => {
@@ -220,8 +304,8 @@ export default function AssetManager() {
             <div className="p-1.5 rounded-full bg-zinc-800 group-hover:bg-blue-500/20 transition-colors relative z-10">
                  <Box size={14} className="text-zinc-400 group-hover:text-blue-300 transition-colors"/>
             </div>
-            <span className="text-[10px] font-bold text-zinc-400 group-hover:text-blue-300 relative z-10">GLB Model</span>
-            <input type="file" className="hidden" multiple onChange={handleModelUpload} accept=".glb,.gltf" />
+            <span className="text-[10px] font-bold text-zinc-400 group-hover:text-blue-300 relative z-10">3D Model</span>
+            <input type="file" className="hidden" multiple onChange={handleModelUpload} accept={ACCEPTED_MODEL_FILES} />
           </label>
         </div>
 
@@ -236,7 +320,7 @@ export default function AssetManager() {
                   draggable={canAdd}
                   onDragStart={(e) => {
                     if (canAdd && item.modelUrl) {
-                        e.dataTransfer.setData('application/json', JSON.stringify({ url: item.modelUrl, name: item.originalName }));
+                        e.dataTransfer.setData('application/json', JSON.stringify({ url: item.modelUrl, name: item.originalName, format: item.modelFormat, resources: item.resources }));
                         e.currentTarget.style.opacity = '0.5';
                     }
                   }}
@@ -248,6 +332,7 @@ export default function AssetManager() {
                               id: item.id, 
                               url: item.modelUrl, 
                               name: item.originalName, 
+                              source: { format: item.modelFormat, resources: item.resources },
                               top: rect.top 
                           });
                       }
@@ -261,7 +346,7 @@ export default function AssetManager() {
                   <div className={`text-zinc-500 transition-all duration-300 ${canAdd ? 'group-hover:text-zinc-300' : 'opacity-20'}`}><GripVertical size={12} /></div>
                   
                   <div className="relative w-10 h-10 rounded bg-zinc-800 overflow-hidden shrink-0 border border-white/5 transition-transform duration-300 group-hover:scale-105">
-                     <img src={item.imageUrl} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" alt="" />
+                     <img src={item.thumbnailUrl || item.imageUrl} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" alt="" />
                      {item.modelUrl && (
                         <div className="absolute inset-0 flex items-center justify-center bg-black/40 backdrop-blur-[1px] opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                             <Box size={14} className="text-white drop-shadow-md" />
@@ -300,7 +385,7 @@ export default function AssetManager() {
                       {canAdd && (
                          <>
                           <button 
-                            onClick={() => addModelToScene(item.modelUrl!, item.originalName)} 
+                            onClick={() => addModelToScene(item.modelUrl!, item.originalName, { format: item.modelFormat, resources: item.resources })} 
                             className="p-1.5 rounded bg-zinc-700 hover:bg-zinc-600 text-zinc-200 transition-all duration-200 hover:scale-110 active:scale-95"
                             title="Add to Scene"
                           >
@@ -308,7 +393,7 @@ export default function AssetManager() {
                           </button>
                           
                           <button 
-                             onClick={(e) => handleDownloadFile(e, item.modelUrl!, item.originalName)}
+                             onClick={(e) => handleDownloadFile(e, item.modelUrl!, item.originalName, item.modelFormat)}
                              className="p-1.5 rounded bg-zinc-700 hover:bg-zinc-600 text-zinc-200 transition-all duration-200 hover:scale-110 active:scale-95"
                              title="Download GLB"
                            >
@@ -321,7 +406,7 @@ export default function AssetManager() {
                         onClick={(e) => {
                              e.stopPropagation();
                              if (deletingId === item.id) {
-                                 removeAsset(item.id);
+                                 handleDeleteAsset(item.id);
                                  setDeletingId(null);
                              } else {
                                  setDeletingId(item.id);
@@ -342,6 +427,39 @@ export default function AssetManager() {
              );
           })}
         </div>
+
+        {/* Local Library Storage */}
+        {storageReport && (
+            <div className="px-4 py-3 border-t border-white/5 bg-[#131315] flex flex-col gap-2">
+                <div className="flex items-center justify-between text-[10px] font-bold text-zinc-400 uppercase tracking-wider">
+                    <span className="flex items-center gap-1.5"><HardDrive size={12} className="text-indigo-400" /> Local Library</span>
+                    <button 
+                        onClick={handlePurgeLibrary}
+                        disabled={storageReport.assetCount === 0}
+                        className={`px-2 py-0.5 rounded transition-all duration-200 disabled:opacity-30 ${
+                            confirmPurge 
+                            ? 'bg-red-600 text-white hover:bg-red-700' 
+                            : 'text-zinc-500 hover:text-red-400 hover:bg-red-900/30'
+                        }`}
+                        title={confirmPurge ? "Click again to confirm" : "Delete all stored assets"}
+                    >
+                        {confirmPurge ? 'Confirm' : 'Purge'}
+                    </button>
+                </div>
+                <div className="flex justify-between text-[10px] font-mono text-zinc-500">
+                    <span>{storageReport.assetCount} assets · {formatBytes(storageReport.libraryBytes)}</span>
+                    {storageReport.quota !== null && <span>{formatBytes(storageReport.quota)} quota</span>}
+                </div>
+                {storageReport.quota !== null && storageReport.usage !== null && (
+                    <div className="h-1 w-full bg-zinc-800 rounded-full overflow-hidden">
+                        <div 
+                            className="h-full bg-indigo-500 transition-all duration-700 ease-silky" 
+                            style={{ width: `${Math.min(100, Math.max(1, (storageReport.usage / storageReport.quota) * 100))}%` }} 
+                        />
+                    </div>
+                )}
+            </div>
+        )}
       </div>
 
       {/* --- HOVER PREVIEW POPUP --- */}
@@ -361,7 +479,7 @@ export default function AssetManager() {
                 <Canvas shadows dpr={[1, 2]} camera={{ fov: 45 }}>
                    <Suspense fallback={null}>
                       <Stage intensity={0.5} environment="city" adjustCamera={1.2}>
-                         <AssetPreview3D url={hoveredAsset.url} />
+                         <AssetPreview3D url={hoveredAsset.url} source={hoveredAsset.source} />
                       </Stage>
                    </Suspense>
                    <OrbitControls autoRotate autoRotateSpeed={5} enableZoom={false} enablePan={false} />
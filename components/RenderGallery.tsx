@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAppStore, RESOLUTION_PRESETS } from '../store/useAppStore';
+import { CapturePass, RenderJob, RenderJobStatus } from '../types';
+import { cancelRenderJob, deleteRenderJob, rerunRenderJob, retryRenderJob } from '../services/renderQueue';
+import { SHADING_MODE_LABELS } from '../services/shadingService';
+import { CAPTURE_PASS_LABELS } from '../services/passService';
+import { Images, X, Loader2, RotateCcw, Trash2, Download, Square, Columns2, Sparkles, AlertTriangle, Clock, CheckCircle2, Ban, MapPin, Zap, Layers } from 'lucide-react';
+
+const STATUS_STYLES: Record<RenderJobStatus, { label: string, className: string }> = {
+    queued: { label: 'Queued', className: 'bg-zinc-700 text-zinc-300' },
+    running: { label: 'Rendering', className: 'bg-indigo-600 text-white animate-pulse' },
+    completed: { label: 'Done', className: 'bg-emerald-600/80 text-white' },
+    error: { label: 'Failed', className: 'bg-red-600/80 text-white' },
+    cancelled: { label: 'Cancelled', className: 'bg-zinc-800 text-zinc-500' }
+};
+
+const MAX_COMPARE = 4;
+
+const isActive = (job: RenderJob) => job.status === 'queued' || job.status === 'running';
+
+const StatusBadge = ({ status }: { status: RenderJobStatus }) => (
+    <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider ${STATUS_STYLES[status].className}`}>
+        {STATUS_STYLES[status].label}
+    </span>
+);
+
+const JobImage = ({ job, className }: { job: RenderJob, className?: string }) => (
+    <div className={`relative bg-black flex items-center justify-center overflow-hidden ${className || ''}`}>
+        <img src={job.resultUrl || job.baseImage} className={`max-w-full max-h-full object-contain ${job.resultUrl ? '' : 'opacity-40'}`} alt={job.prompt || 'Render'} />
+        {job.status === 'running' && <Loader2 size={20} className="absolute animate-spin text-indigo-400" />}
+    </div>
+);
+
+/**
+ * Gallery of the persistent render queue: progress of queued jobs, cancel/retry,
+ * side-by-side comparison and re-running a job with a changed prompt or aspect ratio.
+ */
+export default function RenderGallery({ onClose }: { onClose: () => void }) {
+  const renderJobs = useAppStore(state => state.renderJobs);
+  const renderConcurrency = useAppStore(state => state.renderConcurrency);
+  const setRenderConcurrency = useAppStore(state => state.setRenderConcurrency);
+
+  const [focusedId, setFocusedId] = useState<string | null>(renderJobs[0]?.id ?? null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [tweakPrompt, setTweakPrompt] = useState('');
+  const [tweakRatio, setTweakRatio] = useState('1:1');
+
+  const focused = renderJobs.find(j => j.id === focusedId);
+  const compared = useMemo(() => compareIds.map(id => renderJobs.find(j => j.id === id)).filter((j): j is RenderJob => !!j), [compareIds, renderJobs]);
+
+  // Re-run fields start from the focused job
+  useEffect(() => {
+      if (!focused) return;
+      setTweakPrompt(focused.prompt);
+      setTweakRatio(focused.aspectRatio);
+  }, [focused?.id]);
+
+  const toggleCompare = (id: string) => {
+      setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-MAX_COMPARE));
+  };
+
+  const handleRerun = () => {
+      if (!focused) return;
+      const id = rerunRenderJob(focused.id, { prompt: tweakPrompt, aspectRatio: tweakRatio });
+      if (id) setFocusedId(id);
+  };
+
+  const handleClearFinished = () => {
+      renderJobs.filter(j => j.status === 'cancelled' || j.status === 'error').forEach(j => deleteRenderJob(j.id));
+  };
+
+  const activeCount = renderJobs.filter(isActive).length;
+  const ratios = Array.from(new Set(RESOLUTION_PRESETS.map(p => p.ratio)));
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-fade-in-up duration-300">
+      <div className="w-[90vw] h-[90vh] max-w-[1600px] max-h-[1000px] bg-[#27272a] border border-white/20 rounded-xl shadow-2xl flex flex-col overflow-hidden ring-1 ring-white/10 animate-pop-in">
+        {/* Header */}
+        <div className="h-14 flex items-center justify-between px-6 border-b border-white/10 shrink-0">
+            <div className="flex items-center gap-2 text-white font-bold tracking-wide">
+                <div className="p-1.5 rounded-lg bg-indigo-500/20 text-indigo-400"><Images size={16}/></div>
+                <span>Render Queue</span>
+                <span className="text-[10px] text-zinc-500 font-mono ml-2">{renderJobs.length} jobs · {activeCount} active</span>
+            </div>
+            <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-[10px] font-bold text-zinc-500 uppercase tracking-wider">
+                    Parallel
+                    <select
+                        value={renderConcurrency}
+                        onChange={(e) => setRenderConcurrency(parseInt(e.target.value))}
+                        className="bg-[#18181b] border border-white/10 rounded px-2 py-1 text-xs text-zinc-200 outline-none focus:border-indigo-500"
+                    >
+                        {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </label>
+                <button onClick={handleClearFinished} className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs font-bold text-zinc-300 transition-colors" title="Remove failed and cancelled jobs">
+                    Clear Failed
+                </button>
+                <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-zinc-400 hover:text-white transition-all duration-200 hover:rotate-90"><X size={18}/></button>
+            </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+            {/* Job List */}
+            <div className="w-72 border-r border-white/10 overflow-y-auto custom-scrollbar p-3 flex flex-col gap-2 shrink-0">
+                {renderJobs.length === 0 && (
+                    <div className="text-xs text-zinc-600 italic text-center py-10">No renders yet</div>
+                )}
+                {renderJobs.map(job => (
+                    <div
+                        key={job.id}
+                        onClick={() => setFocusedId(job.id)}
+                        className={`flex gap-2 p-2 rounded-lg border cursor-pointer transition-all ${focusedId === job.id ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-[#18181b] border-white/5 hover:border-white/20'}`}
+                    >
+                        <JobImage job={job} className="w-16 h-16 rounded shrink-0" />
+                        <div className="flex-1 min-w-0 flex flex-col gap-1">
+                            <div className="flex items-center justify-between gap-1">
+                                <StatusBadge status={job.status} />
+                                <input
+                                    type="checkbox"
+                                    checked={compareIds.includes(job.id)}
+                                    onClick={(e) => e.stopPropagation()}
+                                    onChange={() => toggleCompare(job.id)}
+                                    disabled={!job.resultUrl}
+                                    className="w-3.5 h-3.5 accent-indigo-500 disabled:opacity-20"
+                                    title="Compare"
+                                />
+                            </div>
+                            <div className="text-[10px] text-zinc-300 line-clamp-2 leading-tight">{job.prompt || <span className="italic text-zinc-600">No prompt</span>}</div>
+                            <div className="text-[9px] text-zinc-600 font-mono">{job.shotName && `${job.shotName} · `}{job.aspectRatio} · {new Date(job.createdAt).toLocaleTimeString()}</div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Main Area */}
+            {compared.length >= 2 ? (
+                <div className="flex-1 flex flex-col min-w-0">
+                    <div className="h-10 px-4 flex items-center justify-between border-b border-white/5 text-xs text-zinc-400 shrink-0">
+                        <span className="flex items-center gap-2 font-bold uppercase tracking-wider"><Columns2 size={12} /> Comparing {compared.length}</span>
+                        <button onClick={() => setCompareIds([])} className="text-zinc-500 hover:text-white">Clear</button>
+                    </div>
+                    <div className={`flex-1 grid gap-3 p-4 min-h-0 ${compared.length > 2 ? 'grid-cols-2 grid-rows-2' : 'grid-cols-2'}`}>
+                        {compared.map(job => (
+                            <div key={job.id} className="flex flex-col min-h-0 bg-black rounded-lg border border-white/10 overflow-hidden">
+                                <JobImage job={job} className="flex-1 min-h-0" />
+                                <div className="p-2 text-[10px] text-zinc-400 border-t border-white/5 truncate" title={job.prompt}>{job.prompt || 'No prompt'}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ) : focused ? (
+                <div className="flex-1 flex min-w-0">
+                    {/* Before / After */}
+                    <div className="flex-1 grid grid-cols-2 gap-3 p-4 min-w-0">
+                        <div className="flex flex-col min-h-0 gap-2">
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Capture</div>
+                            <div className="flex-1 min-h-0 bg-black rounded-lg border border-white/10 flex items-center justify-center overflow-hidden">
+                                <img src={focused.baseImage} className="max-w-full max-h-full object-contain" alt="Capture" />
+                            </div>
+                        </div>
+                        <div className="flex flex-col min-h-0 gap-2">
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Result</div>
+                            <div className="flex-1 min-h-0 bg-black rounded-lg border border-white/10 flex items-center justify-center overflow-hidden">
+                                {focused.resultUrl ? (
+                                    <img src={focused.resultUrl} className="max-w-full max-h-full object-contain animate-fade-in-up" alt="Result" />
+                                ) : focused.status === 'error' ? (
+                                    <div className="flex flex-col items-center gap-2 text-red-400 text-xs p-6 text-center"><AlertTriangle size={24} />{focused.errorMsg}</div>
+                                ) : focused.status === 'cancelled' ? (
+                                    <div className="flex flex-col items-center gap-2 text-zinc-500 text-xs"><Ban size={24} />{focused.errorMsg || 'Cancelled'}</div>
+                                ) : (
+                                    <div className="flex flex-col items-center gap-2 text-indigo-300 text-xs font-bold tracking-widest">
+                                        {focused.status === 'running' ? <Loader2 size={24} className="animate-spin" /> : <Clock size={24} />}
+                                        {focused.status === 'running' ? 'PROCESSING...' : 'QUEUED'}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Details & Actions */}
+                    <div className="w-80 border-l border-white/10 p-4 flex flex-col gap-4 overflow-y-auto custom-scrollbar shrink-0">
+                        <div className="flex items-center justify-between">
+                            <StatusBadge status={focused.status} />
+                            <span className="text-[10px] text-zinc-600 font-mono">{new Date(focused.createdAt).toLocaleString()}</span>
+                        </div>
+
+                        <div className="p-3 bg-black/20 rounded-lg border border-white/5 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[10px] font-mono text-zinc-300">
+                            <span className="text-zinc-500 flex items-center gap-1"><MapPin size={10} /> Mode</span>
+                            <span className="text-indigo-400 font-bold">{focused.cameraMode === 'scene' ? 'Scene Camera' : 'Editor View'}</span>
+                            {focused.shotName && (
+                                <>
+                                    <span className="text-zinc-500">Shot</span>
+                                    <span>{focused.shotName}</span>
+                                </>
+                            )}
+                            <span className="text-zinc-500">FOV</span>
+                            <span>{focused.fov.toFixed(0)}°</span>
+                            <span className="text-zinc-500">Camera</span>
+                            <span className="break-words">{focused.cameraInfo}</span>
+                            <span className="text-zinc-500">Ratio</span>
+                            <span>{focused.aspectRatio}</span>
+                            <span className="text-zinc-500">Pass</span>
+                            <span>{SHADING_MODE_LABELS[focused.referencePass || 'lit']}</span>
+                            {focused.completedAt && focused.startedAt && (
+                                <>
+                                    <span className="text-zinc-500">Time</span>
+                                    <span>{((focused.completedAt - focused.startedAt) / 1000).toFixed(1)}s</span>
+                                </>
+                            )}
+                        </div>
+
+                        {focused.guidePasses && Object.keys(focused.guidePasses).length > 0 && (
+                            <div className="p-3 bg-black/20 rounded-lg border border-white/5">
+                                <div className="text-[10px] font-bold text-zinc-500 mb-2 flex items-center gap-1 uppercase tracking-wider"><Layers size={10} /> Guide Passes</div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(Object.entries(focused.guidePasses) as [CapturePass, string][]).map(([pass, url]) => (
+                                        <a key={pass} href={url} download={`render_${pass}.png`} className="flex flex-col gap-1 text-[10px] text-zinc-400 hover:text-white" title={`Download ${CAPTURE_PASS_LABELS[pass]}`}>
+                                            <img src={url} className="w-full aspect-video object-contain bg-black rounded" alt={CAPTURE_PASS_LABELS[pass]} />
+                                            {CAPTURE_PASS_LABELS[pass]}
+                                        </a>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="p-3 bg-black/20 rounded-lg border border-white/5">
+                            <div className="text-[10px] font-bold text-zinc-500 mb-1 flex items-center gap-1 uppercase tracking-wider"><Zap size={10} /> Lighting</div>
+                            <div className="text-[10px] font-mono text-zinc-400 whitespace-pre-wrap">{focused.lightingInfo}</div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            {isActive(focused) ? (
+                                <button onClick={() => cancelRenderJob(focused.id)} className="col-span-2 py-2 rounded-lg bg-red-600/20 hover:bg-red-600/30 text-red-300 text-xs font-bold flex items-center justify-center gap-2">
+                                    <Square size={12} fill="currentColor" /> Cancel
+                                </button>
+                            ) : (
+                                <>
+                                    <button onClick={() => retryRenderJob(focused.id)} className="py-2 rounded-lg bg-[#3f3f46] hover:bg-[#52525b] text-zinc-200 text-xs font-bold flex items-center justify-center gap-2">
+                                        <RotateCcw size={12} /> Retry
+                                    </button>
+                                    <button onClick={() => deleteRenderJob(focused.id)} className="py-2 rounded-lg bg-[#3f3f46] hover:bg-red-600/30 text-zinc-200 hover:text-red-300 text-xs font-bold flex items-center justify-center gap-2">
+                                        <Trash2 size={12} /> Delete
+                                    </button>
+                                </>
+                            )}
+                            {focused.resultUrl && (
+                                <a href={focused.resultUrl} download={`render-${focused.createdAt}.png`} className="col-span-2 py-2 rounded-lg bg-[#3f3f46] hover:bg-[#52525b] text-zinc-200 text-xs font-bold flex items-center justify-center gap-2">
+                                    <Download size={12} /> Save Image
+                                </a>
+                            )}
+                        </div>
+
+                        {/* Re-run with tweaks */}
+                        <div className="flex flex-col gap-2 pt-3 border-t border-white/10">
+                            <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-1"><Sparkles size={10} /> Re-run With Tweaks</div>
+                            <textarea
+                                value={tweakPrompt}
+                                onChange={(e) => setTweakPrompt(e.target.value)}
+                                placeholder="Prompt..."
+                                className="h-28 bg-[#18181b] border border-white/10 rounded-lg p-2 text-xs text-zinc-200 resize-none focus:outline-none focus:border-indigo-500"
+                            />
+                            <div className="flex gap-2">
+                                <select
+                                    value={tweakRatio}
+                                    onChange={(e) => setTweakRatio(e.target.value)}
+                                    className="bg-[#18181b] border border-white/10 rounded-lg px-2 text-xs text-zinc-200 outline-none focus:border-indigo-500"
+                                >
+                                    {ratios.map(r => <option key={r} value={r}>{r}</option>)}
+                                </select>
+                                <button onClick={handleRerun} className="flex-1 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold flex items-center justify-center gap-2">
+                                    <CheckCircle2 size={12} /> Queue Re-run
+                                </button>
+                            </div>
+                            {focused.sourceJobId && renderJobs.some(j => j.id === focused.sourceJobId) && (
+                                <button onClick={() => setFocusedId(focused.sourceJobId!)} className="text-[10px] text-indigo-400 hover:text-indigo-300 text-left">
+                                    Re-run of an earlier job, show original
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            ) : (
+                <div className="flex-1 flex items-center justify-center text-zinc-600 text-sm">Select a render</div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,76 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { useAppStore } from '../store/useAppStore';
-import { Box, Layers, Eye, Sun, Video, Grid as GridIcon, Zap, Sliders, Globe, Trash2, RefreshCw, Plus, Lock, Unlock, EyeOff, Hash } from 'lucide-react';
+import { getChildObjects, isMeshObject } from '../services/sceneGraph';
+import { convertLightProps, getLightKind, LIGHT_KIND_LABELS, lightCastsShadow, lightUsesTarget } from '../services/lightService';
+import { uploadFileToStorage } from '../services/assetLibrary';
+import { ENVIRONMENT_FILE_ACCEPT, ENVIRONMENT_PRESETS, getEnvironmentFormat } from '../services/environmentService';
+import { MATERIAL_MAP_LABELS } from '../services/materialService';
+import { ARRAY_MODE_LABELS, DEFAULT_ARRAY_PROPS, getArrayInstanceCount, MAX_ARRAY_INSTANCES } from '../services/arrayService';
+import { evaluateExpression } from '../services/expressionService';
+import { createPrimitiveProps, PRIMITIVE_SHAPES } from '../services/primitiveService';
+import { DEFAULT_FONT_NAME, FONT_FILE_ACCEPT, getFontFormat } from '../services/textService';
+import { F_STOPS, focalLengthToFov, fovToFocalLength, resolveCameraProps, SENSOR_PRESETS } from '../services/cameraService';
+import { ArrayMode, ArrayProps, BackgroundMode, CameraProps, EnvironmentPreset, EnvironmentSettings, EnvironmentSource, LightKind, LightProps, MaterialMapSlot, MaterialOverride, PrimitiveProps, PrimitiveShape, SceneObject, SensorPreset, TextAlign, TextProps } from '../types';
+import { Box, Layers, Eye, Sun, Video, Grid as GridIcon, Zap, Sliders, Globe, Trash2, RefreshCw, Plus, Lock, Unlock, EyeOff, Hash, Folder, Group as GroupIcon, Ungroup, ChevronRight, ChevronDown, Upload, Palette, X, Crosshair, Copy, Link2, Unlink, Shapes, Type, AlignLeft, AlignCenter, AlignRight, LucideIcon } from 'lucide-react';
+
+// Drag payload type for reparenting inside the scene graph (kept apart from asset drags)
+const SCENE_OBJECT_DRAG_TYPE = 'application/x-banana-scene-object';
+
+// Number field that also takes expressions ("1.5*2", "90+45", "-pi/2"), committed on Enter or blur.
+// Arrow keys step the value (Shift for ten steps), Escape drops the edit.
+const ExpressionInput = ({ value, step, precision = 2, onCommit, className }: { value: number, step: number, precision?: number, onCommit: (v: number) => void, className?: string }) => {
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const commit = () => {
+        if (draft === null) return;
+        const result = evaluateExpression(draft);
+        setDraft(null);
+        if (result !== null) onCommit(result);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        else if (e.key === 'Escape') setDraft(null);
+        else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            const base = (draft === null ? null : evaluateExpression(draft)) ?? value;
+            setDraft(null);
+            onCommit(base + (e.key === 'ArrowUp' ? 1 : -1) * step * (e.shiftKey ? 10 : 1));
+        }
+    };
+
+    return (
+        <input
+            type="text"
+            inputMode="decimal"
+            value={draft ?? value.toFixed(precision)}
+            onFocus={(e) => e.target.select()}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={handleKeyDown}
+            className={className}
+        />
+    );
+};
+
+const TEXT_ALIGN_OPTIONS: { align: TextAlign, icon: LucideIcon }[] = [
+    { align: 'left', icon: AlignLeft },
+    { align: 'center', icon: AlignCenter },
+    { align: 'right', icon: AlignRight }
+];
 
 // Extracted Component: Vector3Input
-const Vector3Input = ({ label, value, onChange, disabled }: { label: string, value: [number, number, number], onChange: (val: [number, number, number]) => void, disabled?: boolean }) => {
-     const updateVal = (index: number, val: string) => {
+// Values in degrees are shown and typed in degrees but stored in radians
+const Vector3Input = ({ label, value, onChange, disabled, degrees, precision }: { label: string, value: [number, number, number], onChange: (val: [number, number, number]) => void, disabled?: boolean, degrees?: boolean, precision?: number }) => {
+     const updateVal = (index: number, val: number) => {
          const newArr = [...value] as [number, number, number];
-         newArr[index] = parseFloat(val) || 0;
+         newArr[index] = degrees ? val * Math.PI / 180 : val;
          onChange(newArr);
      };
 
      return (
         <div className={`flex flex-col gap-2 mb-4 transition-opacity duration-300 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
-            <span className="text-[10px] text-zinc-400 uppercase font-bold tracking-wider pl-1">{label}</span>
+            <span className="text-[10px] text-zinc-400 uppercase font-bold tracking-wider pl-1">{label}{degrees && ' (°)'}</span>
             <div className="flex gap-2">
                 {['X', 'Y', 'Z'].map((axis, i) => (
                     <div key={axis} className="relative flex-1 group">
@@ -21,10 +79,11 @@ const Vector3Input = ({ label, value, onChange, disabled }: { label: string, val
                         }`}>
                             {axis}
                         </div>
-                        <input 
-                            type="number" step="0.1" 
-                            value={value[i].toFixed(2)} 
-                            onChange={(e) => updateVal(i, e.target.value)}
+                        <ExpressionInput 
+                            value={degrees ? value[i] * 180 / Math.PI : value[i]} 
+                            step={degrees ? 1 : 0.1}
+                            precision={precision}
+                            onCommit={(v) => updateVal(i, v)}
                             className="w-full bg-[#09090b] border border-white/10 rounded-md text-xs text-zinc-100 pl-6 py-1.5 
                             focus:border-indigo-500 focus:bg-[#09090b] focus:ring-1 focus:ring-indigo-500/50 focus:outline-none 
                             transition-all duration-200 font-mono ease-silky hover:border-white/20" 
@@ -36,16 +95,438 @@ const Vector3Input = ({ label, value, onChange, disabled }: { label: string, val
      );
   };
 
+// Slider with a label and formatted value readout
+const PropertySlider = ({ label, value, min, max, step, format, onChange }: { label: string, value: number, min: number, max: number, step: number, format?: (v: number) => string, onChange: (v: number) => void }) => (
+    <div className="space-y-2">
+        <div className="flex justify-between text-xs font-medium text-zinc-400">
+            <span>{label}</span>
+            <span className="font-mono text-indigo-400 font-bold">{format ? format(value) : value.toFixed(1)}</span>
+        </div>
+        <input 
+            type="range" 
+            min={min} max={max} step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="w-full h-1.5 bg-zinc-800 rounded-full appearance-none cursor-pointer accent-indigo-500 transition-all hover:h-2"
+        />
+    </div>
+);
+
+const ColorSwatch = ({ value, onChange }: { value: string, onChange: (color: string) => void }) => (
+    <div className="flex items-center gap-3">
+        <div className="relative w-8 h-8 rounded-full overflow-hidden border border-white/10 shadow-sm hover:scale-110 transition-transform duration-200">
+            <input 
+                type="color" 
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="absolute -top-1/2 -left-1/2 w-[200%] h-[200%] cursor-pointer p-0 border-0"
+            />
+        </div>
+        <span className="text-xs font-mono text-zinc-300 uppercase font-bold">{value}</span>
+    </div>
+);
+
+// Slider range per light kind, physical lights need much more than a sun
+const INTENSITY_MAX: Record<LightKind, number> = {
+    directional: 10,
+    point: 200,
+    spot: 400,
+    'rect-area': 50,
+    hemisphere: 10
+};
+
+// Per-material editor for the selected model. Edits are stored as overrides on the SceneObject (undoable, saved, exported)
+const MaterialInspector = ({ object }: { object: SceneObject }) => {
+    const materials = useAppStore(state => state.modelMaterials[object.id]);
+    const updateSceneObject = useAppStore(state => state.updateSceneObject);
+    const addNotification = useAppStore(state => state.addNotification);
+    const [activeKey, setActiveKey] = useState<string | null>(null);
+    const [uploadSlot, setUploadSlot] = useState<MaterialMapSlot | null>(null);
+    const textureInputRef = useRef<HTMLInputElement>(null);
+
+    if (!materials) {
+        return <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 text-xs text-zinc-500 italic">Loading materials...</div>;
+    }
+    if (materials.length === 0) return null;
+
+    const info = materials.find(m => m.key === activeKey) || materials[0];
+    const override = object.materialOverrides?.[info.key] || {};
+
+    // Reads the latest overrides so edits finishing after an upload don't drop newer changes
+    const setOverride = (key: string, update: (current: MaterialOverride) => MaterialOverride | null) => {
+        const overrides = useAppStore.getState().sceneObjects.find(o => o.id === object.id)?.materialOverrides || {};
+        const { [key]: current, ...rest } = overrides;
+        const next = update(current || {});
+        updateSceneObject(object.id, { materialOverrides: next ? { ...rest, [key]: next } : rest });
+    };
+    const updateOverride = (updates: Partial<MaterialOverride>) => setOverride(info.key, current => ({ ...current, ...updates }));
+    // url: replacement texture, null: remove the model's texture, undefined: back to the model's texture
+    const setMap = (key: string, slot: MaterialMapSlot, url: string | null | undefined) => setOverride(key, current => {
+        const { [slot]: _, ...maps } = current.maps || {};
+        return { ...current, maps: url === undefined ? maps : { ...maps, [slot]: url } };
+    });
+
+    const handleTextureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !uploadSlot) return;
+        const key = info.key;
+        try {
+            setMap(key, uploadSlot, await uploadFileToStorage(file));
+        } catch (err: any) {
+            addNotification('error', `Texture upload failed: ${err.message}`);
+        }
+    };
+
+    const slots = (Object.keys(MATERIAL_MAP_LABELS) as MaterialMapSlot[])
+        .filter(slot => info.pbr || slot === 'map' || slot === 'normalMap');
+
+    return (
+        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2"><Palette size={12} /> Materials</span>
+                {object.materialOverrides?.[info.key] && (
+                    <button onClick={() => setOverride(info.key, () => null)} className="text-[10px] font-bold text-zinc-500 hover:text-zinc-200 flex items-center gap-1 transition-colors" title="Reset to the model's material">
+                        <RefreshCw size={10} /> Reset
+                    </button>
+                )}
+            </div>
+
+            <div className="max-h-28 overflow-y-auto custom-scrollbar space-y-1">
+                {materials.map(m => (
+                    <button
+                        key={m.key}
+                        onClick={() => setActiveKey(m.key)}
+                        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-[11px] text-left transition-all duration-200 ${m.key === info.key ? 'bg-indigo-500/10 text-indigo-300' : 'text-zinc-400 hover:bg-white/5 hover:text-zinc-100'}`}
+                    >
+                        <div className="w-3 h-3 rounded-full border border-white/10 shrink-0" style={{ backgroundColor: object.materialOverrides?.[m.key]?.color || m.color }} />
+                        <span className="truncate flex-1">{m.key}</span>
+                        {object.materialOverrides?.[m.key] && <span className="w-1.5 h-1.5 rounded-full bg-indigo-500 shrink-0" title="Edited" />}
+                        <span className="text-zinc-600 font-mono">{m.meshCount}</span>
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between text-xs font-medium text-zinc-400">
+                <span>Base Color</span>
+                <ColorSwatch value={override.color || info.color} onChange={(color) => updateOverride({ color })} />
+            </div>
+            {info.pbr && (
+                <>
+                    <PropertySlider label="Roughness" value={override.roughness ?? info.roughness} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(roughness) => updateOverride({ roughness })} />
+                    <PropertySlider label="Metalness" value={override.metalness ?? info.metalness} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(metalness) => updateOverride({ metalness })} />
+                    <div className="flex items-center justify-between text-xs font-medium text-zinc-400">
+                        <span>Emissive</span>
+                        <ColorSwatch value={override.emissive || info.emissive} onChange={(emissive) => updateOverride({ emissive })} />
+                    </div>
+                    <PropertySlider label="Emissive Strength" value={override.emissiveIntensity ?? info.emissiveIntensity} min={0} max={10} step={0.1} onChange={(emissiveIntensity) => updateOverride({ emissiveIntensity })} />
+                </>
+            )}
+            <PropertySlider label="Opacity" value={override.opacity ?? info.opacity} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(opacity) => updateOverride({ opacity })} />
+
+            <div className="space-y-1.5 pt-1">
+                <span className="text-[10px] text-zinc-500 uppercase font-bold tracking-wider">Texture Maps</span>
+                {slots.map(slot => {
+                    const custom = override.maps?.[slot];
+                    const status = custom === undefined ? (info.maps.includes(slot) ? 'Model' : 'None') : custom === null ? 'Removed' : 'Custom';
+                    return (
+                        <div key={slot} className="flex items-center gap-2 text-[11px]">
+                            <span className="flex-1 text-zinc-400">{MATERIAL_MAP_LABELS[slot]}</span>
+                            <span className={`font-mono text-[10px] ${status === 'Custom' ? 'text-indigo-400' : 'text-zinc-600'}`}>{status}</span>
+                            <button onClick={() => { setUploadSlot(slot); textureInputRef.current?.click(); }} className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-white/5 transition-colors" title="Upload Texture">
+                                <Upload size={11} />
+                            </button>
+                            <button
+                                onClick={() => setMap(info.key, slot, null)}
+                                disabled={status === 'None' || status === 'Removed'}
+                                className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                                title="Remove Texture"
+                            >
+                                <X size={11} />
+                            </button>
+                            <button
+                                onClick={() => setMap(info.key, slot, undefined)}
+                                disabled={custom === undefined}
+                                className="p-1 rounded text-zinc-500 hover:text-zinc-200 hover:bg-white/5 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+                                title="Restore Model Texture"
+                            >
+                                <RefreshCw size={11} />
+                            </button>
+                        </div>
+                    );
+                })}
+                <input type="file" ref={textureInputRef} className="hidden" accept="image/*" onChange={handleTextureUpload} />
+            </div>
+        </div>
+    );
+};
+
+// Content, font and extrusion of a 3D text. The content is committed on blur (or Ctrl+Enter), not per keystroke
+const TextInspector = ({ object, textProps }: { object: SceneObject, textProps: TextProps }) => {
+    const updateSceneObject = useAppStore(state => state.updateSceneObject);
+    const addNotification = useAppStore(state => state.addNotification);
+    const fontInputRef = useRef<HTMLInputElement>(null);
+    const [draft, setDraft] = useState<string | null>(null);
+
+    const updateText = (updates: Partial<TextProps>) => updateSceneObject(object.id, { textProps: { ...textProps, ...updates } });
+    const commitText = () => {
+        if (draft !== null && draft !== textProps.text) updateText({ text: draft });
+        setDraft(null);
+    };
+
+    const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const fontFormat = getFontFormat(file.name);
+        if (!fontFormat) {
+            addNotification('error', 'Unsupported font file. Use .ttf, .otf or a typeface .json');
+            return;
+        }
+        try {
+            updateText({ fontUrl: await uploadFileToStorage(file), fontFormat, fontName: file.name });
+        } catch (err: any) {
+            addNotification('error', `Font upload failed: ${err.message}`);
+        }
+    };
+
+    return (
+        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
+            <textarea
+                value={draft ?? textProps.text}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitText}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) commitText();
+                    if (e.key === 'Escape') setDraft(null);
+                }}
+                rows={2}
+                placeholder="Text"
+                className="w-full bg-[#18181b] border border-white/10 rounded-md px-2 py-1.5 text-xs text-zinc-100 outline-none focus:border-indigo-500 resize-y custom-scrollbar"
+            />
+
+            <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                <span>Font</span>
+                <div className="flex items-center gap-1 min-w-0">
+                    <span className="text-xs font-mono text-zinc-300 truncate max-w-[110px]" title={textProps.fontName}>{textProps.fontUrl ? textProps.fontName : DEFAULT_FONT_NAME}</span>
+                    <button onClick={() => fontInputRef.current?.click()} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-zinc-200 transition-colors" title="Upload a font (TTF, OTF, typeface JSON)">
+                        <Upload size={12} />
+                    </button>
+                    {textProps.fontUrl && (
+                        <button onClick={() => updateText({ fontUrl: undefined, fontFormat: undefined, fontName: undefined })} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-zinc-200 transition-colors" title={`Back to ${DEFAULT_FONT_NAME}`}>
+                            <X size={12} />
+                        </button>
+                    )}
+                </div>
+                <input type="file" ref={fontInputRef} className="hidden" accept={FONT_FILE_ACCEPT} onChange={handleFontUpload} />
+            </div>
+
+            <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                <span>Alignment</span>
+                <div className="flex bg-[#18181b] rounded-md border border-white/10 p-0.5">
+                    {TEXT_ALIGN_OPTIONS.map(({ align, icon: Icon }) => (
+                        <button
+                            key={align}
+                            onClick={() => updateText({ align })}
+                            className={`p-1 rounded transition-colors ${textProps.align === align ? 'bg-indigo-500/20 text-indigo-300' : 'text-zinc-500 hover:text-zinc-200'}`}
+                            title={`Align ${align}`}
+                        >
+                            <Icon size={12} />
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <PropertySlider label="Size" value={textProps.size} min={0.05} max={5} step={0.05} format={(v) => v.toFixed(2)} onChange={(size) => updateText({ size })} />
+            <PropertySlider label="Depth" value={textProps.depth} min={0.01} max={2} step={0.01} format={(v) => v.toFixed(2)} onChange={(depth) => updateText({ depth })} />
+            <PropertySlider label="Line Height" value={textProps.lineHeight} min={0.5} max={3} step={0.05} format={(v) => `${v.toFixed(2)}×`} onChange={(lineHeight) => updateText({ lineHeight })} />
+
+            <label className="flex items-center justify-between text-xs font-medium text-zinc-400 cursor-pointer">
+                <span>Bevel</span>
+                <input
+                    type="checkbox"
+                    checked={textProps.bevelEnabled}
+                    onChange={(e) => updateText({ bevelEnabled: e.target.checked })}
+                    className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                />
+            </label>
+            {textProps.bevelEnabled && (
+                <>
+                    <PropertySlider label="Bevel Thickness" value={textProps.bevelThickness} min={0} max={0.2} step={0.005} format={(v) => v.toFixed(3)} onChange={(bevelThickness) => updateText({ bevelThickness })} />
+                    <PropertySlider label="Bevel Size" value={textProps.bevelSize} min={0} max={0.1} step={0.001} format={(v) => v.toFixed(3)} onChange={(bevelSize) => updateText({ bevelSize })} />
+                </>
+            )}
+        </div>
+    );
+};
+
+// Shape and size of a primitive; switching the shape starts from that shape's defaults
+const PrimitiveInspector = ({ object, primitiveProps }: { object: SceneObject, primitiveProps: PrimitiveProps }) => {
+    const updateSceneObject = useAppStore(state => state.updateSceneObject);
+    const { shape, params } = primitiveProps;
+
+    return (
+        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
+            <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                <span>Shape</span>
+                <select
+                    value={shape}
+                    onChange={(e) => updateSceneObject(object.id, { primitiveProps: createPrimitiveProps(e.target.value as PrimitiveShape) })}
+                    className="flex-1 max-w-[140px] bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                >
+                    {(Object.keys(PRIMITIVE_SHAPES) as PrimitiveShape[]).map(s => <option key={s} value={s}>{PRIMITIVE_SHAPES[s].label}</option>)}
+                </select>
+            </div>
+            {PRIMITIVE_SHAPES[shape].params.map(param => (
+                <PropertySlider
+                    key={param.key}
+                    label={param.label}
+                    value={params[param.key] ?? param.default}
+                    min={param.min} max={param.max} step={param.step}
+                    format={(v) => v.toFixed(param.step === 1 ? 0 : 2)}
+                    onChange={(v) => updateSceneObject(object.id, { primitiveProps: { shape, params: { ...params, [param.key]: v } } })}
+                />
+            ))}
+        </div>
+    );
+};
+
+// Array / scatter of a model: one scene object drawn as many instanced copies
+const ArrayInspector = ({ object }: { object: SceneObject }) => {
+    const updateSceneObject = useAppStore(state => state.updateSceneObject);
+    const sceneObjects = useAppStore(state => state.sceneObjects);
+    const targets = sceneObjects.filter(o => isMeshObject(o) && o.id !== object.id);
+    const array = object.array;
+
+    const updateArray = (updates: Partial<ArrayProps>) => updateSceneObject(object.id, { array: { ...DEFAULT_ARRAY_PROPS, ...array, ...updates } });
+    const fieldClass = "w-20 bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 font-mono outline-none focus:border-indigo-500";
+    const instanceCount = array ? getArrayInstanceCount(array) : 1;
+
+    return (
+        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-bold text-zinc-400 uppercase tracking-wider flex items-center gap-2"><Copy size={12} /> Array</span>
+                {array ? (
+                    <button onClick={() => updateSceneObject(object.id, { array: undefined })} className="text-[10px] font-bold text-zinc-500 hover:text-zinc-200 flex items-center gap-1 transition-colors" title="Back to a single copy">
+                        <X size={10} /> Remove
+                    </button>
+                ) : (
+                    <button onClick={() => updateArray({})} className="text-[10px] font-bold text-zinc-500 hover:text-zinc-200 flex items-center gap-1 transition-colors">
+                        <Plus size={10} /> Add
+                    </button>
+                )}
+            </div>
+
+            {array && (
+                <>
+                    <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                        <span>Mode</span>
+                        <select
+                            value={array.mode}
+                            onChange={(e) => updateArray({ mode: e.target.value as ArrayMode })}
+                            className="flex-1 max-w-[140px] bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                        >
+                            {(Object.keys(ARRAY_MODE_LABELS) as ArrayMode[]).map(mode => <option key={mode} value={mode}>{ARRAY_MODE_LABELS[mode]}</option>)}
+                        </select>
+                    </div>
+
+                    {array.mode === 'scatter' && (
+                        <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                            <span>Surface</span>
+                            <select
+                                value={array.targetId || ''}
+                                onChange={(e) => updateArray({ targetId: e.target.value || undefined })}
+                                className="flex-1 max-w-[140px] bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                            >
+                                <option value="">Choose an object...</option>
+                                {targets.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+
+                    {array.mode === 'grid' ? (
+                        <>
+                            <Vector3Input label="Copies per Axis" value={array.gridCount} precision={0} onChange={(v) => updateArray({ gridCount: v.map(n => Math.max(1, Math.round(n))) as [number, number, number] })} />
+                            <Vector3Input label="Cell Size" value={array.spacing} onChange={(v) => updateArray({ spacing: v })} />
+                        </>
+                    ) : (
+                        <label className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                            <span>Copies</span>
+                            <ExpressionInput value={array.count} step={1} precision={0} onCommit={(v) => updateArray({ count: Math.min(Math.max(1, Math.round(v)), MAX_ARRAY_INSTANCES) })} className={fieldClass} />
+                        </label>
+                    )}
+
+                    {array.mode === 'linear' && <Vector3Input label="Offset per Copy" value={array.spacing} onChange={(v) => updateArray({ spacing: v })} />}
+
+                    {array.mode === 'radial' && (
+                        <>
+                            <PropertySlider label="Radius" value={array.radius} min={0} max={20} step={0.1} onChange={(v) => updateArray({ radius: v })} />
+                            <PropertySlider label="Sweep" value={array.sweep} min={1} max={360} step={1} format={(v) => `${v.toFixed(0)}°`} onChange={(v) => updateArray({ sweep: v })} />
+                        </>
+                    )}
+
+                    {array.mode === 'scatter' && (
+                        <>
+                            <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                                <span>Seed</span>
+                                <div className="flex items-center gap-1">
+                                    <ExpressionInput value={array.seed} step={1} precision={0} onCommit={(v) => updateArray({ seed: Math.round(v) })} className={fieldClass} />
+                                    <button onClick={() => updateArray({ seed: Math.floor(Math.random() * 100000) })} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-zinc-200 transition-colors" title="New random layout">
+                                        <RefreshCw size={12} />
+                                    </button>
+                                </div>
+                            </div>
+                            <Vector3Input label="Random Rotation (±°)" value={array.rotationRange} precision={0} onChange={(v) => updateArray({ rotationRange: v })} />
+                            <PropertySlider label="Min Scale" value={array.scaleRange[0]} min={0.05} max={3} step={0.05} format={(v) => `${v.toFixed(2)}×`} onChange={(v) => updateArray({ scaleRange: [v, Math.max(v, array.scaleRange[1])] })} />
+                            <PropertySlider label="Max Scale" value={array.scaleRange[1]} min={0.05} max={3} step={0.05} format={(v) => `${v.toFixed(2)}×`} onChange={(v) => updateArray({ scaleRange: [Math.min(v, array.scaleRange[0]), v] })} />
+                            <label className="flex items-center justify-between text-xs font-medium text-zinc-400 cursor-pointer">
+                                <span>Align to Surface</span>
+                                <input
+                                    type="checkbox"
+                                    checked={array.alignToNormal}
+                                    onChange={(e) => updateArray({ alignToNormal: e.target.checked })}
+                                    className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                                />
+                            </label>
+                        </>
+                    )}
+
+                    <div className="text-[10px] text-zinc-500">
+                        {instanceCount} {instanceCount === 1 ? 'copy' : 'copies'}{instanceCount === MAX_ARRAY_INSTANCES && ' (maximum)'}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
 // Extracted Component: SceneItem
-const SceneItem = ({ id, label, icon: Icon, active, visible = true, onClick, onToggleVisibility, onDelete }: any) => (
+const SceneItem = ({ id, label, icon: Icon, active, visible = true, onClick, onToggleVisibility, onDelete, depth = 0, expandable, expanded, onToggleExpand, dropTarget, ...dragProps }: any) => (
     <div 
         onClick={onClick}
-        className={`group flex items-center gap-2.5 px-3 py-2 cursor-pointer text-xs rounded-lg mx-2 mb-1 transition-all duration-300 ease-silky border border-transparent ${
-            active 
+        {...dragProps}
+        style={{ marginLeft: 8 + depth * 14 }}
+        className={`group flex items-center gap-2.5 px-3 py-2 cursor-pointer text-xs rounded-lg mr-2 mb-1 transition-all duration-300 ease-silky border ${
+            dropTarget
+            ? 'border-indigo-500/60 bg-indigo-500/10 text-zinc-100'
+            : active 
             ? 'bg-indigo-500/10 border-indigo-500/20 text-indigo-300 shadow-sm' 
-            : 'text-zinc-400 hover:bg-[#27272a] hover:text-zinc-100 hover:border-white/5 hover:translate-x-1'
+            : 'border-transparent text-zinc-400 hover:bg-[#27272a] hover:text-zinc-100 hover:border-white/5 hover:translate-x-1'
         }`}
     >
+        {/* Tree Expander (spacer keeps siblings aligned) */}
+        {depth > 0 || expandable ? (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleExpand?.();
+                }}
+                className={`-ml-1 -mr-1.5 p-0.5 rounded hover:bg-white/10 text-zinc-500 ${expandable ? '' : 'invisible'}`}
+            >
+                {expanded ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
+            </button>
+        ) : null}
         <Icon size={14} className={`transition-colors duration-300 ${active ? 'text-indigo-400' : 'opacity-50 group-hover:opacity-80'}`} /> 
         <span className={`flex-1 truncate font-bold transition-opacity duration-300 ${!visible ? 'opacity-50 line-through' : ''}`}>{label}</span>
         
@@ -82,22 +563,118 @@ export default function RendererPanel() {
   const { 
     sceneObjects,
     selectedObjectId, 
+    selectedObjectIds,
     setSelectedObjectId,
+    toggleObjectSelection,
     updateSelectedObjectTransform,
     removeSceneObject,
     addLightToScene,
     updateSceneObject,
+    reparentSceneObject,
+    groupSceneObjects,
+    ungroupSceneObject,
+    duplicateSceneObjects,
+    unlinkSceneObject,
     renderSettings, 
     updateRenderSettings,
     cameraState,
     setCameraState,
     resetCamera,
     activeCameraId,
-    setActiveCameraId
+    setActiveCameraId,
+    focusPickCameraId,
+    setFocusPickCameraId,
+    addNotification
   } = useAppStore();
   
   // Find current selected object data
   const selectedObject = sceneObjects.find(obj => obj.id === selectedObjectId);
+  const linkedCount = selectedObject?.linkId ? sceneObjects.filter(o => o.id !== selectedObject.id && o.linkId === selectedObject.linkId).length : 0;
+
+  // Environment settings are replaced as a whole so each change is one undo step
+  const environment = renderSettings.environment;
+  const updateEnvironment = (updates: Partial<EnvironmentSettings>) => updateRenderSettings({ environment: { ...environment, ...updates } });
+  const presetEntries = Object.entries(ENVIRONMENT_PRESETS) as [EnvironmentPreset, typeof ENVIRONMENT_PRESETS[EnvironmentPreset]][];
+  const hdriInputRef = useRef<HTMLInputElement>(null);
+
+  const handleHdriUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      const customFormat = getEnvironmentFormat(file.name);
+      if (!customFormat) {
+          addNotification('error', 'Unsupported environment file. Use .hdr or .exr');
+          return;
+      }
+      try {
+          const customUrl = await uploadFileToStorage(file);
+          updateEnvironment({ source: 'custom', customUrl, customName: file.name, customFormat });
+          addNotification('success', `Environment loaded: ${file.name}`);
+      } catch (err: any) {
+          addNotification('error', `Upload failed: ${err.message}`);
+      }
+  };
+
+  // Scene graph tree state
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null); // 'root' while hovering the list itself
+
+  const toggleCollapsed = (id: string) => setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+  });
+
+  const handleTreeDrop = (e: React.DragEvent, parentId: string | null) => {
+      const draggedId = e.dataTransfer.getData(SCENE_OBJECT_DRAG_TYPE);
+      setDropTargetId(null);
+      if (!draggedId) return;
+      e.preventDefault();
+      e.stopPropagation();
+      reparentSceneObject(draggedId, parentId);
+      if (parentId) setCollapsedIds(prev => { const next = new Set(prev); next.delete(parentId); return next; });
+  };
+
+  const renderTree = (parentId: string | null, depth: number): React.ReactNode =>
+      getChildObjects(sceneObjects, parentId).map((obj, i) => {
+          const childCount = getChildObjects(sceneObjects, obj.id).length;
+          const expanded = !collapsedIds.has(obj.id);
+          return (
+              <div key={obj.id} className="animate-fade-in-up" style={{ animationDelay: `${i * 50}ms` }}>
+                 <SceneItem 
+                     id={obj.id} 
+                     label={obj.name || "Untitled"} 
+                     icon={obj.type === 'light' ? Zap : obj.type === 'camera' ? Video : obj.type === 'group' ? Folder : obj.type === 'primitive' ? Shapes : obj.type === 'text' ? Type : Box} 
+                     active={selectedObjectIds.includes(obj.id)}
+                     visible={obj.visible}
+                     depth={depth}
+                     expandable={childCount > 0}
+                     expanded={expanded}
+                     onToggleExpand={() => toggleCollapsed(obj.id)}
+                     onToggleVisibility={() => updateSceneObject(obj.id, { visible: !obj.visible })}
+                     onClick={(e: React.MouseEvent) => e.shiftKey || e.ctrlKey || e.metaKey ? toggleObjectSelection(obj.id) : setSelectedObjectId(obj.id)}
+                     onDelete={() => removeSceneObject(obj.id)}
+                     dropTarget={dropTargetId === obj.id}
+                     draggable
+                     onDragStart={(e: React.DragEvent) => {
+                         e.stopPropagation();
+                         e.dataTransfer.setData(SCENE_OBJECT_DRAG_TYPE, obj.id);
+                         e.dataTransfer.effectAllowed = 'move';
+                     }}
+                     onDragOver={(e: React.DragEvent) => {
+                         if (!e.dataTransfer.types.includes(SCENE_OBJECT_DRAG_TYPE)) return;
+                         e.preventDefault();
+                         e.stopPropagation();
+                         setDropTargetId(obj.id);
+                     }}
+                     onDragLeave={() => setDropTargetId(null)}
+                     onDrop={(e: React.DragEvent) => handleTreeDrop(e, obj.id)}
+                 />
+                 {expanded && renderTree(obj.id, depth + 1)}
+              </div>
+          );
+      });
 
   return (
     <div className="flex flex-col h-full text-zinc-300 select-none bg-[#18181b] animate-slide-in-right">
@@ -110,7 +687,7 @@ export default function RendererPanel() {
                 SCENE GRAPH
              </div>
              <button 
-                onClick={addLightToScene} 
+                onClick={() => addLightToScene()} 
                 className="w-5 h-5 rounded bg-[#27272a] hover:bg-zinc-700 border border-white/5 text-zinc-400 hover:text-white flex items-center justify-center transition-all duration-200 hover:scale-110 active:scale-95" 
                 title="Add Light"
             >
@@ -146,30 +723,36 @@ export default function RendererPanel() {
                 onClick={() => setSelectedObjectId('camera')}
              />
 
+             {/* Dropping on the list (outside an item) moves the object back to the root */}
+             <div
+                className={`pb-4 rounded-lg transition-colors duration-200 ${dropTargetId === 'root' ? 'bg-indigo-500/5' : ''}`}
+                onDragOver={(e) => {
+                    if (!e.dataTransfer.types.includes(SCENE_OBJECT_DRAG_TYPE)) return;
+                    e.preventDefault();
+                    setDropTargetId('root');
+                }}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(e) => handleTreeDrop(e, null)}
+             >
              <div className="px-4 pt-4 pb-2 text-[10px] font-bold text-zinc-500 uppercase tracking-widest flex justify-between items-center">
                  <span>Objects ({sceneObjects.length})</span>
+                 <button
+                    onClick={() => groupSceneObjects(selectedObjectIds)}
+                    className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-zinc-200 transition-all duration-200 hover:scale-110"
+                    title={selectedObjectIds.length > 0 ? "Group Selected" : "New Group"}
+                 >
+                     <GroupIcon size={12} />
+                 </button>
              </div>
              
              {sceneObjects.length > 0 ? (
-                 sceneObjects.map((obj, i) => (
-                     <div key={obj.id} className="animate-fade-in-up" style={{ animationDelay: `${i * 50}ms` }}>
-                        <SceneItem 
-                            id={obj.id} 
-                            label={obj.name || "Untitled"} 
-                            icon={obj.type === 'light' ? Zap : obj.type === 'camera' ? Video : Box} 
-                            active={selectedObjectId === obj.id}
-                            visible={obj.visible}
-                            onToggleVisibility={() => updateSceneObject(obj.id, { visible: !obj.visible })}
-                            onClick={() => setSelectedObjectId(obj.id)}
-                            onDelete={() => removeSceneObject(obj.id)}
-                        />
-                     </div>
-                 ))
+                 renderTree(null, 0)
              ) : (
                 <div className="px-5 py-2 text-xs text-zinc-500 italic animate-pulse">
                     Scene is empty
                 </div>
              )}
+             </div>
           </div>
       </div>
 
@@ -196,15 +779,46 @@ export default function RendererPanel() {
                             <div className={`p-1.5 rounded-lg transition-colors duration-300 ${
                                 selectedObject.type === 'light' ? 'bg-yellow-900/30 text-yellow-500' : 
                                 selectedObject.type === 'camera' ? 'bg-purple-900/30 text-purple-500' :
+                                selectedObject.type === 'group' ? 'bg-zinc-800 text-zinc-300' :
                                 'bg-blue-900/30 text-blue-500'
                             }`}>
                                 {selectedObject.type === 'light' ? <Zap size={14} /> : 
                                  selectedObject.type === 'camera' ? <Video size={14} /> :
+                                 selectedObject.type === 'group' ? <Folder size={14} /> :
+                                 selectedObject.type === 'primitive' ? <Shapes size={14} /> :
+                                 selectedObject.type === 'text' ? <Type size={14} /> :
                                  <Box size={14} />}
                             </div>
                             <span className="text-sm font-bold text-zinc-100 truncate max-w-[120px]">{selectedObject.name}</span>
                         </div>
                         <div className="flex items-center gap-1">
+                            {/* Ungroup: children keep their world placement */}
+                            {selectedObject.type === 'group' && (
+                                <button 
+                                    onClick={() => ungroupSceneObject(selectedObject.id)}
+                                    className="p-1.5 rounded transition-all duration-200 hover:scale-110 active:scale-95 text-zinc-500 hover:text-zinc-300 hover:bg-white/5"
+                                    title="Ungroup"
+                                >
+                                    <Ungroup size={14} />
+                                </button>
+                            )}
+                            {/* Duplicate (Ctrl+D) / linked duplicate (Ctrl+Shift+D) of the selection */}
+                            <button 
+                                onClick={() => duplicateSceneObjects(selectedObjectIds)}
+                                className="p-1.5 rounded transition-all duration-200 hover:scale-110 active:scale-95 text-zinc-500 hover:text-zinc-300 hover:bg-white/5"
+                                title="Duplicate (Ctrl+D)"
+                            >
+                                <Copy size={14} />
+                            </button>
+                            {selectedObject.type !== 'group' && (
+                                <button 
+                                    onClick={() => duplicateSceneObjects(selectedObjectIds, true)}
+                                    className="p-1.5 rounded transition-all duration-200 hover:scale-110 active:scale-95 text-zinc-500 hover:text-zinc-300 hover:bg-white/5"
+                                    title="Linked Duplicate (Ctrl+Shift+D), shares model, materials and settings"
+                                >
+                                    <Link2 size={14} />
+                                </button>
+                            )}
                             {/* Visibility Toggle in Properties */}
                             <button 
                                 onClick={() => updateSceneObject(selectedObject.id, { visible: !selectedObject.visible })}
@@ -245,6 +859,25 @@ export default function RendererPanel() {
                         </div>
                     )}
                     
+                    {linkedCount > 0 && (
+                        <div className="flex items-center justify-between gap-3 p-3 bg-indigo-900/10 border border-indigo-500/20 rounded-lg text-[10px] leading-relaxed text-indigo-300 font-medium animate-fade-in-up">
+                            <span>Linked with {linkedCount} other {linkedCount === 1 ? 'object' : 'objects'}. Material and {selectedObject.type} edits apply to all of them.</span>
+                            <button
+                                onClick={() => unlinkSceneObject(selectedObject.id)}
+                                className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 text-zinc-300 transition-colors"
+                                title="Make this object independent"
+                            >
+                                <Unlink size={12} /> Unlink
+                            </button>
+                        </div>
+                    )}
+
+                    {selectedObjectIds.length > 1 && (
+                        <div className="p-3 bg-indigo-900/10 border border-indigo-500/20 rounded-lg text-[10px] leading-relaxed text-indigo-300 font-medium animate-fade-in-up">
+                            {selectedObjectIds.length} objects selected. Transform changes are applied to every unlocked object.
+                        </div>
+                    )}
+
                     <Vector3Input 
                         label="Position" 
                         value={selectedObject.transform.position} 
@@ -257,9 +890,10 @@ export default function RendererPanel() {
                         value={selectedObject.transform.rotation} 
                         onChange={(v) => updateSelectedObjectTransform({ rotation: v })} 
                         disabled={selectedObject.locked}
+                        degrees
                     />
 
-                    {selectedObject.type === 'model' && (
+                    {(isMeshObject(selectedObject) || selectedObject.type === 'group') && (
                         <Vector3Input 
                             label="Scale" 
                             value={selectedObject.transform.scale} 
@@ -268,60 +902,192 @@ export default function RendererPanel() {
                         />
                     )}
 
+                    {selectedObject.type === 'text' && selectedObject.textProps && <TextInspector key={selectedObject.id} object={selectedObject} textProps={selectedObject.textProps} />}
+                    {selectedObject.type === 'primitive' && selectedObject.primitiveProps && <PrimitiveInspector object={selectedObject} primitiveProps={selectedObject.primitiveProps} />}
+                    {isMeshObject(selectedObject) && <MaterialInspector key={selectedObject.id} object={selectedObject} />}
+                    {isMeshObject(selectedObject) && <ArrayInspector object={selectedObject} />}
+
                     {/* Light Specific Properties */}
-                    {selectedObject.type === 'light' && selectedObject.lightProps && (
+                    {selectedObject.type === 'light' && selectedObject.lightProps && (() => {
+                        const lightProps = selectedObject.lightProps;
+                        const kind = getLightKind(lightProps);
+                        const updateLight = (updates: Partial<LightProps>) => updateSceneObject(selectedObject.id, { lightProps: { ...lightProps, ...updates } });
+                        return (
                         <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
-                             <div className="flex justify-between text-xs font-medium text-zinc-400">
-                                <span>Intensity</span>
-                                <span className="font-mono text-indigo-400 font-bold">{selectedObject.lightProps.intensity.toFixed(1)}</span>
+                            <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                                <span>Type</span>
+                                <select
+                                    value={kind}
+                                    onChange={(e) => updateSceneObject(selectedObject.id, { lightProps: convertLightProps(lightProps, e.target.value as LightKind) })}
+                                    className="flex-1 max-w-[140px] bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                                >
+                                    {(Object.keys(LIGHT_KIND_LABELS) as LightKind[]).map(k => <option key={k} value={k}>{LIGHT_KIND_LABELS[k]}</option>)}
+                                </select>
                             </div>
-                            <input 
-                                type="range" 
-                                min="0" max="10" step="0.1"
-                                value={selectedObject.lightProps.intensity}
-                                onChange={(e) => updateSceneObject(selectedObject.id, { 
-                                    lightProps: { ...selectedObject.lightProps!, intensity: parseFloat(e.target.value) } 
-                                })}
-                                className="w-full h-1.5 bg-zinc-800 rounded-full appearance-none cursor-pointer accent-indigo-500 transition-all hover:h-2"
+
+                            <PropertySlider 
+                                label="Intensity" 
+                                value={lightProps.intensity} 
+                                min={0} max={INTENSITY_MAX[kind]} step={0.1}
+                                onChange={(v) => updateLight({ intensity: v })} 
                             />
 
                              <div className="flex justify-between text-xs font-medium text-zinc-400 pt-2">
-                                <span>Color</span>
+                                <span>{kind === 'hemisphere' ? 'Sky Color' : 'Color'}</span>
                             </div>
-                            <div className="flex items-center gap-3">
-                                <div className="relative w-8 h-8 rounded-full overflow-hidden border border-white/10 shadow-sm hover:scale-110 transition-transform duration-200">
+                            <ColorSwatch value={lightProps.color} onChange={(color) => updateLight({ color })} />
+
+                            {kind === 'hemisphere' && (
+                                <>
+                                    <div className="flex justify-between text-xs font-medium text-zinc-400 pt-2">
+                                        <span>Ground Color</span>
+                                    </div>
+                                    <ColorSwatch value={lightProps.groundColor || '#444444'} onChange={(groundColor) => updateLight({ groundColor })} />
+                                </>
+                            )}
+
+                            {(kind === 'point' || kind === 'spot') && (
+                                <>
+                                    <PropertySlider label="Range" value={lightProps.distance ?? 0} min={0} max={50} step={0.5} format={(v) => v === 0 ? '∞' : v.toFixed(1)} onChange={(v) => updateLight({ distance: v })} />
+                                    <PropertySlider label="Decay" value={lightProps.decay ?? 2} min={0} max={3} step={0.1} onChange={(v) => updateLight({ decay: v })} />
+                                </>
+                            )}
+
+                            {kind === 'spot' && (
+                                <>
+                                    <PropertySlider label="Cone Angle" value={(lightProps.angle ?? Math.PI / 6) * 180 / Math.PI} min={1} max={89} step={1} format={(v) => `${v.toFixed(0)}°`} onChange={(v) => updateLight({ angle: v * Math.PI / 180 })} />
+                                    <PropertySlider label="Penumbra" value={lightProps.penumbra ?? 0} min={0} max={1} step={0.01} format={(v) => `${Math.round(v * 100)}%`} onChange={(v) => updateLight({ penumbra: v })} />
+                                </>
+                            )}
+
+                            {kind === 'rect-area' && (
+                                <>
+                                    <PropertySlider label="Width" value={lightProps.width ?? 1} min={0.1} max={10} step={0.1} onChange={(v) => updateLight({ width: v })} />
+                                    <PropertySlider label="Height" value={lightProps.height ?? 1} min={0.1} max={10} step={0.1} onChange={(v) => updateLight({ height: v })} />
+                                </>
+                            )}
+
+                            {lightUsesTarget(kind) && (
+                                <Vector3Input 
+                                    label="Aim At (World)" 
+                                    value={lightProps.target || [0, 0, 0]} 
+                                    onChange={(v) => updateLight({ target: v })} 
+                                />
+                            )}
+
+                            {lightCastsShadow(kind) && (
+                                <label className="flex items-center justify-between text-xs font-medium text-zinc-400 cursor-pointer">
+                                    <span>Cast Shadows</span>
                                     <input 
-                                        type="color" 
-                                        value={selectedObject.lightProps.color}
-                                        onChange={(e) => updateSceneObject(selectedObject.id, { 
-                                            lightProps: { ...selectedObject.lightProps!, color: e.target.value } 
-                                        })}
-                                        className="absolute -top-1/2 -left-1/2 w-[200%] h-[200%] cursor-pointer p-0 border-0"
+                                        type="checkbox" 
+                                        checked={lightProps.castShadow}
+                                        onChange={(e) => updateLight({ castShadow: e.target.checked })}
+                                        className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
                                     />
-                                </div>
-                                <span className="text-xs font-mono text-zinc-300 uppercase font-bold">{selectedObject.lightProps.color}</span>
-                            </div>
+                                </label>
+                            )}
                         </div>
-                    )}
+                        );
+                    })()}
 
                     {/* Camera Specific Properties */}
-                    {selectedObject.type === 'camera' && selectedObject.cameraProps && (
-                         <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
-                            <div className="flex justify-between text-xs font-medium text-zinc-400">
-                                <span>Field of View</span>
-                                <span className="font-mono text-indigo-400 font-bold">{selectedObject.cameraProps.fov.toFixed(0)}°</span>
+                    {selectedObject.type === 'camera' && selectedObject.cameraProps && (() => {
+                        const cameraProps = resolveCameraProps(selectedObject.cameraProps);
+                        const updateCamera = (updates: Partial<CameraProps>) => updateSceneObject(selectedObject.id, { cameraProps: { ...selectedObject.cameraProps!, ...updates } });
+                        const focalLength = fovToFocalLength(cameraProps.fov, cameraProps.sensor);
+                        const isPickingFocus = focusPickCameraId === selectedObject.id;
+                        return (
+                        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4 animate-fade-in-up">
+                            <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                                <span>Sensor</span>
+                                <select
+                                    value={cameraProps.sensor}
+                                    onChange={(e) => updateCamera({ sensor: e.target.value as SensorPreset })}
+                                    className="flex-1 max-w-[160px] bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                                >
+                                    {(Object.keys(SENSOR_PRESETS) as SensorPreset[]).map(sensor => (
+                                        <option key={sensor} value={sensor}>{SENSOR_PRESETS[sensor].label} ({SENSOR_PRESETS[sensor].width}×{SENSOR_PRESETS[sensor].height})</option>
+                                    ))}
+                                </select>
                             </div>
-                            <input 
-                                type="range" 
-                                min="10" max="120" step="1"
-                                value={selectedObject.cameraProps.fov}
-                                onChange={(e) => updateSceneObject(selectedObject.id, { 
-                                    cameraProps: { ...selectedObject.cameraProps!, fov: parseFloat(e.target.value) } 
-                                })}
-                                className="w-full h-1.5 bg-zinc-800 rounded-full appearance-none cursor-pointer accent-indigo-500 transition-all hover:h-2"
+
+                            <PropertySlider 
+                                label="Focal Length" 
+                                value={focalLength} 
+                                min={8} max={200} step={1}
+                                format={(v) => `${v.toFixed(0)}mm`}
+                                onChange={(v) => updateCamera({ fov: focalLengthToFov(v, cameraProps.sensor) })}
+                            />
+
+                            <PropertySlider 
+                                label="Field of View" 
+                                value={cameraProps.fov} 
+                                min={10} max={120} step={1}
+                                format={(v) => `${v.toFixed(0)}°`}
+                                onChange={(v) => updateCamera({ fov: v })}
                             />
+
+                            <div className="grid grid-cols-2 gap-2">
+                                {([['near', 'Near Clip'], ['far', 'Far Clip']] as ['near' | 'far', string][]).map(([key, label]) => (
+                                    <label key={key} className="flex flex-col gap-1 text-[10px] text-zinc-400 uppercase font-bold tracking-wider">
+                                        {label}
+                                        <input
+                                            type="number" min="0.001" step={key === 'near' ? 0.01 : 10}
+                                            value={cameraProps[key]}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (value > 0) updateCamera({ [key]: value });
+                                            }}
+                                            className="w-full bg-[#18181b] border border-white/10 rounded-md text-xs text-zinc-100 px-2 py-1.5 font-mono normal-case focus:border-indigo-500 focus:outline-none"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+
+                            <label className="flex items-center justify-between text-xs font-medium text-zinc-400 cursor-pointer pt-3 border-t border-white/5">
+                                <span>Depth of Field</span>
+                                <input 
+                                    type="checkbox" 
+                                    checked={cameraProps.depthOfField}
+                                    onChange={(e) => updateCamera({ depthOfField: e.target.checked })}
+                                    className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                                />
+                            </label>
+
+                            {cameraProps.depthOfField && (
+                                <>
+                                    <div className="flex items-center justify-between gap-3 text-xs font-medium text-zinc-400">
+                                        <span>Aperture</span>
+                                        <select
+                                            value={cameraProps.aperture}
+                                            onChange={(e) => updateCamera({ aperture: parseFloat(e.target.value) })}
+                                            className="flex-1 max-w-[100px] bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                                        >
+                                            {F_STOPS.map(stop => <option key={stop} value={stop}>f/{stop}</option>)}
+                                        </select>
+                                    </div>
+
+                                    <PropertySlider 
+                                        label="Focus Distance" 
+                                        value={cameraProps.focusDistance} 
+                                        min={0.1} max={50} step={0.1}
+                                        format={(v) => `${v.toFixed(1)} m`}
+                                        onChange={(v) => updateCamera({ focusDistance: v })}
+                                    />
+
+                                    <button
+                                        onClick={() => setFocusPickCameraId(isPickingFocus ? null : selectedObject.id)}
+                                        className={`w-full flex items-center justify-center gap-2 py-1.5 rounded-md text-[11px] font-bold transition-colors ${isPickingFocus ? 'bg-indigo-600 text-white' : 'bg-white/5 text-zinc-300 hover:bg-white/10'}`}
+                                    >
+                                        <Crosshair size={12} /> {isPickingFocus ? 'Click in the viewport...' : 'Pick Focus'}
+                                    </button>
+
+                                    {activeCameraId !== selectedObject.id && <p className="text-[10px] text-zinc-500 leading-relaxed">The blur preview shows while looking through this camera.</p>}
+                                </>
+                            )}
                         </div>
-                    )}
+                        );
+                    })()}
                 </div>
             )}
 
@@ -335,15 +1101,98 @@ export default function RendererPanel() {
                         <span className="text-sm font-bold text-zinc-100">Environment</span>
                     </div>
                     
-                    <div className="p-4 bg-[#09090b] rounded-lg border border-white/5">
-                        <span className="text-xs font-bold text-zinc-400 block mb-3 uppercase tracking-wider">Preset</span>
-                        <select className="w-full bg-[#18181b] border border-white/10 text-xs text-zinc-200 p-2 rounded outline-none focus:border-indigo-500 transition-all duration-300 hover:border-white/20">
-                            <option>Studio (Default)</option>
-                            <option>City</option>
-                            <option>Park</option>
-                            <option>Lobby</option>
-                        </select>
+                    <div className="grid grid-cols-3 gap-1 p-1 bg-[#09090b] rounded-lg border border-white/5">
+                        {([['preset', 'Preset'], ['custom', 'HDRI File'], ['none', 'None']] as [EnvironmentSource, string][]).map(([source, label]) => (
+                            <button
+                                key={source}
+                                onClick={() => source === 'custom' && !environment.customUrl ? hdriInputRef.current?.click() : updateEnvironment({ source })}
+                                className={`py-1.5 rounded-md text-[11px] font-bold transition-all duration-200 ${environment.source === source ? 'bg-indigo-600 text-white shadow' : 'text-zinc-400 hover:text-zinc-100 hover:bg-white/5'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
                     </div>
+
+                    {environment.source === 'preset' && (
+                        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5">
+                            <span className="text-xs font-bold text-zinc-400 block mb-3 uppercase tracking-wider">Preset</span>
+                            <select
+                                value={environment.preset}
+                                onChange={(e) => updateEnvironment({ preset: e.target.value as EnvironmentPreset })}
+                                className="w-full bg-[#18181b] border border-white/10 text-xs text-zinc-200 p-2 rounded outline-none focus:border-indigo-500 transition-all duration-300 hover:border-white/20"
+                            >
+                                <optgroup label="Built-in (Offline)">
+                                    {presetEntries.filter(([, info]) => info.builtin).map(([id, info]) => <option key={id} value={id}>{info.label}</option>)}
+                                </optgroup>
+                                <optgroup label="HDRI Library (Downloads)">
+                                    {presetEntries.filter(([, info]) => !info.builtin).map(([id, info]) => <option key={id} value={id}>{info.label}</option>)}
+                                </optgroup>
+                            </select>
+                            {!ENVIRONMENT_PRESETS[environment.preset].builtin && (
+                                <p className="text-[10px] text-zinc-500 mt-2 leading-relaxed">Downloaded on first use. Upload an HDRI to work offline.</p>
+                            )}
+                        </div>
+                    )}
+
+                    {environment.source === 'custom' && (
+                        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-3">
+                            <span className="text-xs font-bold text-zinc-400 block uppercase tracking-wider">HDRI File</span>
+                            <div className="text-xs font-mono text-zinc-300 truncate">{environment.customName || 'No file'}</div>
+                            <button
+                                onClick={() => hdriInputRef.current?.click()}
+                                className="w-full py-2 bg-[#18181b] hover:bg-zinc-800 border border-white/10 rounded text-xs font-bold text-zinc-300 flex items-center justify-center gap-2 transition-all duration-200"
+                            >
+                                <Upload size={12} /> Replace File
+                            </button>
+                        </div>
+                    )}
+                    <input type="file" ref={hdriInputRef} className="hidden" accept={ENVIRONMENT_FILE_ACCEPT} onChange={handleHdriUpload} />
+
+                    {environment.source !== 'none' && (
+                        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4">
+                            <PropertySlider label="Intensity" value={environment.intensity} min={0} max={3} step={0.05} format={(v) => v.toFixed(2)} onChange={(intensity) => updateEnvironment({ intensity })} />
+                            <PropertySlider label="Rotation" value={environment.rotation} min={0} max={360} step={1} format={(v) => `${Math.round(v)}°`} onChange={(rotation) => updateEnvironment({ rotation })} />
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs font-bold text-zinc-400">Show as Background</span>
+                                <input 
+                                    type="checkbox" 
+                                    checked={environment.showBackground}
+                                    onChange={(e) => updateEnvironment({ showBackground: e.target.checked })}
+                                    className="w-5 h-5 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer transition-transform hover:scale-110"
+                                />
+                            </div>
+                            {environment.showBackground && (
+                                <PropertySlider label="Background Blur" value={environment.blur} min={0} max={1} step={0.01} format={(v) => v.toFixed(2)} onChange={(blur) => updateEnvironment({ blur })} />
+                            )}
+                        </div>
+                    )}
+
+                    {(environment.source === 'none' || !environment.showBackground) && (
+                        <div className="p-4 bg-[#09090b] rounded-lg border border-white/5 space-y-4">
+                            <span className="text-xs font-bold text-zinc-400 block uppercase tracking-wider">Background</span>
+                            <select
+                                value={environment.backgroundMode}
+                                onChange={(e) => updateEnvironment({ backgroundMode: e.target.value as BackgroundMode })}
+                                className="w-full bg-[#18181b] border border-white/10 text-xs text-zinc-200 p-2 rounded outline-none focus:border-indigo-500 transition-all duration-300 hover:border-white/20"
+                            >
+                                <option value="transparent">Transparent</option>
+                                <option value="solid">Solid Color</option>
+                                <option value="gradient">Gradient</option>
+                            </select>
+                            {environment.backgroundMode !== 'transparent' && (
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-medium text-zinc-400">{environment.backgroundMode === 'gradient' ? 'Top' : 'Color'}</span>
+                                    <ColorSwatch value={environment.backgroundColor} onChange={(backgroundColor) => updateEnvironment({ backgroundColor })} />
+                                </div>
+                            )}
+                            {environment.backgroundMode === 'gradient' && (
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-medium text-zinc-400">Bottom</span>
+                                    <ColorSwatch value={environment.backgroundColor2} onChange={(backgroundColor2) => updateEnvironment({ backgroundColor2 })} />
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -1,15 +1,45 @@
-import React, { Suspense, useEffect, useRef, useState, useMemo, ReactNode, Component } from 'react';
-import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { OrbitControls, useGLTF, Grid, TransformControls, Html, useProgress, Environment, GizmoHelper, GizmoViewport, ContactShadows, Billboard, useHelper, PerspectiveCamera } from '@react-three/drei';
-import { useAppStore } from '../store/useAppStore';
-import { Zap, Loader2, Sparkles, AlertTriangle, Box, RefreshCw, Aperture, Ratio, Wand2, X, Download, Video, Lock, Layers, Triangle, Activity, MapPin, Lightbulb, ArrowRight, Maximize2, Mic, MicOff } from 'lucide-react';
+import React, { Suspense, useEffect, useRef, useState, useMemo, ReactNode, Component, use } from 'react';
+import { Canvas, useThree, useFrame, useLoader, createPortal } from '@react-three/fiber';
+import { OrbitControls, useGLTF, Grid, TransformControls, TransformControlsProps, Html, useProgress, Environment, GizmoHelper, GizmoViewport, ContactShadows, Billboard, useHelper, PerspectiveCamera, OrthographicCamera, Lightformer, EnvironmentProps } from '@react-three/drei';
+import { useAppStore, RESOLUTION_PRESETS } from '../store/useAppStore';
+import { Zap, Loader2, Sparkles, AlertTriangle, Box, RefreshCw, Aperture, Ratio, Wand2, X, Download, Video, Lock, Layers, Triangle, Activity, MapPin, Lightbulb, ArrowRight, Maximize2, Mic, MicOff, Clapperboard, Dices, Square, Images, Flashlight, RectangleHorizontal, CloudSun, ListVideo, ChevronUp, ChevronDown, History } from 'lucide-react';
 import * as THREE from 'three';
-import { DirectionalLightHelper, CameraHelper } from 'three';
+import { DirectionalLightHelper, PointLightHelper, SpotLightHelper, HemisphereLightHelper, CameraHelper } from 'three';
+import { RectAreaLightHelper } from 'three/examples/jsm/helpers/RectAreaLightHelper.js';
+import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js';
+import { HDRLoader } from 'three/examples/jsm/loaders/HDRLoader.js';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
 import { v4 as uuidv4 } from 'uuid';
-import { AssetStatus, ModelTransform, SceneObject, TransformMode } from '../types';
-import { createTextTo3DTask, pollTripoTask } from '../services/tripoService';
+import { ArrayProps, AssetStatus, BuiltinEnvironmentPreset, CameraProps, CameraState, CapturePass, CapturePasses, EnvironmentSettings, HdriPreset, LightKind, LightProps, MaterialOverride, ModelSource, ModelTransform, PrimitiveProps, SafeFrameSettings, SceneObject, ShadingMode, Shot, ShotStyle, TextProps, TransformMode } from '../types';
+import { createTextTo3DTask, pollTripoTask, downloadTripoModel } from '../services/tripoService';
+import { uploadFileToStorage } from '../services/assetLibrary';
 import { generateRefinedImage, optimizePromptFor3D, analyzeSceneAndSuggestPrompts } from '../services/geminiService';
+import { exportSceneToGLB, GLBExportOptions } from '../services/exportService';
+import { findSceneObjectNode, getChildObjects, getDescendantIds, getTransformTargets, getWorldMatrix, getWorldTransform, isEditorHelper, isMeshObject, isRendered, toLocalTransform } from '../services/sceneGraph';
+import { clearModelCache, createResourceManager, importModelFiles, isGLTFFormat, loadModelCached } from '../services/modelLoaders';
+import { enqueueRenderJob } from '../services/renderQueue';
+import { createLightProps, describeLight, getLightKind, LIGHT_KIND_LABELS } from '../services/lightService';
+import { describeEnvironment, ENVIRONMENT_PRESETS } from '../services/environmentService';
+import { applyMaterialOverride, cloneModelMaterials, getMaterialInfo } from '../services/materialService';
+import { createPrimitiveGeometry, PRIMITIVE_SHAPES } from '../services/primitiveService';
+import { createTextGeometry, loadFontCached } from '../services/textService';
+import { HISTORY_LIMIT } from '../services/historyService';
+import { getArrayMatrices, getModelMeshes, getScatterMatrices } from '../services/arrayService';
+import { applyMaskPass, applyShadingMode, getLitMaterial, isShadedMesh, registerLitMaterial, SHADING_MODE_LABELS, updateDepthRange } from '../services/shadingService';
+import { CAPTURE_PASS_LABELS, describeMaskLegend, getMaskColors, zipPasses } from '../services/passService';
+import { composeShotPrompt, getShotList, SHOT_STYLES } from '../services/shotService';
+import { getDropToFloorOffsets, getObjectBounds, getSnapOffset, pickSnapPoint, SURFACE_SNAP_LABELS, SurfaceSnapMode } from '../services/snapService';
+import { getFramingView, getOrthographicDistance, getOrthographicZoom, getPresetView, NUMPAD_VIEWS } from '../services/viewService';
+import { describeCameraLens, getBokehAperture, resolveCameraProps } from '../services/cameraService';
+import { createCaptureCamera, getSafeFrameRect, renderOffscreen, SUPERSAMPLING_OPTIONS } from '../services/captureService';
+import { blobToDataUrl, CameraPose, encodeVideo, fitFrameToSize, getCameraPathPoses, getCameraPose, getSupportedSequenceFormats, sampleCameraPath, SEQUENCE_FORMAT_LABELS, SequenceFormat, SequenceSource, zipFrames } from '../services/sequenceService';
+import { downloadBlob } from '../services/downloadService';
 import Toolbar from './Toolbar';
+import RenderGallery from './RenderGallery';
 import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
 
 // Fix for missing React Three Fiber types in strict environments
@@ -38,13 +68,6 @@ declare global {
 const DRACO_URL = 'https://www.gstatic.com/draco/versioned/decoders/1.5.6/';
 const DEFAULT_WORKER_URL = "https://soft-wave-9c83.a718919334.workers.dev";
 
-const RESOLUTION_PRESETS = [
-    { label: 'Square (1:1)', w: 1024, h: 1024, ratio: "1:1", icon: 'square' },
-    { label: 'Landscape (16:9)', w: 1920, h: 1080, ratio: "16:9", icon: 'rectangle-horizontal' },
-    { label: 'Portrait (9:16)', w: 1080, h: 1920, ratio: "9:16", icon: 'rectangle-vertical' },
-    { label: 'Standard (4:3)', w: 1024, h: 768, ratio: "4:3", icon: 'monitor' },
-];
-
 // IMPORTANT: Configure Draco Loader globally once to avoid re-initialization loops
 useGLTF.setDecoderPath(DRACO_URL);
 
@@ -122,7 +145,7 @@ function SceneStatsUpdater({ onUpdate }: { onUpdate: (stats: { verts: number, tr
 
 // --- Camera Manager Component ---
 function CameraManager() {
-    const { camera, gl } = useThree();
+    const { camera, gl, size } = useThree();
     const controlsRef = useRef<any>(null);
     
     // Select specific slices to prevent unnecessary re-renders of CameraManager
@@ -155,13 +178,15 @@ function CameraManager() {
     // 1. Handle Active Camera Initialization (When switching TO a camera)
     useEffect(() => {
         if (activeCameraObj) {
-            camera.position.set(...activeCameraObj.transform.position);
+            // The scene camera may be nested, the view camera itself lives at the root
+            const world = getWorldTransform(useAppStore.getState().sceneObjects, activeCameraObj.id);
+            camera.position.set(...world.position);
             camera.updateMatrixWorld();
 
             if (controlsRef.current) {
-                const startPos = new THREE.Vector3(...activeCameraObj.transform.position);
+                const startPos = new THREE.Vector3(...world.position);
                 const direction = new THREE.Vector3(0, 0, -1);
-                direction.applyEuler(new THREE.Euler(...activeCameraObj.transform.rotation));
+                direction.applyEuler(new THREE.Euler(...world.rotation));
                 const target = startPos.clone().add(direction.multiplyScalar(10));
                 
                 controlsRef.current.target.copy(target);
@@ -207,6 +232,13 @@ function CameraManager() {
         }
     }, [cameraVersion, activeCameraId, cameraState, camera]); 
 
+    // Orthographic zoom follows the orbit distance so both projections frame the same
+    useEffect(() => {
+        if (!(camera as THREE.OrthographicCamera).isOrthographicCamera) return;
+        camera.zoom = getOrthographicZoom(cameraState, size.height);
+        camera.updateProjectionMatrix();
+    }, [camera, cameraState, size.height]);
+
     // 3. Sync Scene Controls -> Store
     const handleControlsChange = () => {
         if (isSyncingStoreToCamera.current) return;
@@ -215,24 +247,33 @@ function CameraManager() {
         if (activeCameraId) {
              if(!activeCameraObj) return;
 
-             const pos = camera.position.toArray();
-             const rot = [camera.rotation.x, camera.rotation.y, camera.rotation.z];
-             
-             const oldPos = new THREE.Vector3(...activeCameraObj.transform.position);
+             const sceneObjects = useAppStore.getState().sceneObjects;
+             const oldPos = new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(sceneObjects, activeCameraId));
              // More aggressive delta check to avoid loop
              if (oldPos.distanceTo(camera.position) < 0.05) return;
 
+             // Store the view relative to the camera's parent
+             camera.updateMatrixWorld();
+             const local = toLocalTransform(sceneObjects, activeCameraObj.parentId, camera.matrixWorld);
              updateSceneObject(activeCameraId, {
                  transform: {
                      ...activeCameraObj.transform,
-                     position: pos as [number, number, number],
-                     rotation: rot as [number, number, number]
+                     position: local.position,
+                     rotation: local.rotation
                  }
              });
         } else {
              if (controlsRef.current) {
                  const pos = camera.position;
                  const target = controlsRef.current.target;
+
+                 // Orthographic dolly changes the zoom, turn it back into an orbit distance
+                 const isOrthographic = (camera as THREE.OrthographicCamera).isOrthographicCamera;
+                 if (isOrthographic) {
+                     const distance = getOrthographicDistance(camera.zoom, cameraState.fov, size.height);
+                     pos.sub(target).setLength(distance).add(target);
+                     camera.updateMatrixWorld();
+                 }
                  
                  const oldPos = new THREE.Vector3(...cameraState.position);
                  const oldTarget = new THREE.Vector3(...cameraState.target);
@@ -244,21 +285,36 @@ function CameraManager() {
                  syncCameraState({
                      position: [pos.x, pos.y, pos.z],
                      target: [target.x, target.y, target.z],
-                     fov: (camera as THREE.PerspectiveCamera).fov
+                     fov: isOrthographic ? cameraState.fov : (camera as THREE.PerspectiveCamera).fov
                  });
              }
         }
     };
 
+    // The gizmo animates the camera itself (clicking an axis turns to that view), store the result once it settles
+    const gizmoSettleTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+    const handleGizmoUpdate = () => {
+        controlsRef.current?.update();
+        clearTimeout(gizmoSettleTimer.current);
+        gizmoSettleTimer.current = setTimeout(handleControlsChange, 100);
+    };
+    useEffect(() => () => clearTimeout(gizmoSettleTimer.current), []);
+
     return (
-        <OrbitControls 
-            ref={controlsRef}
-            makeDefault 
-            minPolarAngle={0} 
-            maxPolarAngle={Math.PI} 
-            onEnd={handleControlsChange}
-            enableDamping={false}
-        />
+        <>
+            <OrbitControls 
+                ref={controlsRef}
+                makeDefault 
+                minPolarAngle={0} 
+                maxPolarAngle={Math.PI} 
+                onEnd={handleControlsChange}
+                enableDamping={false}
+            />
+            {/* Draws over the depth of field composer (frame priority 1) when it is active */}
+            <GizmoHelper alignment="bottom-right" margin={[80, 80]} renderPriority={activeCameraObj?.cameraProps?.depthOfField ? 2 : 1} onUpdate={handleGizmoUpdate}>
+                <GizmoViewport axisColors={['#f43f5e', '#10b981', '#3b82f6']} labelColor="white" />
+            </GizmoHelper>
+        </>
     );
 }
 
@@ -293,6 +349,7 @@ class ModelErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryStat
     console.error("3D Model Parsing Error Message:", error.message);
     if (this.props.modelUrl) {
         useGLTF.clear(this.props.modelUrl);
+        clearModelCache(this.props.modelUrl);
     }
   }
 
@@ -318,7 +375,10 @@ class ModelErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryStat
                 onClick={(e) => {
                     e.stopPropagation(); 
                     this.setState({ hasError: false });
-                    if (this.props.modelUrl) useGLTF.clear(this.props.modelUrl);
+                    if (this.props.modelUrl) {
+                        useGLTF.clear(this.props.modelUrl);
+                        clearModelCache(this.props.modelUrl);
+                    }
                     this.props.onReset();
                 }}
                 className="pointer-events-auto px-4 py-2 bg-red-800 hover:bg-red-700 rounded text-xs font-bold w-full flex items-center justify-center gap-2"
@@ -350,18 +410,185 @@ function ModelLoader() {
 interface LightInstanceProps {
     obj: SceneObject;
     isSelected: boolean;
+    showGizmo: boolean; // Own TransformControls (single selection only)
     transformMode: TransformMode;
     onSelect: (e: any) => void;
     onTransformChange: (t: Partial<ModelTransform>) => void;
+    children?: ReactNode;
+}
+
+// TransformControls place their gizmo in world space, so they must not inherit a parent transform
+function RootPortal({ children }: { children: ReactNode }) {
+    const scene = useThree(state => state.scene);
+    return <>{createPortal(children, scene)}</>;
+}
+
+// Gizmo with the snapping increments and transform space from the render settings.
+// Every drag is its own undo step: the step is closed on release so the next drag never merges into it
+const SnappingTransformControls = ({ onMouseUp, ...props }: TransformControlsProps) => {
+    const snapping = useAppStore(state => state.renderSettings.snapping);
+    const endHistoryStep = useAppStore(state => state.endHistoryStep);
+    return (
+        <TransformControls
+            space={snapping.space}
+            translationSnap={snapping.enabled ? snapping.translate : null}
+            rotationSnap={snapping.enabled ? THREE.MathUtils.degToRad(snapping.rotate) : null}
+            scaleSnap={snapping.enabled ? snapping.scale : null}
+            onMouseUp={(e) => {
+                onMouseUp?.(e);
+                endHistoryStep();
+            }}
+            {...props}
+        />
+    );
+};
+
+const LIGHT_HELPER_COLOR = '#fbbf24';
+
+const LIGHT_ICONS: Record<LightKind, React.FC<{ size?: number, fill?: string }>> = {
+    directional: Zap,
+    point: Lightbulb,
+    spot: Flashlight,
+    'rect-area': RectangleHorizontal,
+    hemisphere: CloudSun
+};
+
+// Light targets are not part of the scene graph, so their world matrix is updated by hand
+function useLightTarget(lightRef: React.RefObject<THREE.DirectionalLight | THREE.SpotLight | null>, target: [number, number, number] = [0, 0, 0]) {
+    useEffect(() => {
+        const light = lightRef.current;
+        if (!light) return;
+        light.target.position.set(...target);
+        light.target.updateMatrixWorld();
+    }, [lightRef, ...target]);
+}
+
+interface LightSourceProps {
+    props: LightProps;
+    showHelper: boolean;
 }
 
-const LightInstance: React.FC<LightInstanceProps> = ({ obj, isSelected, transformMode, onSelect, onTransformChange }) => {
+const DirectionalLightSource = ({ props, showHelper }: LightSourceProps) => {
     const lightRef = useRef<THREE.DirectionalLight>(null!);
+    useHelper(showHelper ? lightRef : null, DirectionalLightHelper, 1, LIGHT_HELPER_COLOR);
+    useLightTarget(lightRef, props.target);
+
+    return (
+        <directionalLight 
+            ref={lightRef}
+            intensity={props.intensity}
+            castShadow={props.castShadow}
+            color={props.color}
+            shadow-mapSize={[2048, 2048]}
+            shadow-bias={-0.0005} // Optimization: Reduce shadow acne
+        >
+            {/* Optimization: Ensure shadow camera covers typical scene bounds */}
+            <orthographicCamera attach="shadow-camera" args={[-15, 15, 15, -15, 0.1, 100]} />
+        </directionalLight>
+    );
+};
+
+const PointLightSource = ({ props, showHelper }: LightSourceProps) => {
+    const lightRef = useRef<THREE.PointLight>(null!);
+    useHelper(showHelper ? lightRef : null, PointLightHelper, 0.3, LIGHT_HELPER_COLOR);
+
+    return (
+        <pointLight
+            ref={lightRef}
+            intensity={props.intensity}
+            color={props.color}
+            distance={props.distance ?? 0}
+            decay={props.decay ?? 2}
+            castShadow={props.castShadow}
+            shadow-mapSize={[1024, 1024]}
+            shadow-bias={-0.0005}
+        />
+    );
+};
+
+const SpotLightSource = ({ props, showHelper }: LightSourceProps) => {
+    const lightRef = useRef<THREE.SpotLight>(null!);
+    useHelper(showHelper ? lightRef : null, SpotLightHelper, LIGHT_HELPER_COLOR);
+    useLightTarget(lightRef, props.target);
+
+    return (
+        <spotLight
+            ref={lightRef}
+            intensity={props.intensity}
+            color={props.color}
+            distance={props.distance ?? 0}
+            decay={props.decay ?? 2}
+            angle={props.angle ?? Math.PI / 6}
+            penumbra={props.penumbra ?? 0}
+            castShadow={props.castShadow}
+            shadow-mapSize={[2048, 2048]}
+            shadow-bias={-0.0005}
+        />
+    );
+};
+
+// Needed once before MeshStandardMaterial can receive rect area light
+RectAreaLightUniformsLib.init();
+
+const RectAreaLightSource = ({ props, showHelper }: LightSourceProps) => {
+    const lightRef = useRef<THREE.RectAreaLight>(null!);
+    const [tx, ty, tz] = props.target || [0, 0, 0];
+
+    // Follows the group while it is dragged, so re-aim every frame (lookAt accounts for parents)
+    useFrame(() => lightRef.current?.lookAt(tx, ty, tz));
+
+    // RectAreaLightHelper has to be a child of the light, which useHelper doesn't support
+    useEffect(() => {
+        const light = lightRef.current;
+        if (!showHelper || !light) return;
+        const helper = new RectAreaLightHelper(light, LIGHT_HELPER_COLOR);
+        light.add(helper);
+        return () => {
+            light.remove(helper);
+            helper.dispose();
+        };
+    }, [showHelper]);
+
+    return (
+        <rectAreaLight
+            ref={lightRef}
+            intensity={props.intensity}
+            color={props.color}
+            width={props.width ?? 1}
+            height={props.height ?? 1}
+        />
+    );
+};
+
+const HemisphereLightSource = ({ props, showHelper }: LightSourceProps) => {
+    const lightRef = useRef<THREE.HemisphereLight>(null!);
+    useHelper(showHelper ? lightRef : null, HemisphereLightHelper, 0.5, LIGHT_HELPER_COLOR);
+
+    return (
+        <hemisphereLight
+            ref={lightRef}
+            intensity={props.intensity}
+            color={props.color}
+            groundColor={props.groundColor || '#444444'}
+        />
+    );
+};
+
+const LIGHT_SOURCES: Record<LightKind, React.FC<LightSourceProps>> = {
+    directional: DirectionalLightSource,
+    point: PointLightSource,
+    spot: SpotLightSource,
+    'rect-area': RectAreaLightSource,
+    hemisphere: HemisphereLightSource
+};
+
+const LightInstance: React.FC<LightInstanceProps> = ({ obj, isSelected, showGizmo, transformMode, onSelect, onTransformChange, children }) => {
     const groupRef = useRef<THREE.Group>(null);
+    const props = obj.lightProps || createLightProps('directional');
+    const kind = getLightKind(props);
+    const LightSource = LIGHT_SOURCES[kind];
+    const Icon = LIGHT_ICONS[kind];
     
-    // Only show helper if selected AND visible
-    useHelper((isSelected && obj.visible) ? lightRef : null, DirectionalLightHelper, 1, '#fbbf24');
-
     useEffect(() => {
         if (groupRef.current) {
             groupRef.current.position.set(...obj.transform.position);
@@ -370,12 +597,12 @@ const LightInstance: React.FC<LightInstanceProps> = ({ obj, isSelected, transfor
 
     return (
         <>
-            <group ref={groupRef} visible={obj.visible}>
+            <group ref={groupRef} visible={obj.visible} userData={{ sceneObjectId: obj.id }}>
                 <mesh onClick={onSelect} castShadow receiveShadow userData={{ isEditorObject: true }}>
                     <sphereGeometry args={[0.2, 16, 16]} />
                     <meshStandardMaterial 
-                        color={obj.lightProps?.color || "#ffffff"} 
-                        emissive={obj.lightProps?.color || "#ffffff"}
+                        color={props.color} 
+                        emissive={props.color}
                         emissiveIntensity={2}
                     />
                 </mesh>
@@ -387,27 +614,20 @@ const LightInstance: React.FC<LightInstanceProps> = ({ obj, isSelected, transfor
                     </mesh>
                     <Html position={[0, 0, 0]} center pointerEvents="none" transform={false} zIndexRange={[100, 0]}>
                          <div className={`flex items-center justify-center w-6 h-6 rounded-full transition-colors ${isSelected ? "text-yellow-400" : "text-white/70"}`}>
-                            <Zap size={16} fill="currentColor" />
+                            <Icon size={16} fill="currentColor" />
                          </div>
                     </Html>
                 </Billboard>
                 
-                <directionalLight 
-                    ref={lightRef}
-                    intensity={obj.lightProps?.intensity ?? 1.0}
-                    castShadow={obj.lightProps?.castShadow ?? true}
-                    color={obj.lightProps?.color || '#ffffff'}
-                    shadow-mapSize={[2048, 2048]}
-                    target-position={[0, 0, 0]} 
-                    shadow-bias={-0.0005} // Optimization: Reduce shadow acne
-                >
-                    {/* Optimization: Ensure shadow camera covers typical scene bounds */}
-                    <orthographicCamera attach="shadow-camera" args={[-15, 15, 15, -15, 0.1, 100]} />
-                </directionalLight>
+                {/* Keyed by kind so switching kinds remounts the light and its helper */}
+                <LightSource key={kind} props={props} showHelper={isSelected && obj.visible} />
+
+                {children}
             </group>
             
-            {isSelected && !obj.locked && obj.visible && groupRef.current && (
-                <TransformControls
+            {showGizmo && !obj.locked && obj.visible && groupRef.current && (
+                <RootPortal>
+                <SnappingTransformControls
                     object={groupRef.current}
                     mode="translate" 
                     onMouseUp={() => {
@@ -420,6 +640,7 @@ const LightInstance: React.FC<LightInstanceProps> = ({ obj, isSelected, transfor
                          }
                     }}
                 />
+                </RootPortal>
             )}
         </>
     )
@@ -429,44 +650,40 @@ const LightInstance: React.FC<LightInstanceProps> = ({ obj, isSelected, transfor
 interface CameraInstanceProps {
     obj: SceneObject;
     isSelected: boolean;
+    showGizmo: boolean;
     isActive: boolean;
     transformMode: TransformMode;
     onSelect: (e: any) => void;
     onTransformChange: (t: Partial<ModelTransform>) => void;
+    children?: ReactNode;
 }
 
-const CameraInstance: React.FC<CameraInstanceProps> = ({ obj, isSelected, isActive, transformMode, onSelect, onTransformChange }) => {
+const CameraInstance: React.FC<CameraInstanceProps> = ({ obj, isSelected, showGizmo, isActive, transformMode, onSelect, onTransformChange, children }) => {
     const groupRef = useRef<THREE.Group>(null);
     const cameraRef = useRef<THREE.PerspectiveCamera>(null!);
+    const cameraProps = resolveCameraProps(obj.cameraProps);
     
     useHelper((isSelected && !isActive && obj.visible) ? cameraRef : null, CameraHelper);
 
     useEffect(() => {
-        if (!isActive && groupRef.current) {
+        if (groupRef.current) {
             groupRef.current.position.set(...obj.transform.position);
             groupRef.current.rotation.set(...obj.transform.rotation);
         }
     }, [obj.transform.position, obj.transform.rotation, isActive]);
 
+    // The view camera itself is rendered at the root (see ActiveSceneCamera), only keep the children here
     if (isActive) {
-        return (
-            <PerspectiveCamera 
-               makeDefault
-               ref={cameraRef}
-               fov={obj.cameraProps?.fov || 50}
-               near={0.1}
-               far={1000}
-            />
-        );
+        return <group ref={groupRef}>{children}</group>;
     }
 
     return (
-        <group ref={groupRef} visible={obj.visible}>
+        <group ref={groupRef} visible={obj.visible} userData={{ sceneObjectId: obj.id }}>
             <PerspectiveCamera 
                 ref={cameraRef}
-                fov={obj.cameraProps?.fov || 50}
-                near={0.1}
-                far={1000}
+                fov={cameraProps.fov}
+                near={cameraProps.near}
+                far={cameraProps.far}
             />
 
             <group onClick={onSelect} rotation={[0, Math.PI, 0]} userData={{ isEditorObject: true }}>
@@ -488,8 +705,11 @@ const CameraInstance: React.FC<CameraInstanceProps> = ({ obj, isSelected, isActi
                 </Billboard>
             </group>
 
-             {isSelected && !obj.locked && obj.visible && groupRef.current && (
-                <TransformControls
+            {children}
+
+             {showGizmo && !obj.locked && obj.visible && groupRef.current && (
+                <RootPortal>
+                <SnappingTransformControls
                     object={groupRef.current}
                     mode={transformMode === 'scale' ? 'translate' : transformMode} 
                     onMouseUp={() => {
@@ -502,35 +722,265 @@ const CameraInstance: React.FC<CameraInstanceProps> = ({ obj, isSelected, isActi
                          }
                     }}
                 />
+                </RootPortal>
             )}
         </group>
     )
 }
 
+// The camera currently looked through, always at the root so OrbitControls drive it in world space
+const ActiveSceneCamera = ({ obj }: { obj: SceneObject }) => {
+    const cameraProps = resolveCameraProps(obj.cameraProps);
+    return (
+        <PerspectiveCamera 
+           makeDefault
+           fov={cameraProps.fov}
+           near={cameraProps.near}
+           far={cameraProps.far}
+           userData={{ sceneObjectId: obj.id }}
+        />
+    );
+};
+
+// Renders the view through a bokeh pass while looking through a camera with depth of field.
+// Takes over rendering (frame priority 1), the gizmo HUD then draws on top with priority 2.
+const DepthOfFieldPreview = ({ cameraProps }: { cameraProps: Required<CameraProps> }) => {
+    const { gl, scene, camera, size } = useThree();
+    const [composer, bokeh] = useMemo(() => {
+        const composer = new EffectComposer(gl);
+        const bokeh = new BokehPass(scene, camera, {});
+        composer.addPass(new RenderPass(scene, camera));
+        composer.addPass(bokeh);
+        composer.addPass(new OutputPass());
+        return [composer, bokeh] as const;
+    }, [gl, scene, camera]);
+
+    useEffect(() => () => composer.dispose(), [composer]);
+
+    useEffect(() => {
+        composer.setPixelRatio(gl.getPixelRatio());
+        composer.setSize(size.width, size.height);
+    }, [composer, gl, size]);
+
+    useEffect(() => {
+        const uniforms = bokeh.uniforms as Record<string, THREE.IUniform>;
+        uniforms.focus.value = cameraProps.focusDistance;
+        uniforms.aperture.value = getBokehAperture(cameraProps);
+        uniforms.maxblur.value = 0.02;
+    }, [bokeh, cameraProps]);
+
+    useFrame(() => composer.render(), 1);
+    return null;
+};
+
+// --- Environment ---
+
+// Procedural light rigs rendered into the environment cube, the built-in presets need no download
+const BuiltinEnvironmentRig = ({ preset }: { preset: BuiltinEnvironmentPreset }) => {
+    switch (preset) {
+        case 'builtin-softbox':
+            return (
+                <>
+                    <color attach="background" args={['#050505']} />
+                    <Lightformer form="rect" intensity={4} position={[-3, 3, 4]} scale={[4, 4, 1]} target={[0, 0, 0]} />
+                    <Lightformer form="rect" intensity={0.6} position={[5, 1, 2]} scale={[3, 3, 1]} target={[0, 0, 0]} />
+                    <Lightformer form="rect" intensity={1.5} position={[0, 2, -5]} scale={[6, 0.3, 1]} target={[0, 0, 0]} />
+                </>
+            );
+        case 'builtin-sunset':
+            return (
+                <>
+                    <color attach="background" args={['#2a3b5c']} />
+                    <Lightformer form="circle" intensity={8} color="#ff9a4a" position={[-8, 1, -6]} scale={2} target={[0, 0, 0]} />
+                    <Lightformer form="rect" intensity={1.5} color="#ff7a3d" position={[0, 0.5, -9]} scale={[30, 2, 1]} target={[0, 0, 0]} />
+                    <Lightformer form="rect" intensity={0.8} color="#7fa7ff" position={[0, 9, 0]} scale={[20, 20, 1]} rotation-x={Math.PI / 2} />
+                </>
+            );
+        default:
+            return (
+                <>
+                    <color attach="background" args={['#1a1a1a']} />
+                    {[-3, 0, 3].map(x => (
+                        <Lightformer key={x} form="rect" intensity={2} position={[x, 5, 0]} scale={[2, 6, 1]} rotation-x={Math.PI / 2} />
+                    ))}
+                    <Lightformer form="rect" intensity={1.5} position={[-6, 1, 0]} scale={[20, 0.6, 1]} rotation-y={Math.PI / 2} />
+                    <Lightformer form="rect" intensity={1.5} position={[6, 1, 0]} scale={[20, 0.6, 1]} rotation-y={-Math.PI / 2} />
+                    <Lightformer form="ring" intensity={1} position={[3, 2, 6]} scale={2} target={[0, 0, 0]} />
+                </>
+            );
+    }
+};
+
+type EnvironmentSceneProps = Pick<EnvironmentProps, 'background' | 'backgroundBlurriness' | 'backgroundRotation' | 'environmentIntensity' | 'environmentRotation'>;
+
+// Uploaded HDRIs are blob: URLs without an extension, so the loader is picked from the stored format
+const CustomEnvironmentMap = ({ url, format, ...props }: { url: string, format: 'hdr' | 'exr' } & EnvironmentSceneProps) => {
+    const texture = useLoader(format === 'exr' ? EXRLoader : HDRLoader, url) as THREE.DataTexture;
+    texture.mapping = THREE.EquirectangularReflectionMapping;
+    return <Environment map={texture} {...props} />;
+};
+
+// Solid or gradient backdrop when the environment itself is hidden
+const SceneBackground = ({ env }: { env: EnvironmentSettings }) => {
+    const { backgroundMode, backgroundColor, backgroundColor2 } = env;
+    const gradient = useMemo(() => {
+        if (backgroundMode !== 'gradient') return null;
+        const canvas = document.createElement('canvas');
+        canvas.width = 2;
+        canvas.height = 256;
+        const ctx = canvas.getContext('2d')!;
+        const fill = ctx.createLinearGradient(0, 0, 0, canvas.height);
+        fill.addColorStop(0, backgroundColor);
+        fill.addColorStop(1, backgroundColor2);
+        ctx.fillStyle = fill;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.colorSpace = THREE.SRGBColorSpace;
+        return texture;
+    }, [backgroundMode, backgroundColor, backgroundColor2]);
+
+    useEffect(() => () => gradient?.dispose(), [gradient]);
+
+    if (backgroundMode === 'solid') return <color attach="background" args={[backgroundColor]} />;
+    if (gradient) return <primitive attach="background" object={gradient} />;
+    return null;
+};
+
+// A missing HDRI (offline preset, broken upload) falls back to the built-in studio instead of breaking the viewport
+class EnvironmentErrorBoundary extends Component<{ fallback: ReactNode, children?: ReactNode }, { hasError: boolean }> {
+  state = { hasError: false };
+
+  static getDerivedStateFromError() {
+    return { hasError: true };
+  }
+
+  componentDidCatch(error: any) {
+    console.error("Environment Error:", error?.message);
+    useAppStore.getState().addNotification('error', 'Environment failed to load, using the built-in studio');
+  }
+
+  render() {
+    return this.state.hasError ? this.props.fallback : this.props.children;
+  }
+}
+
+const SceneEnvironment = ({ env }: { env: EnvironmentSettings }) => {
+    const rotation: [number, number, number] = [0, THREE.MathUtils.degToRad(env.rotation), 0];
+    const props: EnvironmentSceneProps = {
+        background: env.showBackground,
+        backgroundBlurriness: env.blur,
+        backgroundRotation: rotation,
+        environmentIntensity: env.intensity,
+        environmentRotation: rotation
+    };
+    const builtin = (preset: BuiltinEnvironmentPreset) => (
+        <Environment resolution={256} {...props}>
+            <BuiltinEnvironmentRig preset={preset} />
+        </Environment>
+    );
+
+    let content: ReactNode = null;
+    if (env.source === 'custom' && env.customUrl) {
+        content = <CustomEnvironmentMap url={env.customUrl} format={env.customFormat || 'hdr'} {...props} />;
+    } else if (ENVIRONMENT_PRESETS[env.preset].builtin) {
+        content = builtin(env.preset as BuiltinEnvironmentPreset);
+    } else {
+        content = <Environment preset={env.preset as HdriPreset} {...props} />;
+    }
+
+    return (
+        <>
+            {env.source !== 'none' && (
+                <EnvironmentErrorBoundary key={`${env.source}:${env.preset}:${env.customUrl}`} fallback={builtin('builtin-studio')}>
+                    <Suspense fallback={null}>{content}</Suspense>
+                </EnvironmentErrorBoundary>
+            )}
+            {(env.source === 'none' || !env.showBackground) && <SceneBackground env={env} />}
+        </>
+    );
+};
+
+// --- Group Component ---
+interface GroupInstanceProps {
+    obj: SceneObject;
+    isSelected: boolean;
+    showGizmo: boolean;
+    transformMode: TransformMode;
+    onTransformChange: (t: Partial<ModelTransform>) => void;
+    children?: ReactNode;
+}
+
+const GroupInstance: React.FC<GroupInstanceProps> = ({ obj, isSelected, showGizmo, transformMode, onTransformChange, children }) => {
+    const groupRef = useRef<THREE.Group>(null);
+
+    useEffect(() => {
+        if (groupRef.current) {
+            groupRef.current.position.set(...obj.transform.position);
+            groupRef.current.rotation.set(...obj.transform.rotation);
+            groupRef.current.scale.set(...obj.transform.scale);
+        }
+    }, [obj.transform]);
+
+    return (
+        <>
+            <group ref={groupRef} visible={obj.visible} userData={{ sceneObjectId: obj.id }}>
+                {isSelected && <axesHelper args={[0.5]} userData={{ isEditorObject: true }} />}
+                {children}
+            </group>
+
+            {showGizmo && !obj.locked && obj.visible && groupRef.current && (
+                <RootPortal>
+                <SnappingTransformControls
+                    object={groupRef.current}
+                    mode={transformMode}
+                    onMouseUp={() => {
+                         if (groupRef.current) {
+                             onTransformChange({
+                                 position: groupRef.current.position.toArray(),
+                                 rotation: [groupRef.current.rotation.x, groupRef.current.rotation.y, groupRef.current.rotation.z],
+                                 scale: groupRef.current.scale.toArray()
+                             });
+                         }
+                    }}
+                />
+                </RootPortal>
+            )}
+        </>
+    );
+}
+
 
 // --- Individual Model Component ---
 interface ModelInstanceProps {
     id: string;
     url: string;
+    source: ModelSource;
     isSelected: boolean;
+    showGizmo: boolean;
     locked?: boolean;
     visible?: boolean;
     transform: ModelTransform;
     onSelect: (e: any) => void;
     onTransformChange: (t: Partial<ModelTransform>) => void;
     transformMode: TransformMode;
+    materialOverrides?: Record<string, MaterialOverride>;
+    array?: ArrayProps;
+    children?: ReactNode;
 }
 
-function ModelInstance({ id, url, isSelected, locked, visible = true, transform, onSelect, onTransformChange, transformMode }: ModelInstanceProps) {
+// What the shared model body needs, models add their source on top
+type MeshObjectProps = Omit<ModelInstanceProps, 'url' | 'source'>;
+
+// CORE FIX: Robust Proxy Logic to handle CORS
+// 1. Local Blobs/Data URIs -> Use directly
+// 2. Already proxied URLs -> Use directly (prevent double wrapping)
+// 3. Remote URLs -> Wrap in Worker Proxy
+function useProcessedModelUrl(url: string) {
   // Use the backend store to get the worker URL, but fallback to constant if empty
   const storeBackendUrl = useAppStore(state => state.backendUrl);
   const WORKER_URL = storeBackendUrl || DEFAULT_WORKER_URL;
-  
-  // CORE FIX: Robust Proxy Logic to handle CORS
-  // 1. Local Blobs/Data URIs -> Use directly
-  // 2. Already proxied URLs -> Use directly (prevent double wrapping)
-  // 3. Remote URLs -> Wrap in Worker Proxy
-  const processedUrl = useMemo(() => {
+
+  return useMemo(() => {
     if (!url) return null;
     
     // Check for local file
@@ -547,13 +997,153 @@ function ModelInstance({ id, url, isSelected, locked, visible = true, transform,
     const cleanBase = WORKER_URL.replace(/\/+$/, '');
     return `${cleanBase}/proxy?url=${encodeURIComponent(url)}`;
   }, [url, WORKER_URL]);
+}
+
+// Picks the loader for the object's source format (glTF through useGLTF, everything else through the registry)
+function ModelInstance(props: ModelInstanceProps) {
+  const processedUrl = useProcessedModelUrl(props.url);
+
+  // Safety check: if URL processing failed, don't render primitive
+  if (!processedUrl) return null;
+
+  return isGLTFFormat(props.source.format)
+    ? <GLTFModelInstance {...props} processedUrl={processedUrl} />
+    : <LoaderModelInstance {...props} processedUrl={processedUrl} />;
+}
 
+function GLTFModelInstance({ processedUrl, ...props }: ModelInstanceProps & { processedUrl: string }) {
+  const resources = props.source.resources;
   // IMPORTANT: Pass 'true' as the second argument to useGLTF to enable Draco compression support
   // This is critical for Tripo3D models which are often compressed.
-  const { scene } = useGLTF(processedUrl || "", true);
-  
-  const clonedScene = useMemo(() => (scene ? scene.clone() : null), [scene]);
+  // Multi-file .gltf imports resolve their .bin/texture references through the resource map.
+  // The loader instance is shared by every useGLTF call, so loads without resources reset the manager.
+  const { scene } = useGLTF(processedUrl, true, undefined, (loader) => {
+      loader.manager = resources ? createResourceManager(resources) : THREE.DefaultLoadingManager;
+  });
+  return <ModelInstanceBody {...props} scene={scene} />;
+}
+
+function LoaderModelInstance({ processedUrl, ...props }: ModelInstanceProps & { processedUrl: string }) {
+  const scene = use(loadModelCached(processedUrl, props.source));
+  return <ModelInstanceBody {...props} scene={scene} />;
+}
+
+// Layout of an array / scatter in the object's local space, null without one
+function useArrayMatrices(id: string, array: ArrayProps | undefined): THREE.Matrix4[] | null {
+    const scene = useThree(state => state.scene);
+    const targetId = array?.mode === 'scatter' ? array.targetId : undefined;
+    // Published once the target model has loaded, so the scatter is sampled as soon as it can be
+    const targetLoaded = useAppStore(state => !!targetId && !!state.modelMaterials[targetId]);
+    const targetWorld = useAppStore(state => targetId ? state.sceneObjects.find(o => o.id === targetId) && getWorldMatrix(state.sceneObjects, targetId).elements.join() : null);
+    const ownWorld = useAppStore(state => targetId ? getWorldMatrix(state.sceneObjects, id).elements.join() : null);
+
+    // Samples only change with the settings or the target, not with either object's placement
+    const samples = useMemo(() => {
+        if (!array) return null;
+        if (array.mode !== 'scatter') return getArrayMatrices(array);
+        const target = targetId && targetLoaded ? findSceneObjectNode(scene, targetId) : null;
+        // Without a (loaded) target the model shows as a single copy
+        const matrices = target ? getScatterMatrices(target, array) : [];
+        return matrices.length > 0 ? matrices : null;
+    }, [array, targetId, targetLoaded, scene]);
+
+    return useMemo(() => {
+        if (!samples || !targetId) return samples;
+        const { sceneObjects } = useAppStore.getState();
+        const toLocal = getWorldMatrix(sceneObjects, id).invert().multiply(getWorldMatrix(sceneObjects, targetId));
+        return samples.map(m => toLocal.clone().multiply(m));
+    }, [samples, targetId, id, targetWorld, ownWorld]);
+}
+
+// Replaces the model's meshes by instanced copies at the given matrices (same geometry and materials)
+function useArrayInstances(root: THREE.Object3D, matrices: THREE.Matrix4[] | null) {
+    useEffect(() => {
+        if (!matrices) return;
+        const group = new THREE.Group();
+        const meshes = getModelMeshes(root);
+        meshes.forEach(({ mesh, matrix }) => {
+            const instanced = new THREE.InstancedMesh(mesh.geometry, getLitMaterial(mesh), matrices.length);
+            matrices.forEach((m, i) => instanced.setMatrixAt(i, m.clone().multiply(matrix)));
+            instanced.castShadow = true;
+            instanced.receiveShadow = true;
+            instanced.computeBoundingBox();
+            instanced.computeBoundingSphere();
+            registerLitMaterial(instanced);
+            group.add(instanced);
+            mesh.visible = false;
+        });
+        applyShadingMode(group, useAppStore.getState().renderSettings.shadingMode);
+        root.add(group);
+        return () => {
+            root.remove(group);
+            group.children.forEach(child => (child as THREE.InstancedMesh).dispose());
+            meshes.forEach(({ mesh }) => { mesh.visible = true; });
+        };
+    }, [root, matrices]);
+}
+
+// One-mesh scene around generated geometry (primitives, text), disposed once replaced
+function useGeneratedScene(geometry: THREE.BufferGeometry, name: string) {
+  const scene = useMemo(() => {
+      const root = new THREE.Group();
+      const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ name: 'Surface', color: '#d4d4d8', roughness: 0.6 }));
+      mesh.name = name;
+      root.add(mesh);
+      return root;
+  }, [geometry, name]);
+
+  useEffect(() => () => {
+      scene.traverse(obj => {
+          const mesh = obj as THREE.Mesh;
+          if (!mesh.isMesh) return;
+          mesh.geometry.dispose();
+          (mesh.material as THREE.Material).dispose();
+      });
+  }, [scene]);
+
+  return scene;
+}
+
+// Primitives and text go through the model body (materials, shading, arrays, gizmo) with a generated scene
+function PrimitiveInstance({ primitiveProps, ...props }: MeshObjectProps & { primitiveProps: PrimitiveProps }) {
+  const geometry = useMemo(() => createPrimitiveGeometry(primitiveProps), [primitiveProps]);
+  const scene = useGeneratedScene(geometry, PRIMITIVE_SHAPES[primitiveProps.shape].label);
+  return <ModelInstanceBody {...props} scene={scene} />;
+}
+
+function TextInstance({ textProps, ...props }: MeshObjectProps & { textProps: TextProps }) {
+  const font = use(loadFontCached(textProps.fontUrl, textProps.fontFormat));
+  const geometry = useMemo(() => createTextGeometry(font, textProps), [font, textProps]);
+  const scene = useGeneratedScene(geometry, 'Text');
+  return <ModelInstanceBody {...props} scene={scene} />;
+}
+
+function ModelInstanceBody({ id, scene, showGizmo, locked, visible = true, transform, onSelect, onTransformChange, transformMode, materialOverrides, array, children }: MeshObjectProps & { scene: THREE.Object3D }) {
+  const setModelMaterials = useAppStore(state => state.setModelMaterials);
+  const shadingMode = useAppStore(state => state.renderSettings.shadingMode);
+  const { clonedScene, materials } = useMemo(() => {
+      const clone = scene.clone();
+      // Tag the root so services (export, capture) can map it back to its SceneObject
+      clone.userData.sceneObjectId = id;
+      // Own material copies so overrides never leak into the cached GLTF or other instances
+      return { clonedScene: clone, materials: cloneModelMaterials(clone) };
+  }, [scene, id]);
   const [mesh, setMesh] = useState<THREE.Object3D | null>(null);
+  useArrayInstances(clonedScene, useArrayMatrices(id, array));
+
+  useEffect(() => {
+      materials.forEach(binding => applyMaterialOverride(binding, materialOverrides?.[binding.key]));
+      // Unlit copies follow the overridden material, so shading is applied afterwards
+      applyShadingMode(clonedScene, shadingMode);
+  }, [clonedScene, materials, materialOverrides, shadingMode]);
+
+  useEffect(() => {
+      setModelMaterials(id, materials.map(getMaterialInfo));
+      return () => {
+          setModelMaterials(id, null);
+          materials.forEach(binding => binding.material.dispose());
+      };
+  }, [materials, id, setModelMaterials]);
 
   useEffect(() => {
     if (mesh) {
@@ -564,23 +1154,19 @@ function ModelInstance({ id, url, isSelected, locked, visible = true, transform,
   }, [transform, mesh]);
 
   useEffect(() => {
-    if (clonedScene) {
-        clonedScene.traverse((obj) => {
-        if ((obj as THREE.Mesh).isMesh) {
-            obj.castShadow = true;
-            obj.receiveShadow = true;
-        }
-        });
-    }
+    clonedScene.traverse((obj) => {
+      if ((obj as THREE.Mesh).isMesh) {
+          obj.castShadow = true;
+          obj.receiveShadow = true;
+      }
+    });
   }, [clonedScene]);
 
-  // Safety check: if URL processing failed, don't render primitive
-  if (!processedUrl) return null;
-
   return (
     <>
-      {isSelected && !locked && visible && mesh && (
-        <TransformControls 
+      {showGizmo && !locked && visible && mesh && (
+        <RootPortal>
+        <SnappingTransformControls 
             object={mesh} 
             mode={transformMode}
             onMouseUp={() => {
@@ -593,60 +1179,150 @@ function ModelInstance({ id, url, isSelected, locked, visible = true, transform,
                 }
             }}
         />
+        </RootPortal>
       )}
       <primitive 
         object={clonedScene} 
         onClick={onSelect}
         ref={setMesh}
         visible={visible}
-      />
+      >
+        {children}
+      </primitive>
     </>
   );
 }
 
+// Keeps the depth shading range fitted to the scene while the viewport shows the depth pass
+const DepthRangeUpdater = () => {
+    useFrame(({ scene, camera }) => updateDepthRange(scene, camera));
+    return null;
+};
+
+// Hides the visible objects matching the predicate, returns a function that shows them again
+const hideObjects = (root: THREE.Object3D, predicate: (obj: THREE.Object3D) => boolean) => {
+    const hidden: THREE.Object3D[] = [];
+    root.traverse((obj) => {
+        if (obj.visible && predicate(obj)) {
+            obj.visible = false;
+            hidden.push(obj);
+        }
+    });
+    return () => hidden.forEach(obj => obj.visible = true);
+};
+
+interface CaptureRequest {
+    width: number;
+    height: number;
+    pose?: CameraPose; // Render from this pose instead of the view camera
+    reference?: ShadingMode; // Shading of the beauty image, the viewport's when unset
+    passes?: CapturePass[];
+}
+
+interface CaptureResult {
+    beauty: string;
+    passes: CapturePasses;
+    maskLegend?: string;
+}
+
+const PASS_SHADING: Record<Exclude<CapturePass, 'mask'>, ShadingMode> = { depth: 'depth', normal: 'normals' };
+
+// Debug shaders write their final values themselves, tone mapping would shift them
+const RAW_SHADING: ShadingMode[] = ['normals', 'depth'];
+
+// Captures the scene without editor helpers into offscreen targets at the exact output size, independent of the viewport layout.
+// Renders the reference image and any guide passes from the view camera, cropped to the safe frame, or from the given pose.
 const ViewportCapturer = ({ captureRef }: { captureRef: React.MutableRefObject<any> }) => {
     const { gl, scene, camera } = useThree();
     useEffect(() => {
-        captureRef.current = () => {
-            const hiddenObjects: THREE.Object3D[] = [];
-            
-            scene.traverse((obj) => {
-                if (
-                    obj.userData.isEditorObject || 
-                    obj.name === 'GlobalGrid' || 
-                    obj.type.includes('Helper') || 
-                    obj.name === 'TransformControls' || 
-                    (obj as any).isTransformControls 
-                ) {
-                    if (obj.visible) {
-                        obj.visible = false;
-                        hiddenObjects.push(obj);
-                    }
-                }
-            });
-
-            gl.render(scene, camera);
-            const dataUrl = gl.domElement.toDataURL('image/png', 1.0);
+        captureRef.current = ({ width, height, pose, reference, passes = [] }: CaptureRequest): CaptureResult => {
+            const { sceneObjects, renderSettings } = useAppStore.getState();
+            const renderCamera = createCaptureCamera(camera, width / height, pose);
+            const showHelpers = hideObjects(scene, isEditorHelper);
 
-            hiddenObjects.forEach(obj => obj.visible = true);
+            const shoot = (mode: ShadingMode, supersampling = renderSettings.supersampling) => {
+                applyShadingMode(scene, mode);
+                if (mode === 'depth') updateDepthRange(scene, renderCamera);
+                return renderOffscreen(gl, scene, renderCamera, { width, height, supersampling, toneMapped: !RAW_SHADING.includes(mode) });
+            };
 
-            return dataUrl;
+            try {
+                const result: CaptureResult = { beauty: shoot(reference || renderSettings.shadingMode), passes: {} };
+                if (passes.length === 0) return result;
+
+                // Guide passes only show model surfaces on black
+                const showOthers = hideObjects(scene, obj => ((obj as THREE.Mesh).isMesh || (obj as THREE.Line).isLine || (obj as THREE.Points).isPoints) && !isShadedMesh(obj));
+                const background = scene.background;
+                scene.background = new THREE.Color('#000000');
+                try {
+                    for (const pass of passes) {
+                        if (pass === 'mask') {
+                            // No antialiasing, blended edges would add colors that are not in the legend
+                            const colors = getMaskColors(sceneObjects);
+                            applyMaskPass(scene, colors);
+                            result.passes.mask = renderOffscreen(gl, scene, renderCamera, { width, height, supersampling: 1, toneMapped: false, antialias: false });
+                            result.maskLegend = describeMaskLegend(sceneObjects, colors);
+                        } else {
+                            result.passes[pass] = shoot(PASS_SHADING[pass]);
+                        }
+                    }
+                } finally {
+                    scene.background = background;
+                    showOthers();
+                }
+                return result;
+            } finally {
+                applyShadingMode(scene, renderSettings.shadingMode);
+                showHelpers();
+            }
         };
     }, [gl, scene, camera, captureRef]);
     return null;
 }
 
-const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
+const SceneExporter = ({ exportRef }: { exportRef: React.MutableRefObject<any> }) => {
+    const { scene } = useThree();
+    useEffect(() => {
+        exportRef.current = async (objects: SceneObject[], options: GLBExportOptions) => {
+            // Always export the real materials, not the viewport's shading
+            applyShadingMode(scene, 'lit');
+            try {
+                return await exportSceneToGLB(scene, objects, options);
+            } finally {
+                applyShadingMode(scene, useAppStore.getState().renderSettings.shadingMode);
+            }
+        };
+    }, [scene, exportRef]);
+    return null;
+}
+
+// Describes the visible lights for the image model
+const describeSceneLighting = (sceneObjects: SceneObject[], environment: EnvironmentSettings) => {
+    const activeLights = sceneObjects.filter(obj => obj.type === 'light' && obj.visible);
+    return [
+        ...activeLights.map((l, i) => describeLight(l, sceneObjects, i + 1)),
+        describeEnvironment(environment)
+    ].join('\n');
+};
+
+const RenderWindow = ({ onClose, onCaptureRequest, onOpenGallery }: any) => {
     const addNotification = useAppStore(state => state.addNotification);
     const activeCameraId = useAppStore(state => state.activeCameraId);
     const sceneObjects = useAppStore(state => state.sceneObjects);
     const cameraState = useAppStore(state => state.cameraState);
+    const supersampling = useAppStore(state => state.renderSettings.supersampling);
+    const updateRenderSettings = useAppStore(state => state.updateRenderSettings);
     
-    const [renderResult, setRenderResult] = useState<string | null>(null);
     const [baseImage, setBaseImage] = useState<string | null>(null);
-    const [isRendering, setIsRendering] = useState(false);
+    // Latest job queued from this window, its result stays in the render queue after closing
+    const [jobId, setJobId] = useState<string | null>(null);
+    const job = useAppStore(state => jobId ? state.renderJobs.find(j => j.id === jobId) : undefined);
+    const activeJobCount = useAppStore(state => state.renderJobs.filter(j => j.status === 'queued' || j.status === 'running').length);
+    const renderResult = job?.resultUrl ?? null;
+    const isRendering = job?.status === 'queued' || job?.status === 'running';
     const [prompt, setPrompt] = useState("");
-    const [selectedPresetIdx, setSelectedPresetIdx] = useState(0);
+    const selectedPresetIdx = useAppStore(state => state.renderSettings.resolutionPreset);
+    const setSelectedPresetIdx = (idx: number) => useAppStore.getState().updateRenderSettings({ resolutionPreset: idx });
 
     // AI Suggestions State
     const [suggestedPrompts, setSuggestedPrompts] = useState<string[]>([]);
@@ -656,18 +1332,45 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
     const [camDisplayInfo, setCamDisplayInfo] = useState({
         fov: 50,
         pos: "",
-        rot: ""
+        rot: "",
+        lens: ""
     });
 
+    // Pass used as the reference image, defaults to what the viewport shows
+    const [referencePass, setReferencePass] = useState<ShadingMode>(() => useAppStore.getState().renderSettings.shadingMode);
+
+    // Guide passes sent along with the reference image
+    const [guidePasses, setGuidePasses] = useState<CapturePass[]>([]);
+    const [capturedPasses, setCapturedPasses] = useState<CapturePasses>({});
+    const [maskLegend, setMaskLegend] = useState<string | undefined>();
+
+    const toggleGuidePass = (pass: CapturePass) => setGuidePasses(prev =>
+        prev.includes(pass) ? prev.filter(p => p !== pass) : (Object.keys(CAPTURE_PASS_LABELS) as CapturePass[]).filter(p => p === pass || prev.includes(p))
+    );
+
+    // Everything is captured at the output size. onCaptureRequest is recreated on every viewer render, so only settings changes recapture
     useEffect(() => {
-        if (onCaptureRequest && !baseImage) {
-            setBaseImage(onCaptureRequest());
+        if (!onCaptureRequest) return;
+        const preset = RESOLUTION_PRESETS[selectedPresetIdx];
+        const capture: CaptureResult | null = onCaptureRequest({ width: preset.w, height: preset.h, reference: referencePass, passes: guidePasses });
+        if (!capture) return;
+        setBaseImage(capture.beauty);
+        setCapturedPasses(capture.passes);
+        setMaskLegend(capture.maskLegend);
+    }, [referencePass, selectedPresetIdx, guidePasses, supersampling]);
+
+    const handleDownloadPasses = async () => {
+        if (!baseImage) return;
+        try {
+            downloadBlob(await zipPasses(baseImage, capturedPasses, 'render_passes'), 'render_passes.zip');
+        } catch (e: any) {
+            addNotification('error', `Download Failed: ${e.message}`);
         }
-    }, [onCaptureRequest, baseImage]);
+    };
 
-    // TRIGGER ANALYSIS ON OPEN
+    // TRIGGER ANALYSIS ON OPEN (only for the first capture, switching passes keeps the suggestions)
     useEffect(() => {
-        if (baseImage && !renderResult) {
+        if (baseImage && !renderResult && suggestedPrompts.length === 0 && !isAnalyzing) {
             setIsAnalyzing(true);
             analyzeSceneAndSuggestPrompts(baseImage)
                 .then(prompts => setSuggestedPrompts(prompts))
@@ -681,60 +1384,48 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
         let f = cameraState.fov;
         let p = `[${cameraState.position.map(n=>n.toFixed(1)).join(', ')}]`;
         let r = `LookAt [${cameraState.target.map(n=>n.toFixed(1)).join(', ')}]`;
+        let lens = describeCameraLens({ fov: cameraState.fov });
 
         if (activeCameraId) {
             const cam = sceneObjects.find(o => o.id === activeCameraId);
             if (cam) {
                 if (cam.cameraProps) f = cam.cameraProps.fov;
-                p = `[${cam.transform.position.map(n=>n.toFixed(1)).join(', ')}]`;
-                r = `Rot [${cam.transform.rotation.map(n=>n.toFixed(1)).join(', ')}]`;
+                lens = describeCameraLens(cam.cameraProps);
+                const world = getWorldTransform(sceneObjects, cam.id);
+                p = `[${world.position.map(n=>n.toFixed(1)).join(', ')}]`;
+                r = `Rot [${world.rotation.map(n=>n.toFixed(1)).join(', ')}]`;
             }
         }
-        setCamDisplayInfo({ fov: f, pos: p, rot: r });
+        setCamDisplayInfo({ fov: f, pos: p, rot: r, lens });
     }, [cameraState, activeCameraId, sceneObjects]);
 
 
-    const handleRender = async () => {
+    const handleRender = () => {
         if (!prompt.trim()) addNotification('info', 'Enter a prompt for better stylization results');
-        setIsRendering(true);
         const preset = RESOLUTION_PRESETS[selectedPresetIdx];
         
         // Final calculation for prompt & lighting
-        const camInfoStr = `Position: ${camDisplayInfo.pos}, Orientation: ${camDisplayInfo.rot}`;
+        const camInfoStr = `Position: ${camDisplayInfo.pos}, Orientation: ${camDisplayInfo.rot}, Lens: ${camDisplayInfo.lens}`;
         
         // Extract Light Information
-        const activeLights = sceneObjects.filter(obj => obj.type === 'light' && obj.visible);
-        let lightingInfoStr = "";
-        
-        if (activeLights.length > 0) {
-            lightingInfoStr = activeLights.map((l, i) => {
-                 const pos = l.transform.position.map(n => n.toFixed(1)).join(', ');
-                 const color = l.lightProps?.color || '#ffffff';
-                 const intensity = l.lightProps?.intensity || 1.0;
-                 return `Source ${i+1}: Directional Light positioned at coordinates (${pos}). Color: ${color}. Intensity: ${intensity}.`;
-            }).join('\n');
-        } else {
-            lightingInfoStr = "Standard environment lighting.";
-        }
+        const lightingInfoStr = describeSceneLighting(sceneObjects, useAppStore.getState().renderSettings.environment);
 
-        try {
-            if (!baseImage) throw new Error("Unable to capture scene screenshot");
-            const resultUrl = await generateRefinedImage({
-                prompt: prompt,
-                referenceImage: baseImage,
-                aspectRatio: preset.ratio as any,
-                fov: camDisplayInfo.fov,
-                cameraInfo: camInfoStr,
-                lightingInfo: lightingInfoStr // Pass lighting info to Gemini
-            });
-            setRenderResult(resultUrl);
-            addNotification('success', 'AI Rendering Complete');
-        } catch (e: any) {
-            console.error(e);
-            addNotification('error', `Render Failed: ${e.message}`);
-        } finally {
-            setIsRendering(false);
+        if (!baseImage) {
+            addNotification('error', 'Render Failed: Unable to capture scene screenshot');
+            return;
         }
+        setJobId(enqueueRenderJob({
+            prompt: prompt,
+            aspectRatio: preset.ratio,
+            fov: camDisplayInfo.fov,
+            cameraMode: activeCameraId ? 'scene' : 'editor',
+            cameraInfo: camInfoStr,
+            lightingInfo: lightingInfoStr, // Pass lighting info to Gemini
+            baseImage,
+            referencePass,
+            guidePasses: capturedPasses,
+            maskLegend
+        }));
     };
 
     return (
@@ -747,7 +1438,13 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
                         <span>AI Render Studio</span>
                         <span className="text-[10px] bg-indigo-600 text-white px-2 py-0.5 rounded-full font-bold ml-2">Gemini 2.5 Flash</span>
                     </div>
-                    <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-zinc-400 hover:text-white transition-all duration-200 hover:rotate-90"><X size={18}/></button>
+                    <div className="flex items-center gap-2">
+                        <button onClick={onOpenGallery} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-xs font-bold text-zinc-300 transition-colors" title="Render Queue & Gallery">
+                            <Images size={14} /> Queue
+                            {activeJobCount > 0 && <span className="px-1.5 rounded-full bg-indigo-600 text-white text-[10px]">{activeJobCount}</span>}
+                        </button>
+                        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full text-zinc-400 hover:text-white transition-all duration-200 hover:rotate-90"><X size={18}/></button>
+                    </div>
                 </div>
                 
                 <div className="flex-1 flex min-h-0">
@@ -767,7 +1464,7 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
                                      <div className="relative">
                                          <Loader2 size={48} className="relative animate-spin text-indigo-500 mb-4" />
                                      </div>
-                                     <div className="font-bold tracking-widest text-sm text-indigo-300 animate-pulse">PROCESSING...</div>
+                                     <div className="font-bold tracking-widest text-sm text-indigo-300 animate-pulse">{job?.status === 'queued' ? 'QUEUED...' : 'PROCESSING...'}</div>
                                  </div>
                              )}
                          </div>
@@ -796,6 +1493,9 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
                                     
                                     <span className="text-zinc-500">Dir:</span>
                                     <span className="truncate" title={camDisplayInfo.rot}>{camDisplayInfo.rot}</span>
+
+                                    <span className="text-zinc-500">Lens:</span>
+                                    <span className="truncate" title={camDisplayInfo.lens}>{camDisplayInfo.lens}</span>
                                 </div>
                             </div>
 
@@ -809,7 +1509,7 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
                                         <div className="flex flex-col gap-1">
                                             {sceneObjects.filter(o => o.type === 'light' && o.visible).map((l, i) => (
                                                 <div key={l.id} className="flex justify-between items-center bg-white/5 px-2 py-1 rounded">
-                                                    <span>Light {i+1}</span>
+                                                    <span>{l.name} <span className="text-zinc-500">· {LIGHT_KIND_LABELS[getLightKind(l.lightProps)]}</span></span>
                                                     <div className="flex items-center gap-2">
                                                         <div className="w-2 h-2 rounded-full" style={{backgroundColor: l.lightProps?.color || '#fff'}}></div>
                                                         <span className="text-zinc-500">{l.lightProps?.intensity.toFixed(1)}x</span>
@@ -823,20 +1523,66 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
                                 </div>
                             </div>
 
-                            {/* Aspect Ratio */}
+                            {/* Reference Pass */}
                             <div className="animate-slide-in-right stagger-2 shrink-0">
-                                <label className="text-xs font-bold text-zinc-300 mb-3 flex items-center gap-2 uppercase tracking-wider"><Ratio size={12} /> Aspect Ratio</label>
-                                <div className="grid grid-cols-2 gap-2">
-                                    {RESOLUTION_PRESETS.map((preset, idx) => (
-                                        <button key={idx} onClick={() => setSelectedPresetIdx(idx)} className={`flex flex-col items-center justify-center p-3 rounded-lg border transition-all duration-300 ease-silky hover:scale-[1.02] active:scale-[0.98] ${selectedPresetIdx === idx ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300 shadow-sm' : 'bg-[#3f3f46] border-white/5 text-zinc-300 hover:bg-[#52525b] hover:text-white'}`}>
-                                            <div className="text-xs font-bold mb-1">{preset.ratio}</div>
-                                            <div className="text-[10px] opacity-60">{preset.label}</div>
+                                <label className="text-xs font-bold text-zinc-300 mb-3 flex items-center gap-2 uppercase tracking-wider"><Layers size={12} /> Reference Pass</label>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(Object.keys(SHADING_MODE_LABELS) as ShadingMode[]).map(mode => (
+                                        <button key={mode} onClick={() => setReferencePass(mode)} className={`py-2 rounded-lg border text-[11px] font-bold transition-all duration-300 ease-silky hover:scale-[1.02] active:scale-[0.98] ${referencePass === mode ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300 shadow-sm' : 'bg-[#3f3f46] border-white/5 text-zinc-300 hover:bg-[#52525b] hover:text-white'}`}>
+                                            {SHADING_MODE_LABELS[mode]}
                                         </button>
                                     ))}
                                 </div>
                             </div>
 
-                            {/* Prompt & AI Suggestions Area */}
+                            {/* Guide Passes */}
+                            <div className="animate-slide-in-right stagger-2 shrink-0">
+                                <div className="flex items-center justify-between mb-3">
+                                    <label className="text-xs font-bold text-zinc-300 flex items-center gap-2 uppercase tracking-wider"><Layers size={12} /> Guide Passes</label>
+                                    <button onClick={handleDownloadPasses} disabled={!baseImage} className="text-[10px] font-bold text-zinc-400 hover:text-white flex items-center gap-1 transition-colors disabled:opacity-30" title="Download the reference image and passes (.zip)">
+                                        <Download size={10} /> Download
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {(Object.keys(CAPTURE_PASS_LABELS) as CapturePass[]).map(pass => {
+                                        const active = guidePasses.includes(pass);
+                                        return (
+                                            <button key={pass} onClick={() => toggleGuidePass(pass)} className={`flex flex-col items-center gap-1.5 p-1.5 rounded-lg border text-[11px] font-bold transition-all duration-300 ease-silky hover:scale-[1.02] active:scale-[0.98] ${active ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300 shadow-sm' : 'bg-[#3f3f46] border-white/5 text-zinc-300 hover:bg-[#52525b] hover:text-white'}`}>
+                                                <div className="w-full aspect-video rounded bg-black overflow-hidden flex items-center justify-center">
+                                                    {active && capturedPasses[pass] ? <img src={capturedPasses[pass]} className="w-full h-full object-contain" alt={CAPTURE_PASS_LABELS[pass]} /> : <span className="text-[9px] text-zinc-600">Off</span>}
+                                                </div>
+                                                {CAPTURE_PASS_LABELS[pass]}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                {guidePasses.length > 0 && <p className="text-[10px] text-zinc-500 mt-2 leading-relaxed">Sent to Gemini as extra images after the reference.</p>}
+                            </div>
+
+                            {/* Aspect Ratio */}
+                            <div className="animate-slide-in-right stagger-2 shrink-0">
+                                <label className="text-xs font-bold text-zinc-300 mb-3 flex items-center gap-2 uppercase tracking-wider"><Ratio size={12} /> Aspect Ratio</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {RESOLUTION_PRESETS.map((preset, idx) => (
+                                        <button key={idx} onClick={() => setSelectedPresetIdx(idx)} className={`flex flex-col items-center justify-center p-3 rounded-lg border transition-all duration-300 ease-silky hover:scale-[1.02] active:scale-[0.98] ${selectedPresetIdx === idx ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300 shadow-sm' : 'bg-[#3f3f46] border-white/5 text-zinc-300 hover:bg-[#52525b] hover:text-white'}`}>
+                                            <div className="text-xs font-bold mb-1">{preset.ratio}</div>
+                                            <div className="text-[10px] opacity-60">{preset.label}</div>
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex items-center justify-between mt-3">
+                                    <span className="text-[10px] text-zinc-500">{RESOLUTION_PRESETS[selectedPresetIdx].w} × {RESOLUTION_PRESETS[selectedPresetIdx].h} px · Supersampling</span>
+                                    <div className="flex gap-1">
+                                        {SUPERSAMPLING_OPTIONS.map(factor => (
+                                            <button key={factor} onClick={() => updateRenderSettings({ supersampling: factor })} className={`px-2 py-1 rounded text-[10px] font-bold transition-colors ${supersampling === factor ? 'bg-indigo-500/20 text-indigo-300' : 'bg-[#3f3f46] text-zinc-400 hover:text-white'}`} title={factor === 1 ? 'Render at the output size' : `Render at ${factor}× the output size and scale down`}>
+                                                {factor}×
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Prompt & AI Suggestions Area */}
                             <div className="flex flex-col shrink-0 animate-slide-in-right stagger-3 gap-2">
                                  <div className="flex items-center justify-between">
                                     <label className="text-xs font-bold text-zinc-300 flex items-center gap-2 uppercase tracking-wider"><Wand2 size={12} /> Prompt</label>
@@ -888,8 +1634,8 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
 
                         {/* Sticky Footer for Actions */}
                         <div className="p-6 border-t border-white/10 bg-[#27272a] flex flex-col gap-3 shrink-0 z-10">
-                            <button onClick={handleRender} disabled={isRendering} className="w-full py-3.5 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl shadow-lg shadow-indigo-900/40 disabled:opacity-50 flex items-center justify-center gap-2 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98]">
-                                <Sparkles size={16} fill="currentColor" /> {isRendering ? 'Rendering...' : 'Render'}
+                            <button onClick={handleRender} className="w-full py-3.5 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl shadow-lg shadow-indigo-900/40 disabled:opacity-50 flex items-center justify-center gap-2 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98]">
+                                <Sparkles size={16} fill="currentColor" /> {isRendering ? 'Queue Another Render' : 'Render'}
                             </button>
                             {renderResult && (
                                 <a href={renderResult} download={`render-${Date.now()}.png`} className="w-full py-2.5 bg-[#3f3f46] hover:bg-[#52525b] text-zinc-200 font-bold rounded-xl border border-white/10 flex items-center justify-center gap-2 transition-all hover:scale-[1.02]"><Download size={14} /> Save Image</a>
@@ -902,19 +1648,841 @@ const RenderWindow = ({ onClose, onCaptureRequest }: any) => {
     );
 };
 
+// --- Sequence Render ---
+// Steps through the timeline or a path through the scene cameras, captures every frame at the
+// preset size (optionally refined by Gemini with a fixed seed) and encodes a video or PNG zip.
+const waitForFrames = (count: number) => new Promise<void>(resolve => {
+    let remaining = count;
+    const step = () => (--remaining <= 0 ? resolve() : requestAnimationFrame(step));
+    requestAnimationFrame(step);
+});
+
+const formatPose = (position: number[], rotation: number[]) =>
+    `Position: [${position.map(n => n.toFixed(1)).join(', ')}], Orientation: Rot [${rotation.map(n => n.toFixed(1)).join(', ')}]`;
+
+const SequenceRenderWindow = ({ onClose, onCaptureRequest }: { onClose: () => void, onCaptureRequest: (request: CaptureRequest) => CaptureResult | null }) => {
+    const addNotification = useAppStore(state => state.addNotification);
+    const animation = useAppStore(state => state.animation);
+    const sceneObjects = useAppStore(state => state.sceneObjects);
+
+    const cameraCount = sceneObjects.filter(o => o.type === 'camera').length;
+    const supportedFormats = useMemo(() => getSupportedSequenceFormats(), []);
+
+    const [source, setSource] = useState<SequenceSource>(animation.tracks.length === 0 && cameraCount >= 2 ? 'camera-path' : 'timeline');
+    const selectedPresetIdx = useAppStore(state => state.renderSettings.resolutionPreset);
+    const setSelectedPresetIdx = (idx: number) => useAppStore.getState().updateRenderSettings({ resolutionPreset: idx });
+    const [format, setFormat] = useState<SequenceFormat>(supportedFormats[0]);
+    const [fps, setFps] = useState(animation.fps);
+    const [pathDuration, setPathDuration] = useState(animation.duration);
+    const [refine, setRefine] = useState(false);
+    const [prompt, setPrompt] = useState('');
+    const [seed, setSeed] = useState(() => Math.floor(Math.random() * 1_000_000));
+
+    const [isRendering, setIsRendering] = useState(false);
+    const [progress, setProgress] = useState<{ phase: string, done: number, total: number } | null>(null);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [result, setResult] = useState<{ blob: Blob, fileName: string } | null>(null);
+    const cancelRef = useRef(false);
+
+    const duration = source === 'timeline' ? animation.duration : pathDuration;
+    const frameCount = Math.max(1, Math.round(duration * fps));
+
+    // Release the preview object URL when replaced or closed
+    useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl); }, [previewUrl]);
+
+    const cameraInfoFor = (pose?: CameraPose) => {
+        if (pose) {
+            const rotation = new THREE.Euler().setFromQuaternion(pose.quaternion);
+            return { fov: pose.fov, info: `${formatPose(pose.position.toArray(), [rotation.x, rotation.y, rotation.z])}, Lens: ${describeCameraLens({ fov: pose.fov })}` };
+        }
+        const { sceneObjects, activeCameraId, cameraState } = useAppStore.getState();
+        const cam = activeCameraId ? sceneObjects.find(o => o.id === activeCameraId) : undefined;
+        if (cam) {
+            const world = getWorldTransform(sceneObjects, cam.id);
+            return { fov: cam.cameraProps?.fov || 50, info: `${formatPose(world.position, world.rotation)}, Lens: ${describeCameraLens(cam.cameraProps)}` };
+        }
+        return {
+            fov: cameraState.fov,
+            info: `Position: [${cameraState.position.map(n => n.toFixed(1)).join(', ')}], Orientation: LookAt [${cameraState.target.map(n => n.toFixed(1)).join(', ')}], Lens: ${describeCameraLens({ fov: cameraState.fov })}`
+        };
+    };
+
+    const handleRender = async () => {
+        const preset = RESOLUTION_PRESETS[selectedPresetIdx];
+        const poses = source === 'camera-path' ? getCameraPathPoses(useAppStore.getState().sceneObjects) : [];
+        if (source === 'camera-path' && poses.length === 0) {
+            addNotification('error', 'Add at least one scene camera to render a camera path');
+            return;
+        }
+
+        const { animationTime: startTime, setAnimationTime, setAnimationPlaying } = useAppStore.getState();
+        setAnimationPlaying(false);
+        cancelRef.current = false;
+        setIsRendering(true);
+        setResult(null);
+
+        const frames: Blob[] = [];
+        try {
+            for (let i = 0; i < frameCount; i++) {
+                if (cancelRef.current) throw new Error('Cancelled');
+                setProgress({ phase: refine ? 'Capturing & Refining' : 'Capturing', done: i, total: frameCount });
+
+                let pose: CameraPose | undefined;
+                if (source === 'timeline') {
+                    // Let React and the viewer pick up the evaluated frame before capturing
+                    setAnimationTime(i / fps);
+                    await waitForFrames(2);
+                } else {
+                    pose = sampleCameraPath(poses, frameCount > 1 ? i / (frameCount - 1) : 0);
+                }
+
+                const capture = onCaptureRequest({ width: preset.w, height: preset.h, pose });
+                if (!capture) throw new Error('Unable to capture scene screenshot');
+                let frame = await fitFrameToSize(capture.beauty, preset.w, preset.h);
+
+                if (refine) {
+                    const camera = cameraInfoFor(pose);
+                    const refined = await generateRefinedImage({
+                        prompt,
+                        referenceImage: await blobToDataUrl(frame),
+                        aspectRatio: preset.ratio as any,
+                        fov: camera.fov,
+                        cameraInfo: camera.info,
+                        lightingInfo: describeSceneLighting(useAppStore.getState().sceneObjects, useAppStore.getState().renderSettings.environment),
+                        seed
+                    });
+                    frame = await fitFrameToSize(refined, preset.w, preset.h);
+                }
+
+                frames.push(frame);
+                setPreviewUrl(URL.createObjectURL(frame));
+            }
+
+            const baseName = `${useAppStore.getState().projectName || 'sequence'}`.replace(/[^\w-]+/g, '_');
+            let blob: Blob;
+            if (format === 'png-zip') {
+                setProgress({ phase: 'Packing', done: frameCount, total: frameCount });
+                blob = await zipFrames(frames, baseName);
+            } else {
+                setProgress({ phase: 'Encoding', done: 0, total: frameCount });
+                blob = await encodeVideo(frames, {
+                    width: preset.w,
+                    height: preset.h,
+                    fps,
+                    format,
+                    onProgress: (done) => setProgress({ phase: 'Encoding', done, total: frameCount })
+                });
+            }
+
+            const fileName = `${baseName}.${format === 'png-zip' ? 'zip' : format}`;
+            setResult({ blob, fileName });
+            downloadBlob(blob, fileName);
+            addNotification('success', `Rendered ${frameCount} frames`);
+        } catch (e: any) {
+            if (cancelRef.current) addNotification('info', 'Sequence render cancelled');
+            else {
+                console.error(e);
+                addNotification('error', `Sequence Render Failed: ${e.message}`);
+            }
+        } finally {
+            if (source === 'timeline') useAppStore.getState().setAnimationTime(startTime);
+            setIsRendering(false);
+            setProgress(null);
+        }
+    };
+
+    const labelClass = "text-xs font-bold text-zinc-300 mb-2 flex items-center gap-2 uppercase tracking-wider";
+    const inputClass = "w-full bg-[#18181b] border border-white/10 rounded-lg px-3 py-2 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500 transition-all disabled:opacity-50";
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-fade-in-up duration-300">
+            <div className="w-[80vw] h-[80vh] max-w-[1300px] max-h-[850px] bg-[#27272a] border border-white/20 rounded-xl shadow-2xl flex flex-col overflow-hidden relative ring-1 ring-white/10 animate-pop-in">
+                <div className="h-14 bg-[#27272a] flex items-center justify-between px-6 border-b border-white/10 shrink-0">
+                    <div className="flex items-center gap-2 text-white font-bold tracking-wide">
+                        <div className="p-1.5 rounded-lg bg-indigo-500/20 text-indigo-400"><Clapperboard size={16}/></div>
+                        <span>Sequence Render</span>
+                    </div>
+                    <button onClick={onClose} disabled={isRendering} className="p-2 hover:bg-white/10 rounded-full text-zinc-400 hover:text-white transition-all duration-200 hover:rotate-90 disabled:opacity-30"><X size={18}/></button>
+                </div>
+
+                <div className="flex-1 flex min-h-0">
+                    <div className="flex-1 bg-black relative p-6 flex items-center justify-center">
+                        {previewUrl ? (
+                            <img src={previewUrl} className="max-w-full max-h-full object-contain rounded-lg border border-white/10" alt="Frame" />
+                        ) : (
+                            <div className="text-zinc-600 text-sm flex flex-col items-center gap-2">
+                                <Clapperboard size={32} className="opacity-30" />
+                                {frameCount} frames @ {fps} fps
+                            </div>
+                        )}
+
+                        {progress && (
+                            <div className="absolute bottom-6 left-6 right-6 bg-[#18181b]/90 backdrop-blur border border-white/10 rounded-xl p-3">
+                                <div className="flex justify-between text-[10px] font-bold text-indigo-300 uppercase tracking-wider mb-2">
+                                    <span>{progress.phase}</span>
+                                    <span className="font-mono">{progress.done} / {progress.total}</span>
+                                </div>
+                                <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
+                                    <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="w-[400px] bg-[#27272a] border-l border-white/10 flex flex-col shrink-0">
+                        <div className="flex-1 overflow-y-auto p-6 flex flex-col gap-5 custom-scrollbar">
+                            {/* Source */}
+                            <div>
+                                <label className={labelClass}><Video size={12} /> Source</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {([['timeline', 'Timeline'], ['camera-path', 'Camera Path']] as [SequenceSource, string][]).map(([value, label]) => (
+                                        <button key={value} disabled={isRendering} onClick={() => setSource(value)} className={`p-2.5 rounded-lg border text-xs font-bold transition-all ${source === value ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'bg-[#3f3f46] border-white/5 text-zinc-300 hover:bg-[#52525b]'}`}>
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="text-[10px] text-zinc-500 mt-2">
+                                    {source === 'timeline'
+                                        ? `Plays the ${animation.duration}s timeline through the current view${animation.tracks.length === 0 ? ' (no keyframes yet)' : ''}.`
+                                        : `Flies through the ${cameraCount} scene camera${cameraCount === 1 ? '' : 's'} in hierarchy order.`}
+                                </div>
+                            </div>
+
+                            {/* Timing */}
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className={labelClass}>Duration (s)</label>
+                                    <input type="number" min={0.1} step={0.5} value={duration} disabled={isRendering || source === 'timeline'} onChange={(e) => setPathDuration(Math.max(0.1, parseFloat(e.target.value) || 0.1))} className={inputClass} />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>FPS</label>
+                                    <select value={fps} disabled={isRendering} onChange={(e) => setFps(parseInt(e.target.value))} className={inputClass}>
+                                        {[12, 24, 25, 30, 60].map(f => <option key={f} value={f}>{f}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+
+                            {/* Resolution */}
+                            <div>
+                                <label className={labelClass}><Ratio size={12} /> Resolution</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {RESOLUTION_PRESETS.map((preset, idx) => (
+                                        <button key={idx} disabled={isRendering} onClick={() => setSelectedPresetIdx(idx)} className={`flex flex-col items-center p-2 rounded-lg border transition-all ${selectedPresetIdx === idx ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'bg-[#3f3f46] border-white/5 text-zinc-300 hover:bg-[#52525b]'}`}>
+                                            <div className="text-xs font-bold">{preset.ratio}</div>
+                                            <div className="text-[10px] opacity-60">{preset.w} × {preset.h}</div>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Output */}
+                            <div>
+                                <label className={labelClass}><Download size={12} /> Output</label>
+                                <select value={format} disabled={isRendering} onChange={(e) => setFormat(e.target.value as SequenceFormat)} className={inputClass}>
+                                    {supportedFormats.map(f => <option key={f} value={f}>{SEQUENCE_FORMAT_LABELS[f]}</option>)}
+                                </select>
+                                {format !== 'png-zip' && <div className="text-[10px] text-zinc-500 mt-2">Video is encoded in real time, encoding takes about {duration.toFixed(1)}s.</div>}
+                            </div>
+
+                            {/* AI Refinement */}
+                            <div className="p-3 bg-black/20 rounded-lg border border-white/5 flex flex-col gap-3">
+                                <label className="flex items-center justify-between text-xs font-bold text-zinc-300 uppercase tracking-wider cursor-pointer">
+                                    <span className="flex items-center gap-2"><Sparkles size={12} /> AI Refine Each Frame</span>
+                                    <input type="checkbox" checked={refine} disabled={isRendering} onChange={(e) => setRefine(e.target.checked)} className="w-4 h-4 accent-indigo-500" />
+                                </label>
+                                {refine && (
+                                    <>
+                                        <textarea value={prompt} disabled={isRendering} onChange={(e) => setPrompt(e.target.value)} placeholder="Style prompt applied to every frame..." className={`${inputClass} h-20 resize-none`} />
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Seed</span>
+                                            <input type="number" value={seed} disabled={isRendering} onChange={(e) => setSeed(parseInt(e.target.value) || 0)} className={`${inputClass} font-mono`} />
+                                            <button onClick={() => setSeed(Math.floor(Math.random() * 1_000_000))} disabled={isRendering} className="p-2 rounded-lg bg-[#3f3f46] hover:bg-[#52525b] text-zinc-300" title="Random Seed"><Dices size={14} /></button>
+                                        </div>
+                                        <div className="text-[10px] text-amber-400/80 flex items-center gap-1.5"><AlertTriangle size={10} /> {frameCount} Gemini requests, one per frame.</div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="p-6 border-t border-white/10 bg-[#27272a] flex flex-col gap-3 shrink-0">
+                            {isRendering ? (
+                                <button onClick={() => { cancelRef.current = true; }} className="w-full py-3.5 bg-red-600/80 hover:bg-red-500 text-white font-bold rounded-xl flex items-center justify-center gap-2 transition-all">
+                                    <Square size={14} fill="currentColor" /> Cancel
+                                </button>
+                            ) : (
+                                <button onClick={handleRender} className="w-full py-3.5 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl shadow-lg shadow-indigo-900/40 flex items-center justify-center gap-2 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98]">
+                                    <Clapperboard size={16} /> Render {frameCount} Frames
+                                </button>
+                            )}
+                            {result && !isRendering && (
+                                <button onClick={() => downloadBlob(result.blob, result.fileName)} className="w-full py-2.5 bg-[#3f3f46] hover:bg-[#52525b] text-zinc-200 font-bold rounded-xl border border-white/10 flex items-center justify-center gap-2 transition-all">
+                                    <Download size={14} /> Save {result.fileName}
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Shot List ---
+// Scene cameras as an ordered list of shots, each with its own preset, prompt and style. Thumbnails are
+// re-captured from every camera shortly after the scene changes, "Render All" queues one AI render per shot.
+const SHOT_THUMBNAIL_WIDTH = 160;
+
+const ShotListPanel = ({ onClose, onCaptureRequest, onOpenGallery }: { onClose: () => void, onCaptureRequest: (request: CaptureRequest) => CaptureResult | null, onOpenGallery: () => void }) => {
+    const sceneObjects = useAppStore(state => state.sceneObjects);
+    const shots = useAppStore(state => state.shots);
+    const renderSettings = useAppStore(state => state.renderSettings);
+    const activeCameraId = useAppStore(state => state.activeCameraId);
+    const setShots = useAppStore(state => state.setShots);
+    const updateSceneObject = useAppStore(state => state.updateSceneObject);
+    const setActiveCameraId = useAppStore(state => state.setActiveCameraId);
+    const addCameraToScene = useAppStore(state => state.addCameraToScene);
+    const addNotification = useAppStore(state => state.addNotification);
+
+    const entries = useMemo(() => getShotList(sceneObjects, shots, renderSettings.resolutionPreset), [sceneObjects, shots, renderSettings.resolutionPreset]);
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            const next: Record<string, string> = {};
+            for (const { camera, shot } of entries) {
+                const preset = RESOLUTION_PRESETS[shot.resolutionPreset] ?? RESOLUTION_PRESETS[0];
+                const capture = onCaptureRequest({
+                    width: SHOT_THUMBNAIL_WIDTH,
+                    height: Math.round(SHOT_THUMBNAIL_WIDTH * preset.h / preset.w),
+                    pose: getCameraPose(sceneObjects, camera.id)
+                });
+                if (capture) next[camera.id] = capture.beauty;
+            }
+            setThumbnails(next);
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [entries, renderSettings]);
+
+    // Edits write the whole list so cameras without an entry keep their place
+    const updateShot = (cameraId: string, updates: Partial<Omit<Shot, 'cameraId'>>) =>
+        setShots(entries.map(({ shot }) => shot.cameraId === cameraId ? { ...shot, ...updates } : shot));
+
+    const moveShot = (index: number, offset: number) => {
+        const list = entries.map(({ shot }) => shot);
+        const [shot] = list.splice(index, 1);
+        list.splice(index + offset, 0, shot);
+        setShots(list);
+    };
+
+    const handleRenderAll = () => {
+        const { sceneObjects, renderSettings } = useAppStore.getState();
+        const lightingInfo = describeSceneLighting(sceneObjects, renderSettings.environment);
+        for (const { camera, shot } of entries) {
+            const preset = RESOLUTION_PRESETS[shot.resolutionPreset] ?? RESOLUTION_PRESETS[0];
+            const pose = getCameraPose(sceneObjects, camera.id);
+            const capture = onCaptureRequest({ width: preset.w, height: preset.h, pose });
+            if (!capture) {
+                addNotification('error', 'Render Failed: Unable to capture scene screenshot');
+                return;
+            }
+            const rotation = new THREE.Euler().setFromQuaternion(pose.quaternion);
+            enqueueRenderJob({
+                prompt: composeShotPrompt(shot),
+                aspectRatio: preset.ratio,
+                fov: pose.fov,
+                cameraMode: 'scene',
+                cameraInfo: `${formatPose(pose.position.toArray(), [rotation.x, rotation.y, rotation.z])}, Lens: ${describeCameraLens(camera.cameraProps)}`,
+                lightingInfo,
+                baseImage: capture.beauty,
+                referencePass: renderSettings.shadingMode,
+                shotName: camera.name
+            });
+        }
+        addNotification('success', `Queued ${entries.length} shot${entries.length === 1 ? '' : 's'}`);
+        onOpenGallery();
+    };
+
+    const inputClass = "w-full bg-[#18181b] border border-white/10 rounded-md px-2 py-1 text-[11px] text-zinc-200 focus:outline-none focus:border-indigo-500 transition-colors";
+
+    return (
+        <div className="absolute top-20 left-4 bottom-28 w-80 z-20 pointer-events-auto flex flex-col bg-[#18181b]/90 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl shadow-black/40 overflow-hidden animate-slide-in-right">
+            <div className="h-11 flex items-center justify-between px-4 border-b border-white/5 shrink-0">
+                <div className="flex items-center gap-2 text-xs font-bold tracking-wider text-zinc-300"><ListVideo size={14} className="text-indigo-400" /> SHOT LIST</div>
+                <button onClick={onClose} className="p-1 rounded-full text-zinc-500 hover:text-white hover:bg-white/10 transition-colors"><X size={14} /></button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 flex flex-col gap-3 custom-scrollbar">
+                {entries.length === 0 && (
+                    <div className="text-[11px] text-zinc-500 text-center py-8 border border-dashed border-white/10 rounded-xl">No cameras in the scene</div>
+                )}
+                {entries.map(({ camera, shot }, index) => (
+                    <div key={camera.id} className={`p-2 rounded-xl border flex flex-col gap-2 ${activeCameraId === camera.id ? 'border-indigo-500/50 bg-indigo-500/10' : 'border-white/5 bg-black/20'}`}>
+                        <div className="flex gap-2">
+                            <button onClick={() => setActiveCameraId(camera.id)} className="w-24 shrink-0 rounded-md bg-black overflow-hidden flex items-center justify-center border border-white/5 hover:border-indigo-500/50 transition-colors" title="Look through this camera">
+                                {thumbnails[camera.id] ? <img src={thumbnails[camera.id]} className="w-full h-full object-contain" alt={camera.name} /> : <Loader2 size={12} className="animate-spin text-zinc-600 my-4" />}
+                            </button>
+                            <div className="flex-1 min-w-0 flex flex-col gap-1">
+                                <div className="flex items-center gap-1">
+                                    <span className="text-[10px] font-mono text-zinc-500 w-4">{index + 1}</span>
+                                    <input value={camera.name} onChange={(e) => updateSceneObject(camera.id, { name: e.target.value })} className={inputClass} />
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <select value={shot.resolutionPreset} onChange={(e) => updateShot(camera.id, { resolutionPreset: Number(e.target.value) })} className={inputClass}>
+                                        {RESOLUTION_PRESETS.map((preset, idx) => <option key={idx} value={idx}>{preset.ratio}</option>)}
+                                    </select>
+                                    <button onClick={() => moveShot(index, -1)} disabled={index === 0} className="p-1 rounded text-zinc-500 hover:text-white disabled:opacity-20" title="Move up"><ChevronUp size={12} /></button>
+                                    <button onClick={() => moveShot(index, 1)} disabled={index === entries.length - 1} className="p-1 rounded text-zinc-500 hover:text-white disabled:opacity-20" title="Move down"><ChevronDown size={12} /></button>
+                                </div>
+                                <select value={shot.style} onChange={(e) => updateShot(camera.id, { style: e.target.value as ShotStyle })} className={inputClass}>
+                                    {(Object.keys(SHOT_STYLES) as ShotStyle[]).map(style => <option key={style} value={style}>{SHOT_STYLES[style].label}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <textarea
+                            value={shot.prompt}
+                            onChange={(e) => updateShot(camera.id, { prompt: e.target.value })}
+                            placeholder="Shot prompt..."
+                            rows={2}
+                            className={`${inputClass} resize-none`}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div className="p-3 border-t border-white/5 flex gap-2 shrink-0">
+                <button onClick={() => addCameraToScene(useAppStore.getState().cameraState)} className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-[11px] font-bold text-zinc-300 flex items-center gap-1.5 transition-colors" title="Bookmark the editor view as a new camera">
+                    <Video size={12} /> Add
+                </button>
+                <button onClick={handleRenderAll} disabled={entries.length === 0} className="flex-1 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-[11px] font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-40">
+                    <Sparkles size={12} fill="currentColor" /> Render All Shots
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// Undo history as a list: clicking a step restores the scene as it was right after it
+const HistoryPanel = ({ onClose }: { onClose: () => void }) => {
+    const past = useAppStore(state => state.past);
+    const future = useAppStore(state => state.future);
+    const jumpToHistory = useAppStore(state => state.jumpToHistory);
+    const currentRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [past.length]);
+
+    // Index = number of steps applied, 0 being the oldest state still kept
+    const steps = [
+        { label: 'Oldest State', index: 0 },
+        ...past.map((entry, i) => ({ label: entry.label, index: i + 1 })),
+        ...future.map((entry, i) => ({ label: entry.label, index: past.length + i + 1 }))
+    ];
+
+    return (
+        <div className="w-64 max-h-80 flex flex-col bg-[#18181b]/90 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl shadow-black/40 overflow-hidden animate-slide-in-right">
+            <div className="h-11 flex items-center justify-between px-4 border-b border-white/5 shrink-0">
+                <div className="flex items-center gap-2 text-xs font-bold tracking-wider text-zinc-300"><History size={14} className="text-indigo-400" /> HISTORY</div>
+                <button onClick={onClose} className="p-1 rounded-full text-zinc-500 hover:text-white hover:bg-white/10 transition-colors"><X size={14} /></button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-0.5 custom-scrollbar">
+                {steps.map(({ label, index }) => {
+                    const isCurrent = index === past.length;
+                    return (
+                        <button
+                            key={index}
+                            ref={isCurrent ? currentRef : undefined}
+                            onClick={() => jumpToHistory(index)}
+                            className={`text-left px-2 py-1.5 rounded-lg text-[11px] truncate transition-colors ${
+                                isCurrent ? 'bg-indigo-500/20 text-indigo-300 font-bold' :
+                                index > past.length ? 'text-zinc-600 hover:bg-white/5 hover:text-zinc-400' :
+                                'text-zinc-300 hover:bg-white/10 hover:text-white'
+                            }`}
+                            title={label}
+                        >
+                            {label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="px-4 py-2 border-t border-white/5 text-[10px] text-zinc-500 shrink-0">
+                {past.length} of {HISTORY_LIMIT} undo steps
+            </div>
+        </div>
+    );
+};
+
+// --- Multi-Selection Gizmo ---
+// A single TransformControls pivot at the centroid of the selection. Dragging previews the
+// delta on the selected nodes and commits it as one undo step on release.
+function SelectionGizmo() {
+  const scene = useThree(state => state.scene);
+  const sceneObjects = useAppStore(state => state.sceneObjects);
+  const selectedObjectIds = useAppStore(state => state.selectedObjectIds);
+  const transformMode = useAppStore(state => state.transformMode);
+  const applySelectionDelta = useAppStore(state => state.applySelectionDelta);
+
+  const targets = useMemo(() => getTransformTargets(sceneObjects, selectedObjectIds), [sceneObjects, selectedObjectIds]);
+  const [pivot, setPivot] = useState<THREE.Group | null>(null);
+  const dragStart = useRef<{ pivot: THREE.Matrix4, nodes: { node: THREE.Object3D, world: THREE.Matrix4, type: SceneObject['type'] }[] } | null>(null);
+
+  // Re-center whenever the selection or its transforms change
+  useEffect(() => {
+      if (!pivot || targets.length === 0) return;
+      const center = new THREE.Vector3();
+      targets.forEach(o => center.add(new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(sceneObjects, o.id))));
+      pivot.position.copy(center.divideScalar(targets.length));
+      pivot.rotation.set(0, 0, 0);
+      pivot.scale.set(1, 1, 1);
+      pivot.updateMatrixWorld();
+  }, [pivot, targets, sceneObjects]);
+
+  const currentDelta = () => {
+      if (!pivot || !dragStart.current) return null;
+      pivot.updateMatrixWorld();
+      return pivot.matrixWorld.clone().multiply(dragStart.current.pivot.clone().invert());
+  };
+
+  // Single selections use the object's own gizmo
+  if (selectedObjectIds.length < 2 || targets.length === 0) return null;
+
+  return (
+      <>
+          <group ref={setPivot} userData={{ isEditorObject: true }} />
+          {pivot && (
+              <SnappingTransformControls
+                  object={pivot}
+                  mode={transformMode}
+                  onMouseDown={() => {
+                      pivot.updateMatrixWorld();
+                      dragStart.current = {
+                          pivot: pivot.matrixWorld.clone(),
+                          nodes: targets.flatMap(o => {
+                              const node = findSceneObjectNode(scene, o.id);
+                              return node ? [{ node, world: node.matrixWorld.clone(), type: o.type }] : [];
+                          })
+                      };
+                  }}
+                  onObjectChange={() => {
+                      const delta = currentDelta();
+                      if (!delta || !dragStart.current) return;
+                      const local = new THREE.Matrix4();
+                      const position = new THREE.Vector3();
+                      const quaternion = new THREE.Quaternion();
+                      const scale = new THREE.Vector3();
+                      dragStart.current.nodes.forEach(({ node, world, type }) => {
+                          local.copy(node.parent ? node.parent.matrixWorld : new THREE.Matrix4()).invert().multiply(delta).multiply(world);
+                          local.decompose(position, quaternion, scale);
+                          node.position.copy(position);
+                          // Lights only carry a position, cameras no scale
+                          if (type !== 'light') node.quaternion.copy(quaternion);
+                          if (type === 'model' || type === 'primitive' || type === 'text' || type === 'group') node.scale.copy(scale);
+                      });
+                  }}
+                  onMouseUp={() => {
+                      const delta = currentDelta();
+                      dragStart.current = null;
+                      if (delta) applySelectionDelta(delta);
+                  }}
+              />
+          )}
+      </>
+  );
+}
+
+// Resolves a marquee rectangle (normalized device coordinates) to the objects whose center falls inside it
+const BoxSelector = ({ selectRef }: { selectRef: React.MutableRefObject<any> }) => {
+    const { scene, camera } = useThree();
+    useEffect(() => {
+        selectRef.current = (rect: { x0: number, y0: number, x1: number, y1: number }): string[] => {
+            const { sceneObjects, activeCameraId } = useAppStore.getState();
+            const box = new THREE.Box3();
+            const center = new THREE.Vector3();
+            return sceneObjects.filter(obj => {
+                if (obj.type === 'group' || !obj.visible || obj.id === activeCameraId) return false;
+                const node = findSceneObjectNode(scene, obj.id);
+                if (!node) return false;
+
+                if (isMeshObject(obj)) box.setFromObject(node).getCenter(center);
+                else node.getWorldPosition(center);
+                center.project(camera);
+
+                return center.z < 1 &&
+                    center.x >= Math.min(rect.x0, rect.x1) && center.x <= Math.max(rect.x0, rect.x1) &&
+                    center.y >= Math.min(rect.y0, rect.y1) && center.y <= Math.max(rect.y0, rect.y1);
+            }).map(obj => obj.id);
+        };
+    }, [scene, camera, selectRef]);
+    return null;
+};
+
+// Pick-focus: the distance from a camera to the model surface under the cursor, measured along the camera's view axis
+const FocusPicker = ({ pickRef }: { pickRef: React.MutableRefObject<any> }) => {
+    const { scene, camera } = useThree();
+    useEffect(() => {
+        pickRef.current = (ndc: { x: number, y: number }, cameraId: string): number | null => {
+            const raycaster = new THREE.Raycaster();
+            raycaster.setFromCamera(new THREE.Vector2(ndc.x, ndc.y), camera);
+            const hit = raycaster.intersectObject(scene, true).find(h => isShadedMesh(h.object) && isRendered(h.object));
+            if (!hit) return null;
+
+            const cameraMatrix = getWorldMatrix(useAppStore.getState().sceneObjects, cameraId);
+            const position = new THREE.Vector3().setFromMatrixPosition(cameraMatrix);
+            const forward = new THREE.Vector3(0, 0, -1).transformDirection(cameraMatrix);
+            return Math.max(hit.point.sub(position).dot(forward), 0.01);
+        };
+    }, [scene, camera, pickRef]);
+    return null;
+};
+
+// Placement on geometry for the snapping tools: drop to floor and snap to the surface or vertex under the cursor
+const SnapPlacer = ({ placeRef }: { placeRef: React.MutableRefObject<any> }) => {
+    const { scene, camera } = useThree();
+    useEffect(() => {
+        placeRef.current = {
+            dropToFloor: (ids: string[]) => getDropToFloorOffsets(scene, ids),
+            snapTo: (ndc: { x: number, y: number }, mode: SurfaceSnapMode, ids: string[]) => {
+                const point = pickSnapPoint(scene, camera, ndc, mode, ids);
+                return point && getSnapOffset(scene, ids, point);
+            }
+        };
+    }, [scene, camera, placeRef]);
+    return null;
+};
+
+// Keyboard view navigation: numpad views (Ctrl for the opposite side), numpad 5 toggles orthographic,
+// F / numpad period frames the selection and A frames every visible object
+const ViewNavigator = () => {
+    const { scene, size } = useThree();
+    useEffect(() => {
+        const setView = (getView: (state: CameraState) => CameraState) => {
+            const { cameraState, activeCameraId, setActiveCameraId, setCameraState } = useAppStore.getState();
+            if (activeCameraId) setActiveCameraId(null);
+            setCameraState(getView(cameraState));
+        };
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            const { sceneObjects, selectedObjectIds, cameraState, setCameraState } = useAppStore.getState();
+
+            const preset = NUMPAD_VIEWS[e.code];
+            if (preset) {
+                e.preventDefault();
+                setView(state => getPresetView(state, preset[e.ctrlKey || e.metaKey ? 1 : 0]));
+                return;
+            }
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+            if (e.code === 'Numpad5') {
+                e.preventDefault();
+                setCameraState({ orthographic: !cameraState.orthographic });
+                return;
+            }
+
+            const frameAll = e.code === 'KeyA';
+            if (!frameAll && e.code !== 'KeyF' && e.code !== 'NumpadDecimal') return;
+            const ids = frameAll ? sceneObjects.filter(o => o.visible).map(o => o.id) : selectedObjectIds;
+            const bounds = getObjectBounds(scene, ids);
+            if (bounds.isEmpty()) return;
+            e.preventDefault();
+            setView(state => getFramingView(state, bounds, size.width / size.height));
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [scene, size]);
+    return null;
+};
+
+// --- Scene Hierarchy ---
+// Renders a SceneObject and, nested inside it, its children so transforms compose through parents
+function SceneObjectNode({ obj }: { obj: SceneObject }) {
+  const sceneObjects = useAppStore(state => state.sceneObjects);
+  const children = useMemo(() => getChildObjects(sceneObjects, obj.id), [sceneObjects, obj.id]);
+  const isSelected = useAppStore(state => state.selectedObjectIds.includes(obj.id));
+  // With several objects selected the shared SelectionGizmo takes over
+  const showGizmo = useAppStore(state => isSelected && state.selectedObjectIds.length === 1);
+  const isActiveCamera = useAppStore(state => state.activeCameraId === obj.id);
+  const transformMode = useAppStore(state => state.transformMode);
+  const setSelectedObjectId = useAppStore(state => state.setSelectedObjectId);
+  const toggleObjectSelection = useAppStore(state => state.toggleObjectSelection);
+  const updateSelectedObjectTransform = useAppStore(state => state.updateSelectedObjectTransform);
+  const removeSceneObject = useAppStore(state => state.removeSceneObject);
+
+  const onSelect = (e: any) => {
+      e.stopPropagation();
+      // Shift/Ctrl-click adds to or removes from the selection
+      const { shiftKey, ctrlKey, metaKey } = e.nativeEvent || e;
+      if (shiftKey || ctrlKey || metaKey) toggleObjectSelection(obj.id);
+      else setSelectedObjectId(obj.id);
+  };
+  const childNodes = children.map(child => <SceneObjectNode key={child.id} obj={child} />);
+
+  if (obj.type === 'group') {
+      return (
+          <GroupInstance obj={obj} isSelected={isSelected} showGizmo={showGizmo} transformMode={transformMode} onTransformChange={updateSelectedObjectTransform}>
+              {childNodes}
+          </GroupInstance>
+      );
+  }
+
+  if (obj.type === 'light') {
+      return (
+          <LightInstance obj={obj} isSelected={isSelected} showGizmo={showGizmo} transformMode={transformMode} onSelect={onSelect} onTransformChange={updateSelectedObjectTransform}>
+              {childNodes}
+          </LightInstance>
+      );
+  }
+
+  if (obj.type === 'camera') {
+      return (
+          <CameraInstance obj={obj} isSelected={isSelected} showGizmo={showGizmo} isActive={isActiveCamera} transformMode={transformMode} onSelect={onSelect} onTransformChange={updateSelectedObjectTransform}>
+              {childNodes}
+          </CameraInstance>
+      );
+  }
+
+  if (obj.type === 'text') {
+      if (!obj.textProps) return null;
+      return (
+          <TextInstance
+              id={obj.id}
+              textProps={obj.textProps}
+              isSelected={isSelected}
+              showGizmo={showGizmo}
+              locked={obj.locked}
+              visible={obj.visible}
+              transform={obj.transform}
+              transformMode={transformMode}
+              materialOverrides={obj.materialOverrides}
+              array={obj.array}
+              onSelect={onSelect}
+              onTransformChange={updateSelectedObjectTransform}
+          >
+              {childNodes}
+          </TextInstance>
+      );
+  }
+
+  if (obj.type === 'primitive') {
+      if (!obj.primitiveProps) return null;
+      return (
+          <PrimitiveInstance
+              id={obj.id}
+              primitiveProps={obj.primitiveProps}
+              isSelected={isSelected}
+              showGizmo={showGizmo}
+              locked={obj.locked}
+              visible={obj.visible}
+              transform={obj.transform}
+              transformMode={transformMode}
+              materialOverrides={obj.materialOverrides}
+              array={obj.array}
+              onSelect={onSelect}
+              onTransformChange={updateSelectedObjectTransform}
+          >
+              {childNodes}
+          </PrimitiveInstance>
+      );
+  }
+
+  const safeUrl = obj.url || null;
+  if (!safeUrl) return null;
+
+  return (
+      <ModelErrorBoundary onReset={() => removeSceneObject(obj.id)} modelUrl={safeUrl}>
+          <ModelInstance 
+              id={obj.id}
+              url={safeUrl}
+              source={{ format: obj.format, resources: obj.resources }}
+              isSelected={isSelected}
+              showGizmo={showGizmo}
+              locked={obj.locked}
+              visible={obj.visible}
+              transform={obj.transform}
+              transformMode={transformMode}
+              materialOverrides={obj.materialOverrides}
+              array={obj.array}
+              onSelect={onSelect}
+              onTransformChange={updateSelectedObjectTransform}
+          >
+              {childNodes}
+          </ModelInstance>
+      </ModelErrorBoundary>
+  );
+}
+
+// Letterboxes the viewport to the render preset's aspect, the same rect the captures use (see getSafeFrameRect)
+const SafeFrameOverlay = ({ settings, preset }: { settings: SafeFrameSettings, preset: typeof RESOLUTION_PRESETS[number] }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const { width, height } = size;
+    const frame = width > 0 && height > 0 ? getSafeFrameRect(width, height, preset.w / preset.h) : null;
+    const inset = (fraction: number) => frame && {
+        x: frame.x + frame.width * (1 - fraction) / 2,
+        y: frame.y + frame.height * (1 - fraction) / 2,
+        width: frame.width * fraction,
+        height: frame.height * fraction
+    };
+    const actionSafe = inset(0.9);
+    const titleSafe = inset(0.8);
+
+    return (
+        <div ref={containerRef} className="absolute inset-0 z-10 pointer-events-none">
+            {frame && (
+                <svg width={width} height={height} className="absolute inset-0">
+                    <path fillRule="evenodd" fill="rgba(0,0,0,0.55)" d={`M0 0H${width}V${height}H0Z M${frame.x} ${frame.y}h${frame.width}v${frame.height}h${-frame.width}Z`} />
+                    <rect x={frame.x + 0.5} y={frame.y + 0.5} width={frame.width - 1} height={frame.height - 1} fill="none" stroke="rgba(255,255,255,0.6)" />
+                    {settings.thirds && [1, 2].map(i => (
+                        <g key={i} stroke="rgba(255,255,255,0.3)">
+                            <line x1={frame.x + frame.width * i / 3} y1={frame.y} x2={frame.x + frame.width * i / 3} y2={frame.y + frame.height} />
+                            <line x1={frame.x} y1={frame.y + frame.height * i / 3} x2={frame.x + frame.width} y2={frame.y + frame.height * i / 3} />
+                        </g>
+                    ))}
+                    {settings.center && (
+                        <g stroke="rgba(255,255,255,0.5)">
+                            <line x1={width / 2 - 12} y1={height / 2} x2={width / 2 + 12} y2={height / 2} />
+                            <line x1={width / 2} y1={height / 2 - 12} x2={width / 2} y2={height / 2 + 12} />
+                        </g>
+                    )}
+                    {settings.titleSafe && actionSafe && titleSafe && (
+                        <g fill="none" strokeDasharray="4 4">
+                            <rect {...actionSafe} stroke="rgba(250,204,21,0.45)" />
+                            <rect {...titleSafe} stroke="rgba(56,189,248,0.45)" />
+                        </g>
+                    )}
+                </svg>
+            )}
+            {frame && (
+                <div className="absolute text-[10px] font-mono text-white/60 px-1.5 py-0.5" style={{ left: frame.x, top: frame.y }}>
+                    {preset.ratio} · {preset.w}×{preset.h}
+                </div>
+            )}
+        </div>
+    );
+};
+
 export default function SceneViewer() {
   // Use Selectors for granular subscription to store
   // Prevents re-render on unrelated changes (e.g. Asset status updates)
   const sceneObjects = useAppStore(state => state.sceneObjects);
   const renderSettings = useAppStore(state => state.renderSettings);
-  const selectedObjectId = useAppStore(state => state.selectedObjectId);
-  const transformMode = useAppStore(state => state.transformMode);
   const activeCameraId = useAppStore(state => state.activeCameraId);
+  const activeCameraObj = sceneObjects.find(o => o.id === activeCameraId);
   
   // Actions are stable, but good practice to select them or use `useAppStore.getState()` if pure
   const setSelectedObjectId = useAppStore(state => state.setSelectedObjectId);
-  const updateSelectedObjectTransform = useAppStore(state => state.updateSelectedObjectTransform);
-  const removeSceneObject = useAppStore(state => state.removeSceneObject);
   const addAsset = useAppStore(state => state.addAsset);
   const updateAsset = useAppStore(state => state.updateAsset);
   const addModelToScene = useAppStore(state => state.addModelToScene);
@@ -925,8 +2493,125 @@ export default function SceneViewer() {
   const [progress, setProgress] = useState(0);
   const [statusText, setStatusText] = useState('');
   const [showRenderWindow, setShowRenderWindow] = useState(false);
+  const [showSequenceWindow, setShowSequenceWindow] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [showShotList, setShowShotList] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [stats, setStats] = useState({ verts: 0, tris: 0, objects: 0 });
-  const captureRef = useRef<(() => string) | null>(null);
+  const captureRef = useRef<((request: CaptureRequest) => CaptureResult) | null>(null);
+  const exportRef = useRef<((objects: SceneObject[], options: GLBExportOptions) => Promise<Blob>) | null>(null);
+  const boxSelectRef = useRef<((rect: { x0: number, y0: number, x1: number, y1: number }) => string[]) | null>(null);
+  const focusPickRef = useRef<((ndc: { x: number, y: number }, cameraId: string) => number | null) | null>(null);
+  const snapPlaceRef = useRef<{
+      dropToFloor: (ids: string[]) => Record<string, [number, number, number]>,
+      snapTo: (ndc: { x: number, y: number }, mode: SurfaceSnapMode, ids: string[]) => [number, number, number] | null
+  } | null>(null);
+  const focusPickCameraId = useAppStore(state => state.focusPickCameraId);
+  const activeCameraProps = activeCameraObj && resolveCameraProps(activeCameraObj.cameraProps);
+  const cameraOrthographic = useAppStore(state => !!state.cameraState.orthographic);
+
+  useEffect(() => {
+      if (!focusPickCameraId) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') useAppStore.getState().setFocusPickCameraId(null);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [focusPickCameraId]);
+
+  const handleFocusPick = (e: React.PointerEvent<HTMLDivElement>) => {
+      const { sceneObjects, updateSceneObject, setFocusPickCameraId } = useAppStore.getState();
+      const cam = sceneObjects.find(o => o.id === focusPickCameraId);
+      setFocusPickCameraId(null);
+      if (!cam || !focusPickRef.current) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      const distance = focusPickRef.current({ x: ((e.clientX - rect.left) / rect.width) * 2 - 1, y: -((e.clientY - rect.top) / rect.height) * 2 + 1 }, cam.id);
+      if (distance === null) {
+          addNotification('info', 'No surface under the cursor to focus on');
+          return;
+      }
+      updateSceneObject(cam.id, { cameraProps: { ...resolveCameraProps(cam.cameraProps), depthOfField: true, focusDistance: distance } });
+  };
+
+  // Snapping tools: act on the unlocked top-level objects of the selection
+  const [surfaceSnapMode, setSurfaceSnapMode] = useState<SurfaceSnapMode | null>(null);
+  const getPlacementIds = () => {
+      const { sceneObjects, selectedObjectIds } = useAppStore.getState();
+      return getTransformTargets(sceneObjects, selectedObjectIds).map(o => o.id);
+  };
+
+  useEffect(() => {
+      if (!surfaceSnapMode) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') setSurfaceSnapMode(null);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [surfaceSnapMode]);
+
+  const handleDropToFloor = () => {
+      const ids = getPlacementIds();
+      if (ids.length === 0 || !snapPlaceRef.current) {
+          addNotification('info', 'Select the objects to drop first');
+          return;
+      }
+      useAppStore.getState().applyWorldOffsets(snapPlaceRef.current.dropToFloor(ids), 'Drop to Floor');
+  };
+
+  const handleToggleSurfaceSnap = (mode: SurfaceSnapMode) => {
+      if (surfaceSnapMode === mode) setSurfaceSnapMode(null);
+      else if (getPlacementIds().length === 0) addNotification('info', 'Select the objects to place first');
+      else setSurfaceSnapMode(mode);
+  };
+
+  const handleSurfaceSnap = (e: React.PointerEvent<HTMLDivElement>) => {
+      const mode = surfaceSnapMode;
+      setSurfaceSnapMode(null);
+      const ids = getPlacementIds();
+      if (!mode || ids.length === 0 || !snapPlaceRef.current) return;
+
+      const rect = e.currentTarget.getBoundingClientRect();
+      const offset = snapPlaceRef.current.snapTo({ x: ((e.clientX - rect.left) / rect.width) * 2 - 1, y: -((e.clientY - rect.top) / rect.height) * 2 + 1 }, mode, ids);
+      if (!offset) {
+          addNotification('info', 'No surface under the cursor to snap to');
+          return;
+      }
+      useAppStore.getState().applyWorldOffsets(Object.fromEntries(ids.map(id => [id, offset])), SURFACE_SNAP_LABELS[mode]);
+  };
+
+  // Box (marquee) select: armed from the toolbar, one drag over the viewport selects what's inside
+  const [boxSelectActive, setBoxSelectActive] = useState(false);
+  const [marquee, setMarquee] = useState<{ x0: number, y0: number, x1: number, y1: number } | null>(null);
+
+  useEffect(() => {
+      if (!boxSelectActive) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.key === 'Escape') {
+              setBoxSelectActive(false);
+              setMarquee(null);
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [boxSelectActive]);
+
+  const handleMarqueeEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      if (marquee && boxSelectRef.current) {
+          const toNdc = (x: number, y: number) => [(x / rect.width) * 2 - 1, -(y / rect.height) * 2 + 1];
+          const [x0, y0] = toNdc(marquee.x0, marquee.y0);
+          const [x1, y1] = toNdc(marquee.x1, marquee.y1);
+          const ids = boxSelectRef.current({ x0, y0, x1, y1 });
+
+          // Shift/Ctrl extends the current selection
+          const { selectedObjectIds, setSelectedObjectIds } = useAppStore.getState();
+          const additive = e.shiftKey || e.ctrlKey || e.metaKey;
+          setSelectedObjectIds(additive ? [...selectedObjectIds, ...ids.filter(id => !selectedObjectIds.includes(id))] : ids);
+      }
+      setMarquee(null);
+      setBoxSelectActive(false);
+  };
 
   // --- Voice Input State ---
   const [isRecording, setIsRecording] = useState(false);
@@ -1095,7 +2780,7 @@ export default function SceneViewer() {
 
     const newId = uuidv4();
     
-    addAsset({ id: newId, originalName: activePrompt, imageUrl: "https://placehold.co/100x100/18181b/666?text=Tripo+AI", status: AssetStatus.PENDING, modelUrl: null, createdAt: Date.now() });
+    addAsset({ id: newId, originalName: activePrompt, imageUrl: "https://placehold.co/100x100/18181b/666?text=Tripo+AI", status: AssetStatus.PENDING, modelUrl: null, createdAt: Date.now(), prompt: activePrompt });
     
     const originalPrompt = activePrompt;
     setPrompt(''); // Clear UI
@@ -1115,10 +2800,10 @@ export default function SceneViewer() {
         setStatusText('Submitting Task...');
         const taskId = await createTextTo3DTask(optimizedPrompt);
         
-        updateAsset(newId, { status: AssetStatus.PROCESSING });
+        updateAsset(newId, { status: AssetStatus.PROCESSING, taskId });
         setStatusText('Queued');
         
-        pollTripoTask(taskId, (status, modelUrl, prog) => {
+        pollTripoTask(taskId, async (status, modelUrl, prog) => {
             // Update local progress UI
             setProgress(prog || 0);
             
@@ -1129,15 +2814,28 @@ export default function SceneViewer() {
                 else setStatusText('Applying Texture...');
             }
 
-            // Update Global Asset Store
-            updateAsset(newId, { status, modelUrl });
-
             if (status === AssetStatus.COMPLETED && modelUrl) {
+                // Keep a local copy in the asset library so the generation survives a reload
+                let finalUrl = modelUrl;
+                try {
+                    setStatusText('Downloading Model...');
+                    finalUrl = await uploadFileToStorage(await downloadTripoModel(modelUrl));
+                } catch (downloadErr) {
+                    console.warn('Local download failed, using remote link', downloadErr);
+                }
+
+                updateAsset(newId, { status, modelUrl: finalUrl });
                 addNotification('success', 'Model Generated');
-                addModelToScene(modelUrl, originalPrompt);
+                addModelToScene(finalUrl, originalPrompt);
                 setIsGenerating(false);
                 setProgress(100);
-            } else if (status === AssetStatus.ERROR) {
+                return;
+            }
+
+            // Update Global Asset Store
+            updateAsset(newId, { status, modelUrl });
+
+            if (status === AssetStatus.ERROR) {
                 addNotification('error', 'Generation Failed');
                 setIsGenerating(false);
                 setStatusText('Failed');
@@ -1150,14 +2848,59 @@ export default function SceneViewer() {
     }
   };
 
+  const handleExportGLB = async (options: GLBExportOptions) => {
+      if (!exportRef.current) return;
+      // Hidden objects hide their children, exporting a selection includes its children
+      const hidden = new Set<string>();
+      sceneObjects.filter(o => !o.visible).forEach(o => {
+          hidden.add(o.id);
+          getDescendantIds(sceneObjects, o.id).forEach(id => hidden.add(id));
+      });
+      const selection = new Set<string>();
+      useAppStore.getState().selectedObjectIds.forEach(id => {
+          selection.add(id);
+          getDescendantIds(sceneObjects, id).forEach(d => selection.add(d));
+      });
+      const objects = sceneObjects.filter(obj => 
+          !hidden.has(obj.id) && (!options.selectionOnly || selection.has(obj.id))
+      );
+      if (objects.length === 0) {
+          addNotification('info', options.selectionOnly ? 'Select an object to export' : 'Scene is empty');
+          return;
+      }
+
+      try {
+          addNotification('info', options.draco ? 'Exporting GLB (Draco compression)...' : 'Exporting GLB...');
+          const blob = await exportRef.current(objects, options);
+          downloadBlob(blob, `${useAppStore.getState().projectName || 'scene'}.glb`);
+          addNotification('success', `Exported ${objects.length} object(s) to GLB`);
+      } catch (e: any) {
+          console.error(e);
+          addNotification('error', `Export Failed: ${e.message}`);
+      }
+  };
+
   const handleLoadDemo = () => addModelToScene('https://cdn.jsdelivr.net/gh/KhronosGroup/glTF-Sample-Models@master/2.0/DamagedHelmet/glTF-Binary/DamagedHelmet.glb', 'Damaged Helmet');
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
       e.preventDefault();
+
+      // Files dragged from the OS (a model plus its MTL/textures/.bin are imported as one bundle)
+      if (e.dataTransfer.files.length > 0) {
+          try {
+              const { imported } = await importModelFiles(Array.from(e.dataTransfer.files));
+              if (imported.length === 0) addNotification('error', 'No supported model file in drop');
+              else addNotification('success', `Imported ${imported.join(', ')}`);
+          } catch (err: any) {
+              addNotification('error', `Import failed: ${err.message}`);
+          }
+          return;
+      }
+
       try {
           const data = JSON.parse(e.dataTransfer.getData('application/json'));
           if (data && data.url) {
-              addModelToScene(data.url, data.name || 'Model');
+              addModelToScene(data.url, data.name || 'Model', { format: data.format, resources: data.resources });
           }
       } catch (err) {
           console.error("Invalid drag data");
@@ -1170,7 +2913,20 @@ export default function SceneViewer() {
         onDragOver={(e) => e.preventDefault()}
         onDrop={handleDrop}
     >
-      <Toolbar onToggleRender={() => setShowRenderWindow(!showRenderWindow)} />
+      <Toolbar 
+        onToggleRender={() => setShowRenderWindow(!showRenderWindow)} 
+        onToggleSequence={() => setShowSequenceWindow(!showSequenceWindow)}
+        onToggleGallery={() => setShowGallery(!showGallery)}
+        onToggleShotList={() => setShowShotList(!showShotList)}
+        onToggleHistory={() => setShowHistory(!showHistory)}
+        historyOpen={showHistory}
+        onExportGLB={handleExportGLB} 
+        boxSelectActive={boxSelectActive}
+        onToggleBoxSelect={() => setBoxSelectActive(!boxSelectActive)}
+        surfaceSnapMode={surfaceSnapMode}
+        onToggleSurfaceSnap={handleToggleSurfaceSnap}
+        onDropToFloor={handleDropToFloor}
+      />
       
       {/* Absolute "AI RENDER" button removed from here. */}
 
@@ -1193,6 +2949,8 @@ export default function SceneViewer() {
              </div>
           </div>
 
+          {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} />}
+
           {activeCameraId && (
               <div className="flex items-center gap-3 bg-red-900/80 text-white px-4 py-2.5 rounded-xl shadow-lg border border-red-500/50 animate-pulse">
                   <Video size={16} fill="currentColor" />
@@ -1201,7 +2959,10 @@ export default function SceneViewer() {
           )}
       </div>
       
-      {showRenderWindow && <RenderWindow onClose={() => setShowRenderWindow(false)} onCaptureRequest={() => captureRef.current ? captureRef.current() : null} />}
+      {showRenderWindow && <RenderWindow onClose={() => setShowRenderWindow(false)} onCaptureRequest={(request: CaptureRequest) => captureRef.current ? captureRef.current(request) : null} onOpenGallery={() => setShowGallery(true)} />}
+      {showGallery && <RenderGallery onClose={() => setShowGallery(false)} />}
+      {showShotList && <ShotListPanel onClose={() => setShowShotList(false)} onCaptureRequest={(request) => captureRef.current ? captureRef.current(request) : null} onOpenGallery={() => setShowGallery(true)} />}
+      {showSequenceWindow && <SequenceRenderWindow onClose={() => setShowSequenceWindow(false)} onCaptureRequest={(request) => captureRef.current ? captureRef.current(request) : null} />}
 
       {sceneObjects.length === 0 && (
           <div className="absolute inset-0 flex flex-col items-center justify-center text-zinc-500 z-0 pointer-events-none animate-fade-in-up">
@@ -1217,6 +2978,49 @@ export default function SceneViewer() {
       )}
 
       <div className="flex-1 cursor-crosshair relative w-full h-full">
+          {boxSelectActive && (
+              <div
+                className="absolute inset-0 z-20 cursor-crosshair"
+                onPointerDown={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    const x = e.clientX - rect.left, y = e.clientY - rect.top;
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    setMarquee({ x0: x, y0: y, x1: x, y1: y });
+                }}
+                onPointerMove={(e) => {
+                    if (!marquee) return;
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    setMarquee({ ...marquee, x1: e.clientX - rect.left, y1: e.clientY - rect.top });
+                }}
+                onPointerUp={handleMarqueeEnd}
+              >
+                  {marquee && (
+                      <div 
+                        className="absolute border border-indigo-400 bg-indigo-500/10 pointer-events-none"
+                        style={{
+                            left: Math.min(marquee.x0, marquee.x1),
+                            top: Math.min(marquee.y0, marquee.y1),
+                            width: Math.abs(marquee.x1 - marquee.x0),
+                            height: Math.abs(marquee.y1 - marquee.y0)
+                        }}
+                      />
+                  )}
+              </div>
+          )}
+          {surfaceSnapMode && (
+              <div className="absolute inset-0 z-20 cursor-crosshair" onPointerDown={handleSurfaceSnap}>
+                  <div className="absolute top-4 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-lg bg-[#18181b]/90 border border-white/10 text-[11px] font-bold text-zinc-300 pointer-events-none">
+                      {SURFACE_SNAP_LABELS[surfaceSnapMode]}: click where the selection should go · Esc to cancel
+                  </div>
+              </div>
+          )}
+          {focusPickCameraId && (
+              <div className="absolute inset-0 z-20 cursor-crosshair" onPointerDown={handleFocusPick}>
+                  <div className="absolute top-4 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-lg bg-[#18181b]/90 border border-white/10 text-[11px] font-bold text-zinc-300 pointer-events-none">
+                      Click a surface to set the focus distance · Esc to cancel
+                  </div>
+              </div>
+          )}
           <Canvas 
             shadows 
             camera={{ position: [5, 5, 5], fov: 50, near: 0.1, far: 1000 }} 
@@ -1226,78 +3030,32 @@ export default function SceneViewer() {
             }}
           >
             <ViewportCapturer captureRef={captureRef} />
+            {renderSettings.shadingMode === 'depth' && <DepthRangeUpdater />}
+            <SceneExporter exportRef={exportRef} />
+            <BoxSelector selectRef={boxSelectRef} />
+            <FocusPicker pickRef={focusPickRef} />
+            <SnapPlacer placeRef={snapPlaceRef} />
+            <ViewNavigator />
+            <SelectionGizmo />
             <SceneStatsUpdater onUpdate={setStats} />
             <CameraManager /> 
+            {!activeCameraObj && cameraOrthographic && <OrthographicCamera makeDefault near={0.1} far={1000} />}
+            {activeCameraObj && <ActiveSceneCamera obj={activeCameraObj} />}
+            {activeCameraProps?.depthOfField && <DepthOfFieldPreview cameraProps={activeCameraProps} />}
             
             <ambientLight intensity={0.4} />
             <hemisphereLight intensity={0.5} groundColor="#000000" color="#333333" />
             
-            <Suspense fallback={<ModelLoader />}>
-                {sceneObjects.map((obj) => {
-                    if (obj.type === 'light') {
-                            return (
-                            <LightInstance 
-                                key={obj.id}
-                                obj={obj}
-                                isSelected={selectedObjectId === obj.id}
-                                transformMode={transformMode}
-                                onSelect={(e) => {
-                                    e.stopPropagation();
-                                    setSelectedObjectId(obj.id);
-                                }}
-                                onTransformChange={updateSelectedObjectTransform}
-                            />
-                            )
-                    }
-
-                    if (obj.type === 'camera') {
-                        return (
-                            <CameraInstance
-                                key={obj.id}
-                                obj={obj}
-                                isSelected={selectedObjectId === obj.id}
-                                isActive={activeCameraId === obj.id}
-                                transformMode={transformMode}
-                                onSelect={(e) => {
-                                    e.stopPropagation();
-                                    setSelectedObjectId(obj.id);
-                                }}
-                                onTransformChange={updateSelectedObjectTransform}
-                            />
-                        )
-                    }
+            <SceneEnvironment env={renderSettings.environment} />
 
-                    const safeUrl = obj.url || null;
-                    if (!safeUrl) return null;
-
-                    return (
-                            <ModelErrorBoundary key={obj.id} onReset={() => removeSceneObject(obj.id)} modelUrl={safeUrl}>
-                            <ModelInstance 
-                                id={obj.id}
-                                url={safeUrl}
-                                isSelected={selectedObjectId === obj.id}
-                                locked={obj.locked}
-                                visible={obj.visible}
-                                transform={obj.transform}
-                                transformMode={transformMode}
-                                onSelect={(e) => {
-                                    e.stopPropagation();
-                                    setSelectedObjectId(obj.id);
-                                }}
-                                onTransformChange={updateSelectedObjectTransform}
-                            />
-                            </ModelErrorBoundary>
-                    );
-                })}
-                <Environment preset="city" blur={0.8} background={false} /> 
+            <Suspense fallback={<ModelLoader />}>
+                {getChildObjects(sceneObjects, null).map(obj => <SceneObjectNode key={obj.id} obj={obj} />)}
                 <ContactShadows position={[0, -0.01, 0]} opacity={0.4} scale={20} blur={2.5} far={4} color="#000000" />
             </Suspense>
 
-            {renderSettings.gridVisible && <Grid name="GlobalGrid" infiniteGrid fadeDistance={30} sectionColor="#4f4f4f" cellColor="#1a1a1a" position={[0, -0.01, 0]} />}
-            <GizmoHelper alignment="bottom-right" margin={[80, 80]}>
-                <GizmoViewport axisColors={['#f43f5e', '#10b981', '#3b82f6']} labelColor="white" />
-            </GizmoHelper>
+            {renderSettings.gridVisible && <Grid name="GlobalGrid" infiniteGrid cellSize={renderSettings.snapping.translate} sectionSize={renderSettings.snapping.translate * 2} fadeDistance={30} sectionColor="#4f4f4f" cellColor="#1a1a1a" position={[0, -0.01, 0]} />}
           </Canvas>
+          {activeCameraId && renderSettings.safeFrame.visible && <SafeFrameOverlay settings={renderSettings.safeFrame} preset={RESOLUTION_PRESETS[renderSettings.resolutionPreset]} />}
       </div>
 
       {/* Progress & Input Area */}
@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { AnimatableProperty, AnimationTrack, InterpolationMode, SceneObject } from '../types';
+import { getAnimatableProperties, INTERPOLATION_LABELS, PROPERTY_LABELS, snapToFrame } from '../services/animationService';
+import { Play, Pause, SkipBack, Repeat, Diamond, Plus, Clock, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+
+const FPS_OPTIONS = [24, 25, 30, 60];
+
+// Row in the track area: one per animatable property of an object
+interface PropertyRow {
+    obj: SceneObject;
+    property: AnimatableProperty;
+    track?: AnimationTrack;
+}
+
+export default function TimelinePanel() {
+  const {
+    sceneObjects,
+    selectedObjectIds,
+    animation,
+    animationTime,
+    isAnimationPlaying,
+    setAnimationTime,
+    setAnimationPlaying,
+    updateAnimationSettings,
+    addKeyframes,
+    updateKeyframe,
+    removeKeyframe
+  } = useAppStore();
+
+  const [collapsed, setCollapsed] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<{ trackId: string, keyframeId: string } | null>(null);
+  // Time of the keyframe being dragged, committed as a single undo step on release
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  const trackAreaRef = useRef<HTMLDivElement>(null);
+
+  const { duration, fps, loop, tracks } = animation;
+
+  // Objects shown: everything animated plus the current selection
+  const objects = useMemo(() => sceneObjects.filter(o =>
+      o.type !== 'group' && (selectedObjectIds.includes(o.id) || tracks.some(t => t.objectId === o.id))
+  ), [sceneObjects, selectedObjectIds, tracks]);
+
+  const rowsFor = (obj: SceneObject): PropertyRow[] => getAnimatableProperties(obj).map(property => ({
+      obj,
+      property,
+      track: tracks.find(t => t.objectId === obj.id && t.property === property)
+  }));
+
+  const selectedTrack = selectedKey ? tracks.find(t => t.id === selectedKey.trackId) : undefined;
+  const selectedKeyframe = selectedTrack?.keyframes.find(k => k.id === selectedKey?.keyframeId);
+
+  // Playback: advance from the time playback started, frame-aligned to keep store updates at the animation fps
+  useEffect(() => {
+      if (!isAnimationPlaying) return;
+
+      const state = useAppStore.getState();
+      const startTime = state.animationTime >= state.animation.duration ? 0 : state.animationTime;
+      const startedAt = performance.now();
+      let lastFrame = -1;
+      let frameId = 0;
+
+      const tick = (now: number) => {
+          const { animation, setAnimationTime, setAnimationPlaying } = useAppStore.getState();
+          let t = startTime + (now - startedAt) / 1000;
+          if (t >= animation.duration) {
+              if (animation.loop && animation.duration > 0) {
+                  t = t % animation.duration;
+              } else {
+                  setAnimationTime(animation.duration);
+                  setAnimationPlaying(false);
+                  return;
+              }
+          }
+          const frame = Math.round(t * animation.fps);
+          if (frame !== lastFrame) {
+              lastFrame = frame;
+              setAnimationTime(frame / animation.fps);
+          }
+          frameId = requestAnimationFrame(tick);
+      };
+      frameId = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frameId);
+  }, [isAnimationPlaying]);
+
+  // Drop the keyframe selection when it disappears (undo, removal)
+  useEffect(() => {
+      if (selectedKey && !selectedKeyframe) setSelectedKey(null);
+  }, [selectedKey, selectedKeyframe]);
+
+  const timeFromClientX = (clientX: number) => {
+      const rect = trackAreaRef.current?.getBoundingClientRect();
+      if (!rect || rect.width === 0) return 0;
+      const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+      return snapToFrame(ratio * duration, fps);
+  };
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+      setAnimationPlaying(false);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setAnimationTime(timeFromClientX(e.clientX));
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+      if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+      setAnimationTime(timeFromClientX(e.clientX));
+  };
+
+  const handleDeleteKeyframe = () => {
+      if (!selectedKey) return;
+      removeKeyframe(selectedKey.trackId, selectedKey.keyframeId);
+      setSelectedKey(null);
+  };
+
+  const toPercent = (time: number) => `${duration > 0 ? (time / duration) * 100 : 0}%`;
+
+  // Ruler ticks every second (every frame-ish second for short clips)
+  const ticks = useMemo(() => {
+      const step = duration > 20 ? 5 : duration > 8 ? 2 : 1;
+      const result: number[] = [];
+      for (let t = 0; t <= duration + 1e-6; t += step) result.push(t);
+      return result;
+  }, [duration]);
+
+  return (
+    <div
+        className="shrink-0 border-t border-white/5 bg-[#18181b] flex flex-col select-none outline-none"
+        tabIndex={-1}
+        onKeyDown={(e) => {
+            if ((e.key === 'Delete' || e.key === 'Backspace') && selectedKey) {
+                e.preventDefault();
+                handleDeleteKeyframe();
+            }
+        }}
+    >
+      {/* Header / Transport */}
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-white/5 text-xs">
+          <div className="flex items-center gap-2 font-bold text-zinc-100 tracking-wide">
+              <Clock size={14} className="text-indigo-500" />
+              TIMELINE
+          </div>
+
+          <div className="flex items-center gap-1 pl-3 border-l border-white/10">
+              <button
+                onClick={() => { setAnimationPlaying(false); setAnimationTime(0); }}
+                className="p-1.5 rounded hover:bg-white/10 text-zinc-400 hover:text-zinc-100 transition-colors"
+                title="Go to Start"
+              >
+                  <SkipBack size={14} />
+              </button>
+              <button
+                onClick={() => setAnimationPlaying(!isAnimationPlaying)}
+                className={`p-1.5 rounded transition-colors ${isAnimationPlaying ? 'bg-indigo-500/20 text-indigo-300' : 'hover:bg-white/10 text-zinc-400 hover:text-zinc-100'}`}
+                title={isAnimationPlaying ? 'Pause' : 'Play'}
+              >
+                  {isAnimationPlaying ? <Pause size={14} /> : <Play size={14} />}
+              </button>
+              <button
+                onClick={() => updateAnimationSettings({ loop: !loop })}
+                className={`p-1.5 rounded transition-colors ${loop ? 'text-indigo-400 bg-indigo-500/10' : 'text-zinc-500 hover:bg-white/10 hover:text-zinc-200'}`}
+                title="Loop"
+              >
+                  <Repeat size={14} />
+              </button>
+          </div>
+
+          <div className="font-mono text-zinc-300 min-w-[120px]">
+              {animationTime.toFixed(2)}s <span className="text-zinc-600">/ F{Math.round(animationTime * fps)}</span>
+          </div>
+
+          <label className="flex items-center gap-1.5 text-[10px] text-zinc-500 font-bold uppercase">
+              Length
+              <input
+                type="number" min={0.5} step={0.5}
+                value={duration}
+                onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value > 0) updateAnimationSettings({ duration: value });
+                }}
+                className="w-14 bg-[#09090b] border border-white/10 rounded px-1.5 py-0.5 text-xs text-zinc-100 font-mono focus:border-indigo-500 outline-none"
+              />
+          </label>
+
+          <label className="flex items-center gap-1.5 text-[10px] text-zinc-500 font-bold uppercase">
+              FPS
+              <select
+                value={fps}
+                onChange={(e) => updateAnimationSettings({ fps: parseInt(e.target.value) })}
+                className="bg-[#09090b] border border-white/10 rounded px-1 py-0.5 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+              >
+                  {FPS_OPTIONS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+          </label>
+
+          <div className="flex-1" />
+
+          {/* Selected Keyframe */}
+          {selectedKeyframe && selectedKey && (
+              <div className="flex items-center gap-2 animate-fade-in-up">
+                  <span className="text-[10px] text-zinc-500 font-bold uppercase">Key @ {selectedKeyframe.time.toFixed(2)}s</span>
+                  <select
+                    value={selectedKeyframe.interpolation}
+                    onChange={(e) => updateKeyframe(selectedKey.trackId, selectedKey.keyframeId, { interpolation: e.target.value as InterpolationMode })}
+                    className="bg-[#09090b] border border-white/10 rounded px-1 py-0.5 text-xs text-zinc-100 outline-none focus:border-indigo-500"
+                    title="Interpolation towards the next keyframe"
+                  >
+                      {(Object.keys(INTERPOLATION_LABELS) as InterpolationMode[]).map(mode => (
+                          <option key={mode} value={mode}>{INTERPOLATION_LABELS[mode]}</option>
+                      ))}
+                  </select>
+                  <button onClick={handleDeleteKeyframe} className="p-1.5 rounded hover:bg-red-500/10 text-zinc-500 hover:text-red-400 transition-colors" title="Delete Keyframe">
+                      <Trash2 size={12} />
+                  </button>
+              </div>
+          )}
+
+          <button
+            onClick={() => addKeyframes(selectedObjectIds)}
+            disabled={selectedObjectIds.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold transition-all disabled:opacity-30 disabled:hover:bg-indigo-600"
+            title="Key all properties of the selection at the playhead"
+          >
+              <Diamond size={10} fill="currentColor" /> KEY
+          </button>
+
+          <button onClick={() => setCollapsed(!collapsed)} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-zinc-200" title={collapsed ? 'Expand' : 'Collapse'}>
+              {collapsed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          </button>
+      </div>
+
+      {!collapsed && (
+          <div className="flex h-44 min-h-0">
+              {/* Labels */}
+              <div className="w-44 shrink-0 border-r border-white/5 overflow-hidden flex flex-col">
+                  <div className="h-6 border-b border-white/5 shrink-0" />
+                  <div className="flex-1 overflow-y-auto custom-scrollbar">
+                      {objects.map(obj => (
+                          <div key={obj.id}>
+                              <div className="h-6 px-3 flex items-center text-[11px] font-bold text-zinc-200 truncate bg-white/[0.02]">{obj.name}</div>
+                              {rowsFor(obj).map(row => (
+                                  <div key={row.property} className="group h-6 pl-6 pr-2 flex items-center justify-between text-[10px] text-zinc-500">
+                                      <span className={row.track ? 'text-zinc-300' : ''}>{PROPERTY_LABELS[row.property]}</span>
+                                      <button
+                                        onClick={() => addKeyframes([obj.id], [row.property])}
+                                        className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-white/10 hover:text-indigo-300 transition-opacity"
+                                        title={`Key ${PROPERTY_LABELS[row.property]}`}
+                                      >
+                                          <Plus size={10} />
+                                      </button>
+                                  </div>
+                              ))}
+                          </div>
+                      ))}
+                      {objects.length === 0 && (
+                          <div className="px-3 py-2 text-[10px] text-zinc-600 italic">Select an object to animate</div>
+                      )}
+                  </div>
+              </div>
+
+              {/* Tracks */}
+              <div className="flex-1 relative min-w-0 flex flex-col" ref={trackAreaRef}>
+                  {/* Ruler (scrub area) */}
+                  <div
+                    className="h-6 shrink-0 relative border-b border-white/5 cursor-ew-resize bg-[#131315]"
+                    onPointerDown={handleScrubStart}
+                    onPointerMove={handleScrubMove}
+                  >
+                      {ticks.map(t => (
+                          <div key={t} className="absolute top-0 h-full border-l border-white/10 pl-1 text-[9px] font-mono text-zinc-600" style={{ left: toPercent(t) }}>
+                              {t}s
+                          </div>
+                      ))}
+                  </div>
+
+                  <div className="flex-1 overflow-y-auto custom-scrollbar relative">
+                      {objects.map(obj => (
+                          <div key={obj.id}>
+                              <div className="h-6 bg-white/[0.02]" />
+                              {rowsFor(obj).map(row => (
+                                  <div key={row.property} className="h-6 relative border-b border-white/[0.03]">
+                                      {row.track?.keyframes.map(k => {
+                                          const isSelected = selectedKey?.keyframeId === k.id;
+                                          const time = isSelected && dragTime !== null ? dragTime : k.time;
+                                          return (
+                                              <div
+                                                key={k.id}
+                                                className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 p-1 cursor-pointer"
+                                                style={{ left: toPercent(time) }}
+                                                title={`${PROPERTY_LABELS[row.property]} @ ${time.toFixed(2)}s (${INTERPOLATION_LABELS[k.interpolation]})`}
+                                                onPointerDown={(e) => {
+                                                    e.stopPropagation();
+                                                    e.currentTarget.setPointerCapture(e.pointerId);
+                                                    setSelectedKey({ trackId: row.track!.id, keyframeId: k.id });
+                                                    setDragTime(k.time);
+                                                }}
+                                                onPointerMove={(e) => {
+                                                    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+                                                    setDragTime(timeFromClientX(e.clientX));
+                                                }}
+                                                onPointerUp={() => {
+                                                    if (dragTime !== null && Math.abs(dragTime - k.time) > 1e-6) {
+                                                        updateKeyframe(row.track!.id, k.id, { time: dragTime });
+                                                    }
+                                                    setDragTime(null);
+                                                }}
+                                              >
+                                                  <Diamond
+                                                    size={10}
+                                                    fill="currentColor"
+                                                    className={`transition-colors ${isSelected ? 'text-amber-300' : 'text-indigo-400 hover:text-indigo-200'}`}
+                                                  />
+                                              </div>
+                                          );
+                                      })}
+                                  </div>
+                              ))}
+                          </div>
+                      ))}
+                  </div>
+
+                  {/* Playhead */}
+                  <div className="absolute top-0 bottom-0 w-px bg-rose-500 pointer-events-none" style={{ left: toPercent(animationTime) }}>
+                      <div className="absolute -top-0 -left-1 w-2 h-2 bg-rose-500 rotate-45" />
+                  </div>
+              </div>
+          </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,58 @@
-import React from 'react';
-import { useAppStore } from '../store/useAppStore';
-import { Move, RotateCw, Scaling, Grid, Play, Save, Download, Undo2, Redo2, Zap, Video, MonitorPlay, Aperture } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { useAppStore, RESOLUTION_PRESETS } from '../store/useAppStore';
+import { serializeProject, parseProjectFile, downloadProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectService';
+import { GLBExportOptions, DEFAULT_EXPORT_OPTIONS } from '../services/exportService';
+import { LIGHT_KIND_LABELS } from '../services/lightService';
+import { PRIMITIVE_SHAPES } from '../services/primitiveService';
+import { SHADING_MODE_LABELS } from '../services/shadingService';
+import { SURFACE_SNAP_LABELS, SurfaceSnapMode } from '../services/snapService';
+import { getPresetView, ViewPreset, VIEW_PRESETS } from '../services/viewService';
+import { LightKind, PrimitiveShape, SafeFrameSettings, ShadingMode, SnapSettings, TransformSpace } from '../types';
+import { Move, RotateCw, Scaling, Grid, Play, Save, Download, Undo2, Redo2, Zap, Video, MonitorPlay, Aperture, FolderOpen, Loader2, SquareDashedMousePointer, Clapperboard, Images, Sun, Circle, Hexagon, Compass, Layers, Palette, Frame, ListVideo, Box, Magnet, Shapes, Type, History, LucideIcon } from 'lucide-react';
 
 interface ToolbarProps {
     onToggleRender?: () => void;
+    onToggleSequence?: () => void;
+    onToggleGallery?: () => void;
+    onToggleShotList?: () => void;
+    onToggleHistory?: () => void;
+    historyOpen?: boolean;
+    onExportGLB?: (options: GLBExportOptions) => Promise<void>;
+    boxSelectActive?: boolean;
+    onToggleBoxSelect?: () => void;
+    surfaceSnapMode?: SurfaceSnapMode | null;
+    onToggleSurfaceSnap?: (mode: SurfaceSnapMode) => void;
+    onDropToFloor?: () => void;
 }
 
-export default function Toolbar({ onToggleRender }: ToolbarProps) {
+const SNAP_INCREMENT_FIELDS: { key: 'translate' | 'rotate' | 'scale', label: string, step: number }[] = [
+    { key: 'translate', label: 'Move (units)', step: 0.05 },
+    { key: 'rotate', label: 'Rotate (°)', step: 1 },
+    { key: 'scale', label: 'Scale', step: 0.01 }
+];
+
+const EXPORT_OPTION_LABELS: { key: keyof GLBExportOptions, label: string, hint: string }[] = [
+    { key: 'selectionOnly', label: 'Selection Only', hint: 'Export just the selected objects' },
+    { key: 'applyTransforms', label: 'Apply Transforms', hint: 'Bake transforms into vertices instead of keeping nodes' },
+    { key: 'draco', label: 'Draco Compression', hint: 'Smaller file, requires a Draco-capable loader' },
+];
+
+const SAFE_FRAME_GUIDE_LABELS: { key: Exclude<keyof SafeFrameSettings, 'visible'>, label: string }[] = [
+    { key: 'thirds', label: 'Rule of Thirds' },
+    { key: 'center', label: 'Center Cross' },
+    { key: 'titleSafe', label: 'Title / Action Safe' },
+];
+
+const SHADING_ICONS: Record<ShadingMode, LucideIcon> = {
+    lit: Sun,
+    clay: Circle,
+    wireframe: Hexagon,
+    normals: Compass,
+    depth: Layers,
+    unlit: Palette
+};
+
+export default function Toolbar({ onToggleRender, onToggleSequence, onToggleGallery, onToggleShotList, onToggleHistory, historyOpen, onExportGLB, boxSelectActive, onToggleBoxSelect, surfaceSnapMode, onToggleSurfaceSnap, onDropToFloor }: ToolbarProps) {
   const { 
     transformMode, 
     setTransformMode, 
@@ -17,9 +63,86 @@ export default function Toolbar({ onToggleRender }: ToolbarProps) {
     past,
     future,
     addLightToScene,
-    addCameraToScene
+    addPrimitiveToScene,
+    addTextToScene,
+    addCameraToScene,
+    projectName,
+    loadProject,
+    addNotification
   } = useAppStore();
 
+  const activeJobCount = useAppStore(state => state.renderJobs.filter(j => j.status === 'queued' || j.status === 'running').length);
+
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [showLightMenu, setShowLightMenu] = useState(false);
+  const [showPrimitiveMenu, setShowPrimitiveMenu] = useState(false);
+  const [showShadingMenu, setShowShadingMenu] = useState(false);
+  const [showSafeFrameMenu, setShowSafeFrameMenu] = useState(false);
+  const [showViewMenu, setShowViewMenu] = useState(false);
+  const [showSnapMenu, setShowSnapMenu] = useState(false);
+  const updateSnapping = (updates: Partial<SnapSettings>) => updateRenderSettings({ snapping: { ...renderSettings.snapping, ...updates } });
+  const cameraState = useAppStore(state => state.cameraState);
+  const setView = (preset: ViewPreset) => {
+      const { activeCameraId, setActiveCameraId, setCameraState } = useAppStore.getState();
+      if (activeCameraId) setActiveCameraId(null);
+      setCameraState(getPresetView(cameraState, preset));
+      setShowViewMenu(false);
+  };
+  const updateSafeFrame = (updates: Partial<SafeFrameSettings>) => updateRenderSettings({ safeFrame: { ...renderSettings.safeFrame, ...updates } });
+  const ShadingIcon = SHADING_ICONS[renderSettings.shadingMode];
+
+  // Export Popover State
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportOptions, setExportOptions] = useState<GLBExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+      if (!onExportGLB) return;
+      setIsExporting(true);
+      try {
+          await onExportGLB(exportOptions);
+          setShowExportMenu(false);
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  const handleSaveProject = async () => {
+      const name = window.prompt('Project name', projectName);
+      if (name === null) return;
+
+      setIsSaving(true);
+      try {
+          const finalName = name.trim() || projectName;
+          const file = await serializeProject(useAppStore.getState().getProjectData(), finalName);
+          downloadProjectFile(file);
+          useAppStore.getState().setProjectName(finalName);
+          addNotification('success', `Project "${finalName}" saved`);
+      } catch (e: any) {
+          console.error(e);
+          addNotification('error', `Save Failed: ${e.message}`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const { name, project } = parseProjectFile(await file.text());
+          loadProject(name, project);
+          addNotification('success', `Project "${name}" loaded`);
+      } catch (err: any) {
+          console.error(err);
+          addNotification('error', `Open Failed: ${err.message}`);
+      }
+  };
+
   const ToolBtn = ({ active, onClick, children, title, disabled, colorClass }: any) => (
     <button
       onClick={onClick}
@@ -46,6 +169,15 @@ export default function Toolbar({ onToggleRender }: ToolbarProps) {
       
       {/* Transform Tools */}
       <div className="flex items-center gap-1 pr-4 border-r border-white/10">
+        {onToggleBoxSelect && (
+          <ToolBtn 
+            active={boxSelectActive} 
+            onClick={onToggleBoxSelect}
+            title="Box Select (Shift/Ctrl to add)"
+          >
+            <SquareDashedMousePointer size={18} className={`transition-colors duration-300 ${boxSelectActive ? 'text-indigo-400' : ''}`} />
+          </ToolBtn>
+        )}
         <ToolBtn 
           active={transformMode === 'translate'} 
           onClick={() => setTransformMode('translate')}
@@ -70,26 +202,158 @@ export default function Toolbar({ onToggleRender }: ToolbarProps) {
         >
           <Scaling size={18} className={`transition-colors duration-300 ${transformMode === 'scale' ? 'text-blue-500' : ''}`} />
         </ToolBtn>
+        <div className="relative">
+          <ToolBtn active={renderSettings.snapping.enabled || !!surfaceSnapMode} onClick={() => setShowSnapMenu(!showSnapMenu)} title="Snapping">
+            <Magnet size={18} />
+          </ToolBtn>
+          {showSnapMenu && (
+            <div className="absolute top-12 left-0 w-56 p-3 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col gap-2 animate-pop-in">
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-300 cursor-pointer pb-2 border-b border-white/5">
+                    <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Snap Increments</span>
+                    <input
+                        type="checkbox"
+                        checked={renderSettings.snapping.enabled}
+                        onChange={(e) => updateSnapping({ enabled: e.target.checked })}
+                        className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                    />
+                </label>
+                {SNAP_INCREMENT_FIELDS.map(({ key, label, step }) => (
+                    <label key={key} className="flex items-center justify-between gap-3 text-xs text-zinc-300">
+                        <span>{label}</span>
+                        <input
+                            type="number"
+                            min={step} step={step}
+                            value={renderSettings.snapping[key]}
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (value > 0) updateSnapping({ [key]: value });
+                            }}
+                            className="w-20 bg-zinc-800 border border-white/10 rounded-md px-2 py-1 text-xs text-zinc-200 font-mono focus:outline-none focus:border-indigo-500"
+                        />
+                    </label>
+                ))}
+                <div className="flex items-center justify-between gap-3 text-xs text-zinc-300">
+                    <span>Gizmo Space</span>
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {(['world', 'local'] as TransformSpace[]).map(space => (
+                            <button
+                                key={space}
+                                onClick={() => updateSnapping({ space })}
+                                className={`px-2 py-0.5 rounded text-[11px] capitalize transition-colors ${renderSettings.snapping.space === space ? 'bg-indigo-500/30 text-indigo-200' : 'text-zinc-400 hover:text-white'}`}
+                            >
+                                {space}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {(onDropToFloor || onToggleSurfaceSnap) && (
+                    <div className="flex flex-col gap-1 pt-2 border-t border-white/5">
+                        {onDropToFloor && (
+                            <button onClick={onDropToFloor} className="text-left px-2 py-1.5 rounded-lg text-xs text-zinc-300 hover:bg-white/10 hover:text-white transition-colors">
+                                Drop to Floor
+                            </button>
+                        )}
+                        {onToggleSurfaceSnap && (Object.keys(SURFACE_SNAP_LABELS) as SurfaceSnapMode[]).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={() => {
+                                    onToggleSurfaceSnap(mode);
+                                    setShowSnapMenu(false);
+                                }}
+                                className={`text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${surfaceSnapMode === mode ? 'bg-indigo-500/20 text-indigo-300' : 'text-zinc-300 hover:bg-white/10 hover:text-white'}`}
+                            >
+                                {SURFACE_SNAP_LABELS[mode]} Under Cursor
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Creation Tools */}
       <div className="flex items-center gap-1 pr-4 border-r border-white/10">
-         <ToolBtn onClick={addLightToScene} title="Add Light">
-            <Zap size={18} className="group-hover:text-yellow-500 transition-colors duration-300" />
+         <div className="relative">
+           <ToolBtn active={showLightMenu} onClick={() => setShowLightMenu(!showLightMenu)} title="Add Light">
+              <Zap size={18} className="group-hover:text-yellow-500 transition-colors duration-300" />
+           </ToolBtn>
+           {showLightMenu && (
+             <div className="absolute top-12 left-0 w-40 p-1.5 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col animate-pop-in">
+                 {(Object.keys(LIGHT_KIND_LABELS) as LightKind[]).map(kind => (
+                     <button
+                         key={kind}
+                         onClick={() => {
+                             addLightToScene(kind);
+                             setShowLightMenu(false);
+                         }}
+                         className="text-left px-3 py-1.5 rounded-lg text-xs text-zinc-300 hover:bg-white/10 hover:text-white transition-colors"
+                     >
+                         {LIGHT_KIND_LABELS[kind]} Light
+                     </button>
+                 ))}
+             </div>
+           )}
+         </div>
+         <div className="relative">
+           <ToolBtn active={showPrimitiveMenu} onClick={() => setShowPrimitiveMenu(!showPrimitiveMenu)} title="Add Primitive">
+              <Shapes size={18} className="group-hover:text-emerald-500 transition-colors duration-300" />
+           </ToolBtn>
+           {showPrimitiveMenu && (
+             <div className="absolute top-12 left-0 w-44 p-1.5 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col animate-pop-in">
+                 {(Object.keys(PRIMITIVE_SHAPES) as PrimitiveShape[]).map(shape => (
+                     <button
+                         key={shape}
+                         onClick={() => {
+                             addPrimitiveToScene(shape);
+                             setShowPrimitiveMenu(false);
+                         }}
+                         className="text-left px-3 py-1.5 rounded-lg text-xs text-zinc-300 hover:bg-white/10 hover:text-white transition-colors"
+                     >
+                         {PRIMITIVE_SHAPES[shape].label}
+                     </button>
+                 ))}
+             </div>
+           )}
+         </div>
+         <ToolBtn onClick={() => addTextToScene()} title="Add 3D Text">
+            <Type size={18} className="group-hover:text-sky-500 transition-colors duration-300" />
          </ToolBtn>
-         <ToolBtn onClick={addCameraToScene} title="Add Camera">
+         <ToolBtn onClick={() => addCameraToScene()} title="Add Camera">
             <Video size={18} className="group-hover:text-purple-500 transition-colors duration-300" />
          </ToolBtn>
       </div>
 
+      {/* Project */}
+      <div className="flex items-center gap-1 pr-4 border-r border-white/10">
+        <ToolBtn onClick={() => projectInputRef.current?.click()} title="Open Project">
+            <FolderOpen size={18} />
+        </ToolBtn>
+        <ToolBtn onClick={handleSaveProject} disabled={isSaving} title={`Save Project (${PROJECT_FILE_EXTENSION})`}>
+            {isSaving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />}
+        </ToolBtn>
+        <input 
+            ref={projectInputRef}
+            type="file" 
+            className="hidden" 
+            accept={`${PROJECT_FILE_EXTENSION},application/json`}
+            onChange={handleOpenProject}
+        />
+      </div>
+
       {/* History */}
       <div className="flex items-center gap-1 pr-4 border-r border-white/10">
-        <ToolBtn onClick={undo} disabled={past.length === 0} title="Undo">
+        <ToolBtn onClick={undo} disabled={past.length === 0} title={past.length > 0 ? `Undo ${past[past.length - 1].label}` : 'Undo'}>
             <Undo2 size={18} />
         </ToolBtn>
-        <ToolBtn onClick={redo} disabled={future.length === 0} title="Redo">
+        <ToolBtn onClick={redo} disabled={future.length === 0} title={future.length > 0 ? `Redo ${future[0].label}` : 'Redo'}>
             <Redo2 size={18} />
         </ToolBtn>
+        {onToggleHistory && (
+          <ToolBtn active={historyOpen} onClick={onToggleHistory} title="History">
+            <History size={18} />
+          </ToolBtn>
+        )}
       </div>
 
       {/* View & Export */}
@@ -101,9 +365,143 @@ export default function Toolbar({ onToggleRender }: ToolbarProps) {
         >
           <Grid size={18} />
         </ToolBtn>
-        <ToolBtn title="Export GLB">
-          <Download size={18} />
-        </ToolBtn>
+        <div className="relative">
+          <ToolBtn active={!!cameraState.orthographic} onClick={() => setShowViewMenu(!showViewMenu)} title={`View: ${cameraState.orthographic ? 'Orthographic' : 'Perspective'}`}>
+            <Box size={18} />
+          </ToolBtn>
+          {showViewMenu && (
+            <div className="absolute top-12 left-0 w-52 p-3 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col gap-2 animate-pop-in">
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-300 cursor-pointer pb-2 border-b border-white/5">
+                    <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Orthographic</span>
+                    <input
+                        type="checkbox"
+                        checked={!!cameraState.orthographic}
+                        onChange={(e) => useAppStore.getState().setCameraState({ orthographic: e.target.checked })}
+                        className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                    />
+                </label>
+                <div className="grid grid-cols-3 gap-1">
+                    {(Object.keys(VIEW_PRESETS) as ViewPreset[]).map(preset => (
+                        <button
+                            key={preset}
+                            onClick={() => setView(preset)}
+                            className="px-2 py-1.5 rounded-lg text-xs text-zinc-300 bg-zinc-800 hover:bg-white/10 hover:text-white transition-colors"
+                        >
+                            {VIEW_PRESETS[preset].label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-zinc-500 leading-relaxed">Numpad 1/3/7 (Ctrl: opposite) · 5 ortho · F frame selected · A frame all</p>
+            </div>
+          )}
+        </div>
+        <div className="relative">
+          <ToolBtn active={renderSettings.shadingMode !== 'lit'} onClick={() => setShowShadingMenu(!showShadingMenu)} title={`Shading: ${SHADING_MODE_LABELS[renderSettings.shadingMode]}`}>
+            <ShadingIcon size={18} />
+          </ToolBtn>
+          {showShadingMenu && (
+            <div className="absolute top-12 left-0 w-40 p-1.5 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col animate-pop-in">
+                {(Object.keys(SHADING_MODE_LABELS) as ShadingMode[]).map(mode => {
+                    const Icon = SHADING_ICONS[mode];
+                    return (
+                        <button
+                            key={mode}
+                            onClick={() => {
+                                updateRenderSettings({ shadingMode: mode });
+                                setShowShadingMenu(false);
+                            }}
+                            className={`flex items-center gap-2 text-left px-3 py-1.5 rounded-lg text-xs transition-colors ${renderSettings.shadingMode === mode ? 'bg-indigo-500/20 text-indigo-300' : 'text-zinc-300 hover:bg-white/10 hover:text-white'}`}
+                        >
+                            <Icon size={12} /> {SHADING_MODE_LABELS[mode]}
+                        </button>
+                    );
+                })}
+            </div>
+          )}
+        </div>
+        <div className="relative">
+          <ToolBtn active={renderSettings.safeFrame.visible} onClick={() => setShowSafeFrameMenu(!showSafeFrameMenu)} title="Safe Frame (scene camera view)">
+            <Frame size={18} />
+          </ToolBtn>
+          {showSafeFrameMenu && (
+            <div className="absolute top-12 left-0 w-52 p-3 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col gap-2 animate-pop-in">
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-300 cursor-pointer pb-2 border-b border-white/5">
+                    <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Safe Frame</span>
+                    <input
+                        type="checkbox"
+                        checked={renderSettings.safeFrame.visible}
+                        onChange={(e) => updateSafeFrame({ visible: e.target.checked })}
+                        className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                    />
+                </label>
+                <select
+                    value={renderSettings.resolutionPreset}
+                    onChange={(e) => updateRenderSettings({ resolutionPreset: Number(e.target.value) })}
+                    className="w-full bg-zinc-800 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-zinc-200 focus:outline-none focus:border-indigo-500"
+                    title="Render preset, shared with the render windows"
+                >
+                    {RESOLUTION_PRESETS.map((preset, idx) => <option key={idx} value={idx}>{preset.label}</option>)}
+                </select>
+                {SAFE_FRAME_GUIDE_LABELS.map(({ key, label }) => (
+                    <label key={key} className="flex items-center justify-between gap-3 text-xs text-zinc-300 cursor-pointer">
+                        <span>{label}</span>
+                        <input
+                            type="checkbox"
+                            checked={renderSettings.safeFrame[key]}
+                            onChange={(e) => updateSafeFrame({ [key]: e.target.checked })}
+                            className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                        />
+                    </label>
+                ))}
+            </div>
+          )}
+        </div>
+        <div className="relative">
+          <ToolBtn active={showExportMenu} onClick={() => setShowExportMenu(!showExportMenu)} title="Export GLB">
+            <Download size={18} />
+          </ToolBtn>
+
+          {showExportMenu && (
+            <div className="absolute top-12 right-0 w-60 p-3 bg-[#18181b]/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl shadow-black/50 flex flex-col gap-2 animate-pop-in">
+                <div className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider pb-1 border-b border-white/5">Export GLB</div>
+                {EXPORT_OPTION_LABELS.map(({ key, label, hint }) => (
+                    <label key={key} className="flex items-center justify-between gap-3 text-xs text-zinc-300 cursor-pointer" title={hint}>
+                        <span>{label}</span>
+                        <input 
+                            type="checkbox"
+                            checked={exportOptions[key]}
+                            onChange={(e) => setExportOptions({ ...exportOptions, [key]: e.target.checked })}
+                            className="w-4 h-4 rounded bg-zinc-800 border-zinc-700 accent-indigo-500 cursor-pointer"
+                        />
+                    </label>
+                ))}
+                <button 
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="mt-1 w-full py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-all duration-300 disabled:opacity-50"
+                >
+                    {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                    {isExporting ? 'Exporting...' : 'Export .glb'}
+                </button>
+            </div>
+          )}
+        </div>
+        {onToggleShotList && (
+          <ToolBtn onClick={onToggleShotList} title="Shot List">
+            <ListVideo size={18} />
+          </ToolBtn>
+        )}
+        {onToggleSequence && (
+          <ToolBtn onClick={onToggleSequence} title="Render Sequence / Video">
+            <Clapperboard size={18} />
+          </ToolBtn>
+        )}
+        {onToggleGallery && (
+          <ToolBtn onClick={onToggleGallery} title="Render Queue & Gallery">
+            <Images size={18} />
+            {activeJobCount > 0 && <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-indigo-600 text-white text-[9px] font-bold flex items-center justify-center">{activeJobCount}</span>}
+          </ToolBtn>
+        )}
       </div>
 
       {/* AI Render Button */}
@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+import { ArrayMode, ArrayProps } from '../types';
+import { isShadedMesh } from './shadingService';
+
+/**
+ * Arrays and surface scatter of a model, drawn as InstancedMeshes of the model's meshes.
+ *
+ * Linear, radial and grid layouts are in the object's local space, so moving the object moves
+ * the whole array. Scatter layouts are sampled on the target model in its own space and stay
+ * on its surface whichever of the two moves (see getScatterMatrices).
+ */
+
+export const ARRAY_MODE_LABELS: Record<ArrayMode, string> = {
+    linear: 'Linear',
+    radial: 'Radial',
+    grid: 'Grid',
+    scatter: 'Surface Scatter'
+};
+
+// Keeps a typo in the count from freezing the viewport
+export const MAX_ARRAY_INSTANCES = 5000;
+
+export const DEFAULT_ARRAY_PROPS: ArrayProps = {
+    mode: 'linear',
+    count: 5,
+    spacing: [1, 0, 0],
+    gridCount: [3, 1, 3],
+    radius: 2,
+    sweep: 360,
+    seed: 1,
+    rotationRange: [0, 180, 0],
+    scaleRange: [0.8, 1.2],
+    alignToNormal: true
+};
+
+/**
+ * Number of copies the settings produce, capped at MAX_ARRAY_INSTANCES.
+ */
+export const getArrayInstanceCount = (props: ArrayProps) => {
+    const count = props.mode === 'grid' ? props.gridCount.reduce((a, b) => a * Math.max(1, Math.round(b)), 1) : Math.round(props.count);
+    return THREE.MathUtils.clamp(count, 1, MAX_ARRAY_INSTANCES);
+};
+
+/**
+ * Local matrices of the copies for the linear, radial and grid modes.
+ */
+export const getArrayMatrices = (props: ArrayProps): THREE.Matrix4[] => {
+    const count = getArrayInstanceCount(props);
+    const spacing = new THREE.Vector3(...props.spacing);
+
+    if (props.mode === 'radial') {
+        // A full circle leaves no gap between the last copy and the first
+        const sweep = THREE.MathUtils.degToRad(props.sweep);
+        const step = count > 1 ? sweep / (props.sweep >= 360 ? count : count - 1) : 0;
+        return Array.from({ length: count }, (_, i) => {
+            const angle = i * step;
+            const position = new THREE.Vector3(Math.sin(angle) * props.radius, 0, Math.cos(angle) * props.radius);
+            return new THREE.Matrix4().makeRotationY(angle).setPosition(position);
+        });
+    }
+
+    if (props.mode === 'grid') {
+        const [nx, ny, nz] = props.gridCount.map(n => Math.max(1, Math.round(n)));
+        const matrices: THREE.Matrix4[] = [];
+        for (let y = 0; y < ny; y++) {
+            for (let z = 0; z < nz; z++) {
+                for (let x = 0; x < nx && matrices.length < count; x++) {
+                    matrices.push(new THREE.Matrix4().makeTranslation(x * spacing.x, y * spacing.y, z * spacing.z));
+                }
+            }
+        }
+        return matrices;
+    }
+
+    return Array.from({ length: count }, (_, i) => new THREE.Matrix4().makeTranslation(spacing.clone().multiplyScalar(i)));
+};
+
+// Seeded generator (mulberry32), uniform in [0, 1)
+const createRandom = (seed: number) => {
+    let state = Math.floor(seed) >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Matrix of a node relative to an ancestor, from the local matrices (independent of where the ancestor is)
+const getRelativeMatrix = (node: THREE.Object3D, ancestor: THREE.Object3D) => {
+    const matrix = new THREE.Matrix4();
+    for (let o: THREE.Object3D | null = node; o && o !== ancestor; o = o.parent) {
+        o.updateMatrix();
+        matrix.premultiply(o.matrix);
+    }
+    return matrix;
+};
+
+/**
+ * Meshes of a model node, relative to it. Skips other SceneObjects nested below it and
+ * instanced copies of its own array.
+ */
+export const getModelMeshes = (root: THREE.Object3D): { mesh: THREE.Mesh, matrix: THREE.Matrix4 }[] => {
+    const meshes: { mesh: THREE.Mesh, matrix: THREE.Matrix4 }[] = [];
+    const visit = (node: THREE.Object3D) => {
+        if (node !== root && node.userData.sceneObjectId) return;
+        const mesh = node as THREE.Mesh;
+        if (isShadedMesh(mesh) && !(mesh as THREE.InstancedMesh).isInstancedMesh && !(mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+            meshes.push({ mesh, matrix: getRelativeMatrix(mesh, root) });
+        }
+        node.children.forEach(visit);
+    };
+    visit(root);
+    return meshes;
+};
+
+// setRandomGenerator exists in three but is missing from its type definitions
+type SeededSampler = MeshSurfaceSampler & { setRandomGenerator: (random: () => number) => MeshSurfaceSampler };
+
+/**
+ * Scatter copies on the surface of a model, as matrices in the model's own space.
+ * Surfaces are picked by area, so large meshes get proportionally more copies.
+ */
+export const getScatterMatrices = (target: THREE.Object3D, props: ArrayProps): THREE.Matrix4[] => {
+    const random = createRandom(props.seed);
+    const samplers = getModelMeshes(target).map(({ mesh, matrix }) => {
+        // Sample in the model's space so scaled meshes get their real area
+        const geometry = mesh.geometry.clone().applyMatrix4(matrix);
+        const sampler = new MeshSurfaceSampler(new THREE.Mesh(geometry)) as SeededSampler;
+        sampler.setRandomGenerator(random).build();
+        const area = sampler.distribution ? sampler.distribution[sampler.distribution.length - 1] : 0;
+        return { sampler, geometry, area };
+    }).filter(s => s.area > 0);
+    if (samplers.length === 0) return [];
+
+    const totalArea = samplers.reduce((sum, s) => sum + s.area, 0);
+    const position = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const up = new THREE.Vector3(0, 1, 0);
+    const range = props.rotationRange.map(deg => THREE.MathUtils.degToRad(deg));
+    const [minScale, maxScale] = props.scaleRange;
+
+    const matrices = Array.from({ length: getArrayInstanceCount(props) }, () => {
+        let pick = random() * totalArea;
+        const { sampler } = samplers.find(s => (pick -= s.area) <= 0) ?? samplers[samplers.length - 1];
+        sampler.sample(position, normal);
+
+        const spin = new THREE.Quaternion().setFromEuler(new THREE.Euler(...range.map(r => (random() * 2 - 1) * r) as [number, number, number]));
+        const rotation = props.alignToNormal ? new THREE.Quaternion().setFromUnitVectors(up, normal.normalize()).multiply(spin) : spin;
+        const scale = minScale + random() * (maxScale - minScale);
+        return new THREE.Matrix4().compose(position, rotation, new THREE.Vector3(scale, scale, scale));
+    });
+
+    samplers.forEach(s => s.geometry.dispose());
+    return matrices;
+};
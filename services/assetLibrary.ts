@@ -0,0 +1,299 @@
+import { Asset, AssetStatus, ModelFormat } from '../types';
+import { useAppStore } from '../store/useAppStore';
+import { v4 as uuidv4 } from 'uuid';
+import { createDatabase } from './indexedDb';
+
+/**
+ * Local persistent asset library backed by IndexedDB.
+ *
+ * Generated and imported models only live as blob: URLs in memory, so a Tripo
+ * generation would be lost on refresh. Every asset in the store is mirrored here
+ * together with its binary data (GLB bytes, source image, thumbnail) and rehydrated
+ * into fresh blob: URLs on startup. Binary data lives in a separate file store
+ * that asset records reference by key.
+ */
+
+const DB_NAME = 'banana-render-studio';
+const DB_VERSION = 1;
+const ASSET_STORE = 'assets';
+const FILE_STORE = 'files';
+
+const THUMBNAIL_SIZE = 128;
+
+interface AssetRecord {
+  id: string;
+  originalName: string;
+  status: AssetStatus;
+  createdAt: number;
+  errorMsg?: string;
+  prompt?: string;
+  taskId?: string;
+  // Keys into the file store for local binary data (GLB bytes, source image, thumbnail)
+  modelFileKey?: string;
+  imageFileKey?: string;
+  thumbnailFileKey?: string;
+  modelFormat?: ModelFormat;
+  // Side files of multi-file models by file name, either a file store key or a remote URL
+  resources?: Record<string, { fileKey?: string; url?: string }>;
+  // Remote URLs are stored as plain references
+  remoteModelUrl?: string | null;
+  remoteImageUrl?: string;
+}
+
+export interface StorageReport {
+  assetCount: number;
+  libraryBytes: number; // Bytes used by the asset library itself
+  usage: number | null; // Origin-wide usage reported by the browser
+  quota: number | null;
+}
+
+const withStore = createDatabase(DB_NAME, DB_VERSION, [{ name: ASSET_STORE, keyPath: 'id' }, { name: FILE_STORE }]);
+
+// blob: URLs created by this module, mapped to their file store key so data is never stored twice
+const fileKeysByUrl = new Map<string, string>();
+
+const isLocalUrl = (url: string | null | undefined): url is string =>
+  !!url && (url.startsWith('blob:') || url.startsWith('data:'));
+
+const putFile = async (blob: Blob): Promise<string> => {
+  const key = uuidv4();
+  await withStore(FILE_STORE, 'readwrite', s => s.put(blob, key));
+  return key;
+};
+
+const getFileUrl = async (key: string | undefined): Promise<string | undefined> => {
+  if (!key) return undefined;
+  const blob = await withStore<Blob | undefined>(FILE_STORE, 'readonly', s => s.get(key));
+  if (!blob) return undefined;
+  const url = URL.createObjectURL(blob);
+  fileKeysByUrl.set(url, key);
+  return url;
+};
+
+// Returns the file store key for a local URL, storing its data first if needed
+const ensureStoredFile = async (url: string): Promise<{ key: string; blob?: Blob }> => {
+  const known = fileKeysByUrl.get(url);
+  if (known) return { key: known };
+
+  const blob = await (await fetch(url)).blob();
+  const key = await putFile(blob);
+  fileKeysByUrl.set(url, key);
+  return { key, blob };
+};
+
+const createThumbnail = async (image: Blob): Promise<Blob | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob | undefined>(resolve => canvas.toBlob(b => resolve(b || undefined), 'image/webp', 0.8));
+  } catch (e) {
+    // Not every image type can be decoded (e.g. SVG placeholders); thumbnails are optional
+    return undefined;
+  }
+};
+
+/**
+ * Local replacement for the Cloud Storage upload: stores the file in IndexedDB
+ * and returns a blob: URL for it.
+ */
+export const uploadFileToStorage = async (file: Blob): Promise<string> => {
+  const key = await putFile(file);
+  const url = URL.createObjectURL(file);
+  fileKeysByUrl.set(url, key);
+  return url;
+};
+
+// Every file store key owned by a record
+const recordFileKeys = (record: AssetRecord): string[] =>
+  [
+    record.modelFileKey,
+    record.imageFileKey,
+    record.thumbnailFileKey,
+    ...Object.values(record.resources || {}).map(r => r.fileKey)
+  ].filter((k): k is string => !!k);
+
+// Deletes files no asset record references anymore (the models of one drop share their side files)
+const deleteUnreferencedFiles = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const records = await withStore<AssetRecord[]>(ASSET_STORE, 'readonly', s => s.getAll());
+  const referenced = new Set(records.flatMap(recordFileKeys));
+  for (const key of keys) {
+    if (!referenced.has(key)) await withStore(FILE_STORE, 'readwrite', s => s.delete(key));
+  }
+};
+
+/**
+ * Persists an asset and the binary data behind its local URLs.
+ */
+export const saveAsset = async (asset: Asset): Promise<void> => {
+  const existing = await withStore<AssetRecord | undefined>(ASSET_STORE, 'readonly', s => s.get(asset.id));
+
+  const model = isLocalUrl(asset.modelUrl) ? await ensureStoredFile(asset.modelUrl) : undefined;
+  const image = isLocalUrl(asset.imageUrl) ? await ensureStoredFile(asset.imageUrl) : undefined;
+
+  let resources: AssetRecord['resources'];
+  if (asset.resources) {
+    resources = {};
+    for (const [name, url] of Object.entries(asset.resources)) {
+      resources[name] = isLocalUrl(url) ? { fileKey: (await ensureStoredFile(url)).key } : { url };
+    }
+  }
+
+  // Only regenerate the thumbnail when the source image changed
+  let thumbnailFileKey = existing?.thumbnailFileKey;
+  if (image && image.key !== existing?.imageFileKey) {
+    const imageBlob = image.blob || await (await fetch(asset.imageUrl)).blob();
+    const thumbnail = await createThumbnail(imageBlob);
+    thumbnailFileKey = thumbnail ? await putFile(thumbnail) : undefined;
+  }
+
+  const record: AssetRecord = {
+    id: asset.id,
+    originalName: asset.originalName,
+    status: asset.status,
+    createdAt: asset.createdAt,
+    errorMsg: asset.errorMsg,
+    prompt: asset.prompt,
+    taskId: asset.taskId,
+    modelFormat: asset.modelFormat,
+    resources,
+    modelFileKey: model?.key,
+    imageFileKey: image?.key,
+    thumbnailFileKey: image ? thumbnailFileKey : undefined,
+    remoteModelUrl: model ? null : asset.modelUrl,
+    remoteImageUrl: image ? undefined : asset.imageUrl
+  };
+
+  await withStore(ASSET_STORE, 'readwrite', s => s.put(record));
+
+  // Drop files that are no longer referenced after the URL changed
+  if (existing) {
+    const keep = new Set(recordFileKeys(record));
+    await deleteUnreferencedFiles(recordFileKeys(existing).filter(k => !keep.has(k)));
+  }
+};
+
+/**
+ * Loads all stored assets and rebuilds blob: URLs for their binary data.
+ */
+export const loadAssetLibrary = async (): Promise<Asset[]> => {
+  const records = await withStore<AssetRecord[]>(ASSET_STORE, 'readonly', s => s.getAll());
+  records.sort((a, b) => b.createdAt - a.createdAt);
+
+  const assets: Asset[] = [];
+  for (const record of records) {
+    let resources: Record<string, string> | undefined;
+    if (record.resources) {
+      resources = {};
+      for (const [name, ref] of Object.entries(record.resources)) {
+        const url = (await getFileUrl(ref.fileKey)) ?? ref.url;
+        if (url) resources[name] = url;
+      }
+    }
+
+    assets.push({
+      id: record.id,
+      originalName: record.originalName,
+      status: record.status,
+      createdAt: record.createdAt,
+      errorMsg: record.errorMsg,
+      prompt: record.prompt,
+      taskId: record.taskId,
+      modelUrl: (await getFileUrl(record.modelFileKey)) ?? record.remoteModelUrl ?? null,
+      imageUrl: (await getFileUrl(record.imageFileKey)) ?? record.remoteImageUrl ?? '',
+      thumbnailUrl: await getFileUrl(record.thumbnailFileKey),
+      modelFormat: record.modelFormat,
+      resources
+    });
+  }
+  return assets;
+};
+
+/**
+ * Deletes an asset and the files only it uses.
+ */
+export const deleteAsset = async (id: string): Promise<void> => {
+  const record = await withStore<AssetRecord | undefined>(ASSET_STORE, 'readonly', s => s.get(id));
+  if (!record) return;
+
+  await withStore(ASSET_STORE, 'readwrite', s => s.delete(id));
+  await deleteUnreferencedFiles(recordFileKeys(record));
+};
+
+/**
+ * Removes every stored asset and file from the library.
+ */
+export const purgeAssetLibrary = async (): Promise<void> => {
+  await withStore(ASSET_STORE, 'readwrite', s => s.clear());
+  await withStore(FILE_STORE, 'readwrite', s => s.clear());
+  fileKeysByUrl.clear();
+};
+
+/**
+ * Reports how much space the library uses and the browser quota for this origin.
+ */
+export const getStorageReport = async (): Promise<StorageReport> => {
+  const assetCount = await withStore<number>(ASSET_STORE, 'readonly', s => s.count());
+  const files = await withStore<Blob[]>(FILE_STORE, 'readonly', s => s.getAll());
+  const libraryBytes = files.reduce((sum, f) => sum + (f?.size || 0), 0);
+
+  let usage: number | null = null;
+  let quota: number | null = null;
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage = estimate.usage ?? null;
+    quota = estimate.quota ?? null;
+  }
+
+  return { assetCount, libraryBytes, usage, quota };
+};
+
+// Signature of the persisted fields, used to skip writes for unchanged assets
+const assetSignature = (a: Asset) =>
+  [a.originalName, a.status, a.modelUrl, a.imageUrl, a.errorMsg, a.prompt, a.taskId, a.modelFormat, JSON.stringify(a.resources || {})].join('|');
+
+/**
+ * Rehydrates the library into the store and keeps IndexedDB in sync with later asset changes.
+ * Deletions are explicit (see deleteAsset) so that opening a project never wipes the library.
+ * Returns an unsubscribe function.
+ */
+export const startAssetLibrarySync = async (): Promise<() => void> => {
+  const signatures = new Map<string, string>();
+
+  // Serialize writes so blob fetching for the same asset never races
+  let queue = Promise.resolve();
+
+  const persistChanged = (assets: Asset[]) => {
+    for (const asset of assets) {
+      const signature = assetSignature(asset);
+      if (signatures.get(asset.id) === signature) continue;
+      signatures.set(asset.id, signature);
+
+      queue = queue
+        .then(() => saveAsset(asset))
+        .catch(e => console.error(`[AssetLibrary] Failed to persist "${asset.originalName}":`, e));
+    }
+  };
+
+  try {
+    const stored = await loadAssetLibrary();
+    stored.forEach(a => signatures.set(a.id, assetSignature(a)));
+
+    // Assets created while the library was loading are kept and persisted below
+    const current = useAppStore.getState().assets;
+    useAppStore.getState().setAssets([...current, ...stored.filter(s => !current.some(c => c.id === s.id))]);
+  } catch (e) {
+    console.error('[AssetLibrary] Failed to load library:', e);
+  }
+
+  persistChanged(useAppStore.getState().assets);
+
+  return useAppStore.subscribe((state, prevState) => {
+    if (state.assets !== prevState.assets) persistChanged(state.assets);
+  });
+};
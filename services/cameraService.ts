@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+import { CameraProps, SensorPreset } from '../types';
+
+/**
+ * Physical camera: sensor presets, focal length <-> field of view, depth of field and the lens
+ * description sent to Gemini.
+ *
+ * The vertical field of view stays the stored (and animated) value, the focal length shown in the
+ * inspector is derived from it and the sensor height.
+ */
+
+interface SensorInfo {
+    label: string;
+    width: number; // mm
+    height: number; // mm
+}
+
+export const SENSOR_PRESETS: Record<SensorPreset, SensorInfo> = {
+    'full-frame': { label: 'Full Frame', width: 36, height: 24 },
+    'super-35': { label: 'Super 35', width: 24.89, height: 18.66 },
+    'aps-c': { label: 'APS-C', width: 23.6, height: 15.6 },
+    'micro-four-thirds': { label: 'Micro Four Thirds', width: 17.3, height: 13 },
+    'one-inch': { label: '1"', width: 13.2, height: 8.8 }
+};
+
+export const F_STOPS = [1.4, 2, 2.8, 4, 5.6, 8, 11, 16, 22];
+
+export const DEFAULT_CAMERA_PROPS: Required<CameraProps> = {
+    fov: 50,
+    sensor: 'full-frame',
+    near: 0.1,
+    far: 1000,
+    depthOfField: false,
+    focusDistance: 5,
+    aperture: 2.8
+};
+
+/**
+ * Camera properties with defaults for everything the object does not set.
+ */
+export const resolveCameraProps = (props?: CameraProps): Required<CameraProps> => ({ ...DEFAULT_CAMERA_PROPS, ...props });
+
+export const fovToFocalLength = (fov: number, sensor: SensorPreset) =>
+    SENSOR_PRESETS[sensor].height / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+
+export const focalLengthToFov = (focalLength: number, sensor: SensorPreset) =>
+    THREE.MathUtils.radToDeg(2 * Math.atan(SENSOR_PRESETS[sensor].height / (2 * focalLength)));
+
+/**
+ * Blur per meter of distance from the focus plane, as a fraction of the image width (BokehPass `aperture`).
+ * Thin lens circle of confusion, linearised around the focus distance.
+ */
+export const getBokehAperture = ({ fov, sensor, focusDistance, aperture }: Required<CameraProps>) => {
+    const focalLength = fovToFocalLength(fov, sensor) / 1000;
+    const focus = Math.max(focusDistance, focalLength * 2);
+    return (focalLength * focalLength) / (aperture * focus * focus * SENSOR_PRESETS[sensor].width / 1000);
+};
+
+const describeFocalLength = (focalLength: number) => {
+    if (focalLength < 24) return 'ultra wide angle';
+    if (focalLength < 35) return 'wide angle';
+    if (focalLength <= 60) return 'normal';
+    if (focalLength <= 135) return 'telephoto';
+    return 'long telephoto';
+};
+
+const describeDepthOfField = (aperture: number) => {
+    if (aperture <= 2.8) return 'shallow depth of field, strongly blurred foreground and background';
+    if (aperture <= 8) return 'moderate depth of field, softly blurred background';
+    return 'deep focus, background mostly sharp';
+};
+
+/**
+ * One-line lens description for the image model.
+ */
+export const describeCameraLens = (props?: CameraProps): string => {
+    const camera = resolveCameraProps(props);
+    const focalLength = Math.round(fovToFocalLength(camera.fov, camera.sensor));
+    const lens = `${focalLength}mm ${describeFocalLength(focalLength)} lens on a ${SENSOR_PRESETS[camera.sensor].label} sensor`;
+    return camera.depthOfField
+        ? `${lens}, f/${camera.aperture} focused at ${camera.focusDistance.toFixed(1)} m (${describeDepthOfField(camera.aperture)})`
+        : `${lens}, everything in focus`;
+};
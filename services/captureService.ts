@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { CameraPose } from './sequenceService';
+
+/**
+ * Offscreen still capture at an exact pixel size, independent of the viewport canvas.
+ *
+ * Three.js skips tone mapping and the output color space conversion when rendering into a
+ * render target, so tone-mapped captures render into a half float target first and go through
+ * an OutputPass, which gives the same look as the canvas. Captures without tone mapping (guide
+ * passes, debug shading) render straight into an sRGB target so their values stay exact.
+ * Supersampled captures render at a multiple of the size and are box-filtered down on the CPU.
+ */
+
+export const SUPERSAMPLING_OPTIONS = [1, 2, 3];
+
+export interface OffscreenCaptureOptions {
+    width: number;
+    height: number;
+    supersampling: number; // Render scale, clamped to what the GPU supports
+    toneMapped: boolean;
+    antialias?: boolean; // MSAA when not supersampled, on by default
+}
+
+let outputPass: OutputPass | null = null;
+
+// Averages ss x ss blocks of the (bottom-up, premultiplied) target pixels into a top-down PNG
+const downsampleToDataUrl = (pixels: Uint8Array, width: number, height: number, ss: number): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const image = ctx.createImageData(width, height);
+    const rowLength = width * ss * 4;
+    const samples = ss * ss;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let sy = 0; sy < ss; sy++) {
+                const row = (height * ss - 1 - (y * ss + sy)) * rowLength;
+                for (let sx = 0; sx < ss; sx++) {
+                    const i = row + (x * ss + sx) * 4;
+                    r += pixels[i];
+                    g += pixels[i + 1];
+                    b += pixels[i + 2];
+                    a += pixels[i + 3];
+                }
+            }
+            // Canvas image data is not premultiplied
+            const o = (y * width + x) * 4;
+            const scale = a > 0 ? 255 / a : 0;
+            image.data[o] = r * scale;
+            image.data[o + 1] = g * scale;
+            image.data[o + 2] = b * scale;
+            image.data[o + 3] = a / samples;
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Renders the scene through the camera into a PNG data URL of exactly width x height pixels.
+ * The camera's aspect must already match.
+ */
+export const renderOffscreen = (
+    gl: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    { width, height, supersampling, toneMapped, antialias = true }: OffscreenCaptureOptions
+): string => {
+    const ss = Math.max(1, Math.min(Math.round(supersampling), Math.floor(gl.capabilities.maxTextureSize / Math.max(width, height))));
+    const renderWidth = width * ss;
+    const renderHeight = height * ss;
+    // Supersampling already smooths edges, MSAA is only worth its memory at 1x
+    const samples = antialias && ss === 1 ? 4 : 0;
+
+    const output = new THREE.WebGLRenderTarget(renderWidth, renderHeight, {
+        colorSpace: toneMapped ? THREE.NoColorSpace : THREE.SRGBColorSpace,
+        samples: toneMapped ? 0 : samples
+    });
+    const previousTarget = gl.getRenderTarget();
+
+    try {
+        if (toneMapped) {
+            const hdr = new THREE.WebGLRenderTarget(renderWidth, renderHeight, { type: THREE.HalfFloatType, samples });
+            try {
+                gl.setRenderTarget(hdr);
+                gl.render(scene, camera);
+                outputPass ??= new OutputPass();
+                outputPass.render(gl, output, hdr, 0, false);
+            } finally {
+                hdr.dispose();
+            }
+        } else {
+            gl.setRenderTarget(output);
+            gl.render(scene, camera);
+        }
+
+        const pixels = new Uint8Array(renderWidth * renderHeight * 4);
+        gl.readRenderTargetPixels(output, 0, 0, renderWidth, renderHeight, pixels);
+        return downsampleToDataUrl(pixels, width, height, ss);
+    } finally {
+        gl.setRenderTarget(previousTarget);
+        output.dispose();
+    }
+};
+
+/**
+ * Camera for a capture with the output aspect: a copy of the view camera, or a camera at the given pose.
+ * A copy of the view camera sees exactly the viewport's safe frame (the largest rect of the output
+ * aspect inside the viewport): a wider output keeps the horizontal extent and narrows the vertical fov.
+ * Orthographic view cameras are cropped the same way.
+ */
+export const createCaptureCamera = (viewCamera: THREE.Camera, aspect: number, pose?: CameraPose): THREE.Camera => {
+    if (pose) {
+        const camera = new THREE.PerspectiveCamera(pose.fov, aspect, 0.1, 1000);
+        camera.position.copy(pose.position);
+        camera.quaternion.copy(pose.quaternion);
+        camera.updateMatrixWorld();
+        return camera;
+    }
+
+    const camera = viewCamera.clone();
+    if ((camera as THREE.PerspectiveCamera).isPerspectiveCamera) {
+        const perspective = camera as THREE.PerspectiveCamera;
+        if (aspect > perspective.aspect) {
+            const halfHeight = Math.tan(THREE.MathUtils.degToRad(perspective.fov / 2)) * perspective.aspect / aspect;
+            perspective.fov = THREE.MathUtils.radToDeg(Math.atan(halfHeight) * 2);
+        }
+        perspective.aspect = aspect;
+        perspective.updateProjectionMatrix();
+    } else if ((camera as THREE.OrthographicCamera).isOrthographicCamera) {
+        const orthographic = camera as THREE.OrthographicCamera;
+        const halfWidth = (orthographic.right - orthographic.left) / 2;
+        const halfHeight = (orthographic.top - orthographic.bottom) / 2;
+        const centerX = (orthographic.right + orthographic.left) / 2;
+        const centerY = (orthographic.top + orthographic.bottom) / 2;
+        const [fitWidth, fitHeight] = aspect > halfWidth / halfHeight ? [halfWidth, halfWidth / aspect] : [halfHeight * aspect, halfHeight];
+        orthographic.left = centerX - fitWidth;
+        orthographic.right = centerX + fitWidth;
+        orthographic.top = centerY + fitHeight;
+        orthographic.bottom = centerY - fitHeight;
+        orthographic.updateProjectionMatrix();
+    }
+    return camera;
+};
+
+/**
+ * Pixel rect of the safe frame for an output aspect inside a viewport of the given size.
+ */
+export const getSafeFrameRect = (viewWidth: number, viewHeight: number, aspect: number) => {
+    const width = aspect > viewWidth / viewHeight ? viewWidth : viewHeight * aspect;
+    const height = width / aspect;
+    return { x: (viewWidth - width) / 2, y: (viewHeight - height) / 2, width, height };
+};
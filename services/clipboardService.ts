@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SceneObject } from '../types';
+import { getDescendantIds, getWorldTransform } from './sceneGraph';
+
+/**
+ * Duplicate and copy/paste of SceneObjects.
+ *
+ * Objects are always copied with their descendants. The clipboard payload is plain JSON text, so it
+ * can be pasted into another tab: top-level objects carry their world transform and paste at the root.
+ * Linked duplicates share a linkId; the store keeps their LINKED_FIELDS equal, so they show the same
+ * model (one cached load), shape or text with the same material overrides.
+ */
+
+const CLIPBOARD_TYPE = 'banana-scene-objects';
+
+interface ClipboardPayload {
+    type: typeof CLIPBOARD_TYPE;
+    version: 1;
+    objects: SceneObject[];
+}
+
+// Data shared by linked duplicates (transform, name, visibility and hierarchy stay per object)
+export const LINKED_FIELDS: (keyof SceneObject)[] = ['url', 'format', 'resources', 'materialOverrides', 'primitiveProps', 'textProps', 'lightProps', 'cameraProps'];
+
+/**
+ * The selected objects (minus those below another selected object) followed by all their descendants.
+ */
+export const collectSubtrees = (objects: SceneObject[], ids: string[]): SceneObject[] => {
+    const selected = objects.filter(o => ids.includes(o.id));
+    const nested = new Set<string>();
+    selected.forEach(o => getDescendantIds(objects, o.id).forEach(id => nested.add(id)));
+    const roots = selected.filter(o => !nested.has(o.id));
+
+    const included = new Set(roots.map(o => o.id));
+    roots.forEach(o => getDescendantIds(objects, o.id).forEach(id => included.add(id)));
+    return objects.filter(o => included.has(o.id));
+};
+
+// "Chair" -> "Chair 2", "Chair 2" -> "Chair 3", skipping names already taken
+const getCopyName = (name: string, taken: Set<string>) => {
+    const base = name.replace(/ \d+$/, '');
+    let n = 2;
+    while (taken.has(`${base} ${n}`)) n++;
+    const copyName = `${base} ${n}`;
+    taken.add(copyName);
+    return copyName;
+};
+
+/**
+ * Copies of the objects with new ids and names; parent links inside the set are kept, top-level
+ * copies keep their parent. Linked copies keep the sources' linkId, others drop it.
+ */
+export const cloneSceneObjects = (objects: SceneObject[], existing: SceneObject[], linked = false): SceneObject[] => {
+    const ids = new Map(objects.map(o => [o.id, uuidv4()]));
+    const taken = new Set(existing.map(o => o.name));
+    return objects.map(o => {
+        const copy: SceneObject = structuredClone(o);
+        copy.id = ids.get(o.id)!;
+        copy.name = getCopyName(o.name, taken);
+        if (o.parentId && ids.has(o.parentId)) copy.parentId = ids.get(o.parentId);
+        if (!linked) delete copy.linkId;
+        return copy;
+    });
+};
+
+/**
+ * Clipboard text for the selected objects and their descendants.
+ */
+export const serializeClipboard = (objects: SceneObject[], ids: string[]): string | null => {
+    const copied = collectSubtrees(objects, ids);
+    if (copied.length === 0) return null;
+    const copiedIds = new Set(copied.map(o => o.id));
+    const payload: ClipboardPayload = {
+        type: CLIPBOARD_TYPE,
+        version: 1,
+        // Top-level objects leave their parent behind, so they take their world placement along
+        objects: copied.map(o => o.parentId && copiedIds.has(o.parentId) ? o : { ...o, parentId: null, transform: getWorldTransform(objects, o.id) })
+    };
+    return JSON.stringify(payload);
+};
+
+// Last copy of this tab, used when the system clipboard is unavailable (permissions, insecure context)
+let localClipboard: string | null = null;
+
+/**
+ * Puts the text on the system clipboard, keeping a local copy as fallback.
+ */
+export const writeClipboard = async (text: string) => {
+    localClipboard = text;
+    try {
+        await navigator.clipboard.writeText(text);
+    } catch (e) {
+        console.warn('[Clipboard] System clipboard unavailable, keeping the copy in this tab:', e);
+    }
+};
+
+/**
+ * Text from the system clipboard, or this tab's last copy when it can't be read.
+ */
+export const readClipboard = async (): Promise<string | null> => {
+    try {
+        return await navigator.clipboard.readText();
+    } catch {
+        return localClipboard;
+    }
+};
+
+/**
+ * SceneObjects from clipboard text, null when the text is not a scene object payload.
+ */
+export const parseClipboard = (text: string): SceneObject[] | null => {
+    try {
+        const payload = JSON.parse(text) as Partial<ClipboardPayload>;
+        if (payload?.type !== CLIPBOARD_TYPE || !Array.isArray(payload.objects)) return null;
+        const objects = payload.objects.filter(o => o && typeof o.id === 'string' && typeof o.type === 'string' && o.transform);
+        return objects.length > 0 ? objects : null;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,25 @@
+/**
+ * Browser downloads through a temporary link element.
+ */
+
+/**
+ * Saves the file at a URL (object URL, data URL or same-origin file) under the given name.
+ */
+export const downloadUrl = (url: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+/**
+ * Saves a blob under the given name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, fileName);
+    // Revoked a bit later, some browsers cancel the download otherwise
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,57 @@
+import { EnvironmentPreset, EnvironmentSettings } from '../types';
+
+/**
+ * Environment lighting: the preset catalogue, HDRI upload checks and the description sent to Gemini.
+ */
+
+interface EnvironmentPresetInfo {
+    label: string;
+    builtin: boolean; // Procedural light rig, no download needed
+    description: string;
+}
+
+export const ENVIRONMENT_PRESETS: Record<EnvironmentPreset, EnvironmentPresetInfo> = {
+    'builtin-studio': { label: 'Studio', builtin: true, description: 'neutral photo studio with overhead softboxes and white side strips' },
+    'builtin-softbox': { label: 'Softbox', builtin: true, description: 'single large key softbox from the front left with a dim fill, dark surroundings' },
+    'builtin-sunset': { label: 'Warm Sunset', builtin: true, description: 'warm low orange sun on the horizon with a cool blue sky' },
+    apartment: { label: 'Apartment', builtin: false, description: 'bright apartment interior with window light' },
+    city: { label: 'City', builtin: false, description: 'outdoor city street, overcast daylight' },
+    dawn: { label: 'Dawn', builtin: false, description: 'soft early morning light, low sun' },
+    forest: { label: 'Forest', builtin: false, description: 'dappled green forest light' },
+    lobby: { label: 'Lobby', builtin: false, description: 'warm indoor lobby lighting' },
+    night: { label: 'Night', builtin: false, description: 'dark night scene with artificial lights' },
+    park: { label: 'Park', builtin: false, description: 'sunny outdoor park' },
+    studio: { label: 'Studio HDRI', builtin: false, description: 'photographic studio with softboxes' },
+    sunset: { label: 'Sunset', builtin: false, description: 'golden hour sunset' },
+    warehouse: { label: 'Warehouse', builtin: false, description: 'large warehouse interior with skylights' }
+};
+
+export const ENVIRONMENT_FILE_ACCEPT = '.hdr,.exr';
+
+/**
+ * HDRI format from a file name, null when unsupported.
+ */
+export const getEnvironmentFormat = (fileName: string): EnvironmentSettings['customFormat'] | null => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    return ext === 'hdr' || ext === 'exr' ? ext : null;
+};
+
+const describeBackground = (env: EnvironmentSettings) => {
+    if (env.source !== 'none' && env.showBackground) return ' The environment is visible as the background.';
+    if (env.backgroundMode === 'solid') return ` Background: plain solid color ${env.backgroundColor}.`;
+    if (env.backgroundMode === 'gradient') return ` Background: vertical gradient from ${env.backgroundColor} (top) to ${env.backgroundColor2} (bottom).`;
+    return '';
+};
+
+/**
+ * One-line description of the environment lighting and background for the image model.
+ */
+export const describeEnvironment = (env: EnvironmentSettings): string => {
+    const background = describeBackground(env);
+    if (env.source === 'none') return `No environment lighting, only the light sources listed.${background}`;
+
+    const source = env.source === 'custom'
+        ? `a custom HDRI${env.customName ? ` (${env.customName})` : ''}`
+        : `a ${ENVIRONMENT_PRESETS[env.preset].description}`;
+    return `Ambient image-based lighting from ${source}, rotated ${Math.round(env.rotation)} degrees, intensity ${env.intensity.toFixed(1)}.${background}`;
+};
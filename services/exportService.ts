@@ -0,0 +1,230 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { WebIO } from '@gltf-transform/core';
+import { ALL_EXTENSIONS, KHRDracoMeshCompression } from '@gltf-transform/extensions';
+import { SceneObject } from '../types';
+import { findSceneObjectNode, isEditorHelper, isMeshObject } from './sceneGraph';
+import { createLightProps, getLightKind, LIGHT_KIND_LABELS } from './lightService';
+import { resolveCameraProps } from './cameraService';
+// Browser build of the Draco encoder shipped with three.js, emitted as an asset and loaded on demand (~1MB)
+import DRACO_ENCODER_URL from 'three/examples/jsm/libs/draco/draco_encoder.js?url';
+
+export interface GLBExportOptions {
+    selectionOnly: boolean;   // Export only the selected object(s)
+    applyTransforms: boolean; // Bake world transforms into vertex data instead of keeping the node hierarchy
+    draco: boolean;           // Compress geometry with KHR_draco_mesh_compression
+}
+
+export const DEFAULT_EXPORT_OPTIONS: GLBExportOptions = {
+    selectionOnly: false,
+    applyTransforms: false,
+    draco: false
+};
+
+let encoderPromise: Promise<any> | null = null;
+
+const loadDracoEncoder = (): Promise<any> => {
+    if (encoderPromise) return encoderPromise;
+
+    encoderPromise = new Promise((resolve, reject) => {
+        const init = () => {
+            (window as any).DracoEncoderModule({
+                onModuleLoaded: (module: any) => {
+                    // The Emscripten module is a thenable that resolves to itself; strip it so the promise can settle
+                    delete module.then;
+                    resolve(module);
+                }
+            });
+        };
+
+        if ((window as any).DracoEncoderModule) return init();
+
+        const script = document.createElement('script');
+        script.src = DRACO_ENCODER_URL;
+        script.onload = init;
+        script.onerror = () => {
+            encoderPromise = null;
+            reject(new Error('Failed to load Draco encoder'));
+        };
+        document.head.appendChild(script);
+    });
+    return encoderPromise;
+};
+
+// Child SceneObjects are rendered nested inside their parent's node but exported on their own
+const isNestedSceneObject = (child: THREE.Object3D, root: THREE.Object3D) =>
+    child !== root && child.userData.sceneObjectId !== undefined && child.userData.sceneObjectId !== root.userData.sceneObjectId;
+
+// Deep clone of a model node with all editor helpers and nested scene objects stripped out
+const cloneWithoutHelpers = (node: THREE.Object3D): THREE.Object3D => {
+    const clone = node.clone(true);
+    const helpers: THREE.Object3D[] = [];
+    clone.traverse((child) => {
+        if (child !== clone && (isEditorHelper(child) || isNestedSceneObject(child, clone))) helpers.push(child);
+    });
+    helpers.forEach(h => h.removeFromParent());
+    return clone;
+};
+
+// Copies the world transform of a live scene node onto an export node
+const copyWorldTransform = (source: THREE.Object3D, target: THREE.Object3D) => {
+    source.matrixWorld.decompose(target.position, target.quaternion, target.scale);
+};
+
+const buildModelNode = (obj: SceneObject, node: THREE.Object3D, applyTransforms: boolean): THREE.Object3D => {
+    if (!applyTransforms) {
+        const clone = cloneWithoutHelpers(node);
+        clone.name = obj.name;
+        copyWorldTransform(node, clone);
+        return clone;
+    }
+
+    // Flatten: every mesh gets its world matrix baked into a copy of its geometry
+    const group = new THREE.Group();
+    group.name = obj.name;
+    const bake = (child: THREE.Object3D) => {
+        if (isEditorHelper(child) || !child.visible || isNestedSceneObject(child, node)) return;
+        const mesh = child as THREE.Mesh;
+        if ((mesh as THREE.InstancedMesh).isInstancedMesh) {
+            // Array copies: one baked mesh per instance
+            const instanced = mesh as THREE.InstancedMesh;
+            const matrix = new THREE.Matrix4();
+            for (let i = 0; i < instanced.count; i++) {
+                instanced.getMatrixAt(i, matrix);
+                const baked = new THREE.Mesh(instanced.geometry.clone().applyMatrix4(matrix.premultiply(instanced.matrixWorld)), instanced.material);
+                baked.name = `${instanced.name} ${i + 1}`;
+                group.add(baked);
+            }
+        } else if (mesh.isMesh) {
+            const geometry = mesh.geometry.clone();
+            geometry.applyMatrix4(mesh.matrixWorld);
+            const baked = new THREE.Mesh(geometry, mesh.material);
+            baked.name = mesh.name;
+            group.add(baked);
+        }
+        child.children.forEach(bake);
+    };
+    bake(node);
+    return group;
+};
+
+const buildLightNode = (obj: SceneObject, node: THREE.Object3D): THREE.Object3D | null => {
+    const props = obj.lightProps || createLightProps('directional');
+    const kind = getLightKind(props);
+
+    let light: THREE.DirectionalLight | THREE.PointLight | THREE.SpotLight;
+    if (kind === 'point') light = new THREE.PointLight(props.color, props.intensity, props.distance ?? 0, props.decay ?? 2);
+    else if (kind === 'spot') light = new THREE.SpotLight(props.color, props.intensity, props.distance ?? 0, props.angle ?? Math.PI / 6, props.penumbra ?? 0, props.decay ?? 2);
+    else if (kind === 'directional') light = new THREE.DirectionalLight(props.color, props.intensity);
+    else {
+        // KHR_lights_punctual has no area or hemisphere lights
+        console.warn(`[ExportService] ${LIGHT_KIND_LABELS[kind]} light "${obj.name}" can't be exported to glTF, skipping.`);
+        return null;
+    }
+    light.name = obj.name;
+    node.getWorldPosition(light.position);
+
+    // KHR_lights_punctual lights shine down -Z, aim them at their target
+    if (light instanceof THREE.DirectionalLight || light instanceof THREE.SpotLight) {
+        light.lookAt(...(props.target || [0, 0, 0]));
+        light.add(light.target);
+        light.target.position.set(0, 0, -1);
+    }
+    return light;
+};
+
+const buildCameraNode = (obj: SceneObject, node: THREE.Object3D): THREE.Object3D => {
+    const { fov, near, far } = resolveCameraProps(obj.cameraProps);
+    const camera = new THREE.PerspectiveCamera(fov, 16 / 9, near, far);
+    camera.name = obj.name;
+    node.getWorldPosition(camera.position);
+    node.getWorldQuaternion(camera.quaternion);
+    return camera;
+};
+
+// Empty node standing in for a group, its children are attached to it afterwards
+const buildGroupNode = (obj: SceneObject, node: THREE.Object3D): THREE.Object3D => {
+    const group = new THREE.Group();
+    group.name = obj.name;
+    copyWorldTransform(node, group);
+    return group;
+};
+
+const compressWithDraco = async (glb: ArrayBuffer): Promise<Uint8Array> => {
+    const encoder = await loadDracoEncoder();
+    const io = new WebIO()
+        .registerExtensions(ALL_EXTENSIONS)
+        .registerDependencies({ 'draco3d.encoder': encoder });
+
+    const document = await io.readBinary(new Uint8Array(glb));
+    document.createExtension(KHRDracoMeshCompression)
+        .setRequired(true)
+        .setEncoderOptions({
+            method: KHRDracoMeshCompression.EncoderMethod.EDGEBREAKER,
+            encodeSpeed: 5,
+            decodeSpeed: 5
+        });
+    return io.writeBinary(document);
+};
+
+/**
+ * Exports the given scene objects into a single binary glTF.
+ * Models and primitives keep their materials as shown in the viewport (material overrides included), lights become
+ * KHR_lights_punctual nodes (area and hemisphere lights have no glTF equivalent and are skipped)
+ * and cameras become camera nodes.
+ * Groups and parented objects become nested nodes with transforms relative to their parent; with
+ * applyTransforms the hierarchy is flattened and every mesh is baked in world space instead.
+ * Objects whose parent is not exported stay at the root with their world transform.
+ * Editor helpers (grid, gizmos, TransformControls, icons) are skipped.
+ */
+export const exportSceneToGLB = async (
+    scene: THREE.Object3D,
+    objects: SceneObject[],
+    options: GLBExportOptions
+): Promise<Blob> => {
+    scene.updateMatrixWorld(true);
+
+    const exportScene = new THREE.Scene();
+    exportScene.name = 'Scene';
+
+    const exported = new Map<string, THREE.Object3D>();
+    for (const obj of objects) {
+        const node = findSceneObjectNode(scene, obj.id);
+        if (!node) {
+            console.warn(`[ExportService] "${obj.name}" is not loaded in the viewport, skipping.`);
+            continue;
+        }
+
+        let exportNode: THREE.Object3D | null = null;
+        if (isMeshObject(obj)) exportNode = buildModelNode(obj, node, options.applyTransforms);
+        else if (obj.type === 'light') exportNode = buildLightNode(obj, node);
+        else if (obj.type === 'camera') exportNode = buildCameraNode(obj, node);
+        else if (obj.type === 'group' && !options.applyTransforms) exportNode = buildGroupNode(obj, node);
+
+        if (exportNode) {
+            exportScene.add(exportNode);
+            exported.set(obj.id, exportNode);
+        }
+    }
+
+    if (!options.applyTransforms) {
+        // Nodes are built in world space, attach() keeps that while making the transform local to the parent
+        exportScene.updateMatrixWorld(true);
+        for (const obj of objects) {
+            const parent = obj.parentId ? exported.get(obj.parentId) : undefined;
+            const child = exported.get(obj.id);
+            if (parent && child) parent.attach(child);
+        }
+    }
+
+    if (exportScene.children.length === 0) {
+        throw new Error('Nothing to export');
+    }
+
+    const exporter = new GLTFExporter();
+    const result = await exporter.parseAsync(exportScene, { binary: true, onlyVisible: true });
+    if (!(result instanceof ArrayBuffer)) throw new Error('Exporter did not return binary data');
+
+    const data = options.draco ? await compressWithDraco(result) : new Uint8Array(result);
+    return new Blob([data as BlobPart], { type: 'model/gltf-binary' });
+};
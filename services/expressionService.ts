@@ -0,0 +1,67 @@
+/**
+ * Numeric expressions typed into number fields, e.g. "1.5*2", "(10 - 4) / 3", "90 + 45", "-pi/2".
+ *
+ * A small recursive descent parser (never eval): + - * / % ^, parentheses, unary signs and the
+ * constants pi and e. Returns null for anything that isn't a finite number.
+ */
+
+const CONSTANTS = new Map([['pi', Math.PI], ['e', Math.E]]);
+
+export const evaluateExpression = (text: string): number | null => {
+    const tokens = text.toLowerCase().match(/(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?|[a-z]+|[-+*/%^()]|\S/g);
+    if (!tokens) return null;
+    let pos = 0;
+
+    const fail = (): never => { throw new Error('Invalid expression'); };
+
+    const primary = (): number => {
+        const token = tokens[pos++];
+        if (token === undefined) return fail();
+        if (token === '(') {
+            const value = sum();
+            if (tokens[pos++] !== ')') fail();
+            return value;
+        }
+        if (token === '-') return -power();
+        if (token === '+') return power();
+        const constant = CONSTANTS.get(token);
+        if (constant !== undefined) return constant;
+        const value = Number(token);
+        return Number.isNaN(value) ? fail() : value;
+    };
+
+    // Right associative, binds tighter than unary minus on its left ("-2^2" = -4)
+    const power = (): number => {
+        const base = primary();
+        if (tokens[pos] !== '^') return base;
+        pos++;
+        return Math.pow(base, power());
+    };
+
+    const product = (): number => {
+        let value = power();
+        while (tokens[pos] === '*' || tokens[pos] === '/' || tokens[pos] === '%') {
+            const op = tokens[pos++];
+            const rhs = power();
+            value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+        }
+        return value;
+    };
+
+    const sum = (): number => {
+        let value = product();
+        while (tokens[pos] === '+' || tokens[pos] === '-') {
+            const op = tokens[pos++];
+            const rhs = product();
+            value = op === '+' ? value + rhs : value - rhs;
+        }
+        return value;
+    };
+
+    try {
+        const value = sum();
+        return pos === tokens.length && Number.isFinite(value) ? value : null;
+    } catch {
+        return null;
+    }
+};
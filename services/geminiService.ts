@@ -1,4 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
+import { CapturePass, CapturePasses, ShadingMode } from "../types";
 
 // Initialize the Google GenAI client
 // API Key is injected via environment variable as per system instructions
@@ -11,8 +12,31 @@ export interface GenerationConfig {
   fov?: number;
   cameraInfo?: string;
   lightingInfo?: string; // NEW: Description of scene lights
+  referencePass?: ShadingMode; // How the reference image was shaded (lit when unset)
+  guidePasses?: CapturePasses; // Extra images (base64 data URLs) sent after the reference
+  maskLegend?: string; // Object name per ID mask color
+  seed?: number; // Fixed seed keeps consecutive frames of a sequence consistent
+  signal?: AbortSignal; // Cancels the request client-side (render queue)
 }
 
+// Tells the model how to read a non-lit reference image
+const REFERENCE_PASS_HINTS: Partial<Record<ShadingMode, string>> = {
+  clay: 'The reference image is a neutral grey clay render. Use it for shape, composition and shadows only, all materials and colors come from the prompt.',
+  wireframe: 'The reference image is a wireframe render. The lines describe the geometry, they are not part of the final image.',
+  normals: 'The reference image is a surface normals pass (RGB encodes surface orientation). Use it for geometry only, the colors are not part of the final image.',
+  depth: 'The reference image is a depth pass (white is near, black is far). Use it for geometry and spatial layout only.',
+  unlit: 'The reference image shows unlit base colors without shading. Keep these colors, add lighting and shadows as described.'
+};
+
+// Caption placed before each guide image, {n} is the image number
+const GUIDE_PASS_CAPTIONS: Record<CapturePass, string> = {
+  depth: 'Image {n} is a depth map of the same view (white is near, black is far). Use it to keep distances and layering exact.',
+  normal: 'Image {n} is a surface normal map of the same view (RGB encodes surface orientation). Use it to keep surface shapes and edges exact.',
+  mask: 'Image {n} is an object ID mask of the same view, every object has one flat color. Keep each object inside its masked area.'
+};
+
+const stripDataUrl = (url: string) => url.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+
 /**
  * Uses Gemini 3 Flash to optimize a simple user prompt into a detailed 3D generation prompt.
  */
@@ -92,10 +116,10 @@ export const analyzeSceneAndSuggestPrompts = async (imageBase64: string): Promis
  * using the 'gemini-2.5-flash-image' model (Nano Banana).
  */
 export const generateRefinedImage = async (config: GenerationConfig): Promise<string> => {
-  const { prompt, referenceImage, aspectRatio = "1:1", fov, cameraInfo, lightingInfo } = config;
+  const { prompt, referenceImage, aspectRatio = "1:1", fov, cameraInfo, lightingInfo, referencePass, guidePasses = {}, maskLegend, seed, signal } = config;
 
   // Clean the base64 string (remove data URI prefix if present)
-  const cleanBase64 = referenceImage.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+  const cleanBase64 = stripDataUrl(referenceImage);
 
   // Construct a more detailed prompt using Camera info
   let fullPrompt = prompt || "High quality 3D render, photorealistic, 8k resolution, detailed texture, cinematic lighting.";
@@ -120,9 +144,26 @@ export const generateRefinedImage = async (config: GenerationConfig): Promise<st
       fullPrompt += ` Do not change the camera angle. Apply the style and details while keeping the geometry aligned with this view.`;
   }
 
+  // 3. REFERENCE PASS
+  const passHint = referencePass && REFERENCE_PASS_HINTS[referencePass];
+  if (passHint) {
+      fullPrompt += `\n\n[REFERENCE PASS]: ${passHint}`;
+  }
+
+  // 4. GUIDE IMAGES (image 1 is the reference, guides follow in pass order)
+  const guides = (Object.keys(GUIDE_PASS_CAPTIONS) as CapturePass[]).filter(pass => guidePasses[pass]);
+  const guideParts = guides.flatMap((pass, i) => [
+      { text: GUIDE_PASS_CAPTIONS[pass].replace('{n}', String(i + 2)) },
+      { inlineData: { mimeType: 'image/png', data: stripDataUrl(guidePasses[pass]!) } }
+  ]);
+  if (guides.length > 0) {
+      fullPrompt += `\n\n[GUIDE IMAGES]: Image 1 is the reference to restyle. Images 2-${guides.length + 1} are technical guides of the same view, never reproduce them directly.`;
+      if (guides.includes('mask') && maskLegend) fullPrompt += `\nMask colors:\n${maskLegend}`;
+  }
+
   // --- GENERAL INSTRUCTIONS ---
 
-  // 3. CONSISTENCY & OPTIMIZATION
+  // 5. CONSISTENCY & OPTIMIZATION
   fullPrompt += `\n\n[CONSISTENCY]: Strictly maintain the main subject's geometry, pose, and structural integrity from the reference image. Do not add, remove, or distort major objects.`;
   fullPrompt += `\n[OPTIMIZATION]: Analyze the scene's composition and apply high-fidelity material textures to enhance realism and visual impact.`;
 
@@ -138,6 +179,7 @@ export const generateRefinedImage = async (config: GenerationConfig): Promise<st
               data: cleanBase64
             }
           },
+          ...guideParts,
           {
             text: fullPrompt
           }
@@ -146,7 +188,9 @@ export const generateRefinedImage = async (config: GenerationConfig): Promise<st
       config: {
         imageConfig: {
             aspectRatio: aspectRatio
-        }
+        },
+        ...(seed !== undefined && { seed }),
+        abortSignal: signal
       }
     });
 
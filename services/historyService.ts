@@ -0,0 +1,145 @@
+import { ModelTransform, RenderSettings, SceneObject, TransformMode } from '../types';
+
+/**
+ * Labelled undo history.
+ *
+ * Each undoable store action records the state it started from under a label ("Move Helmet",
+ * "Change Light 1 color"). Continuous edits (slider drags, typing into a field) pass a coalesce key:
+ * while the same key keeps coming in with pauses shorter than COALESCE_WINDOW_MS they extend the
+ * last step instead of adding new ones. Gestures with a clear end (gizmo drags) close their step
+ * on release with sealHistory, so two quick drags stay two steps. Only the last HISTORY_LIMIT
+ * steps are kept.
+ *
+ * Steps hold state snapshots rather than inverse patches on purpose. The store never mutates its
+ * values, so a snapshot holds references, not copies: an object or settings block that no step
+ * replaced is shared by every entry and the live state. A step therefore costs an object list
+ * of references plus the objects and settings it replaced, about what a patch would hold, and
+ * undo stays correct for every action without each one having to describe its own inverse.
+ */
+
+export const HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryCommand {
+    label: string;
+    coalesceKey?: string; // Steps with the same key merge while the edit goes on
+}
+
+export interface HistoryEntry<T> extends HistoryCommand {
+    state: T; // On the undo stack the state before the step, on the redo stack the state after it
+    time: number; // Last edit merged into the step
+}
+
+/**
+ * Undo stack with a step recorded, `before` being the state the step started from.
+ */
+export const pushHistory = <T>(past: HistoryEntry<T>[], before: T, command: HistoryCommand, now = Date.now()): HistoryEntry<T>[] => {
+    const last = past[past.length - 1];
+    if (command.coalesceKey && last?.coalesceKey === command.coalesceKey && now - last.time < COALESCE_WINDOW_MS) {
+        // Same edit still going: the step keeps the state (and label) it started with
+        return [...past.slice(0, -1), { ...last, time: now }];
+    }
+    return [...past, { ...command, state: before, time: now }].slice(-HISTORY_LIMIT);
+};
+
+/**
+ * Stops the last step from taking in further edits (after undo or redo the next edit is a new step).
+ */
+export const sealHistory = <T>(past: HistoryEntry<T>[]): HistoryEntry<T>[] => {
+    const last = past[past.length - 1];
+    return last?.coalesceKey ? [...past.slice(0, -1), { ...last, coalesceKey: undefined }] : past;
+};
+
+// "bevelThickness" -> "bevel thickness"
+const humanize = (key: string) => key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Keys whose values differ, following a single changed sub-object down (primitive params)
+const getChangedKeys = (before: Record<string, unknown>, after: Record<string, unknown>): string[] => {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(k => before[k] !== after[k]);
+    if (keys.length === 1 && isPlainObject(before[keys[0]]) && isPlainObject(after[keys[0]])) {
+        const nested = getChangedKeys(before[keys[0]] as Record<string, unknown>, after[keys[0]] as Record<string, unknown>);
+        if (nested.length > 0) return nested;
+    }
+    return keys;
+};
+
+/**
+ * "Helmet" for one object, "3 objects" for several.
+ */
+export const describeObjects = (objects: SceneObject[]): string =>
+    objects.length === 1 ? objects[0].name : `${objects.length} objects`;
+
+/**
+ * Label of an edit made through updateSceneObject, e.g. "Change Light 1 color" or "Hide Helmet".
+ */
+export const describeObjectUpdate = (obj: SceneObject, updates: Partial<SceneObject>): HistoryCommand => {
+    const fields = Object.keys(updates) as (keyof SceneObject)[];
+    const coalesceKey = `object:${obj.id}:${fields.join()}`;
+    if (fields.length !== 1) return { label: `Edit ${obj.name}`, coalesceKey };
+
+    const field = fields[0];
+    if (field === 'name') return { label: `Rename ${obj.name}`, coalesceKey };
+    if (field === 'visible') return { label: `${updates.visible ? 'Show' : 'Hide'} ${obj.name}` };
+    if (field === 'locked') return { label: `${updates.locked ? 'Lock' : 'Unlock'} ${obj.name}` };
+    if (field === 'materialOverrides') return { label: `Change ${obj.name} material`, coalesceKey };
+
+    const before = obj[field];
+    const after = updates[field];
+    if (before === undefined) return { label: `Add ${humanize(field)} to ${obj.name}` };
+    if (after === undefined) return { label: `Remove ${obj.name} ${humanize(field)}` };
+    if (!isPlainObject(before) || !isPlainObject(after)) return { label: `Change ${obj.name} ${humanize(field)}`, coalesceKey };
+
+    // Settings blocks (light, camera, text, array...) name what changed inside them
+    const changed = getChangedKeys(before, after);
+    const subject = changed.length === 1 ? humanize(changed[0]) : 'settings';
+    return { label: `Change ${obj.name} ${subject}`, coalesceKey: `${coalesceKey}:${changed.join()}` };
+};
+
+const TRANSFORM_VERBS: Record<keyof ModelTransform, string> = {
+    position: 'Move',
+    rotation: 'Rotate',
+    scale: 'Scale'
+};
+
+export const TRANSFORM_MODE_VERBS: Record<TransformMode, string> = {
+    translate: 'Move',
+    rotate: 'Rotate',
+    scale: 'Scale'
+};
+
+/**
+ * Label of a transform edit from the properties panel or a gizmo, e.g. "Move Helmet".
+ */
+export const describeTransform = (objects: SceneObject[], updates: Partial<ModelTransform>): HistoryCommand => {
+    const fields = Object.keys(updates) as (keyof ModelTransform)[];
+    const verb = fields.length === 1 ? TRANSFORM_VERBS[fields[0]] : 'Transform';
+    return {
+        label: `${verb} ${describeObjects(objects)}`,
+        coalesceKey: `transform:${objects.map(o => o.id).join()}:${fields.join()}`
+    };
+};
+
+const RENDER_SETTING_LABELS: Record<keyof RenderSettings, string> = {
+    autoRotate: 'Auto Rotate',
+    gridVisible: 'Grid',
+    environment: 'Environment',
+    shadingMode: 'Shading',
+    supersampling: 'Supersampling',
+    resolutionPreset: 'Resolution',
+    safeFrame: 'Safe Frame',
+    snapping: 'Snapping'
+};
+
+/**
+ * Label of a render settings edit, e.g. "Change Environment".
+ */
+export const describeRenderSettingsUpdate = (updates: Partial<RenderSettings>): HistoryCommand => {
+    const fields = Object.keys(updates) as (keyof RenderSettings)[];
+    return {
+        label: fields.length === 1 ? `Change ${RENDER_SETTING_LABELS[fields[0]]}` : 'Change Render Settings',
+        coalesceKey: `settings:${fields.join()}`
+    };
+};
@@ -0,0 +1,56 @@
+/**
+ * Minimal promise wrapper around IndexedDB, shared by the asset library and the render queue.
+ *
+ * Each database is opened lazily on first use and kept open; a failed open is retried on the
+ * next call. Stores missing from the database are created on upgrade.
+ */
+
+export interface StoreDefinition {
+  name: string;
+  keyPath?: string; // Out-of-line keys when unset
+}
+
+export type WithStore = <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+
+/**
+ * Returns a helper running single-store transactions on the given database,
+ * resolving with the request result once the transaction completes.
+ */
+export const createDatabase = (name: string, version: number, stores: StoreDefinition[]): WithStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of stores) {
+          if (!db.objectStoreNames.contains(store.name)) db.createObjectStore(store.name, store.keyPath ? { keyPath: store.keyPath } : undefined);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error(`Failed to open ${name}`));
+      };
+    });
+    return dbPromise;
+  };
+
+  return async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = fn(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error || request.error);
+      tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    });
+  };
+};
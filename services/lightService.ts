@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { LightKind, LightProps, SceneObject } from '../types';
+import { getWorldTransform } from './sceneGraph';
+
+/**
+ * Light kinds: defaults, labels and the plain-language description sent to Gemini.
+ */
+
+export const LIGHT_KIND_LABELS: Record<LightKind, string> = {
+    directional: 'Directional',
+    point: 'Point',
+    spot: 'Spot',
+    'rect-area': 'Area (Rect)',
+    hemisphere: 'Hemisphere'
+};
+
+// Point/spot/area intensities are physical (candela / nits), so they need larger values than a sun light
+const LIGHT_DEFAULTS: Record<LightKind, Omit<LightProps, 'color'>> = {
+    directional: { kind: 'directional', intensity: 1.0, castShadow: true, target: [0, 0, 0] },
+    point: { kind: 'point', intensity: 20, castShadow: true, distance: 0, decay: 2 },
+    spot: { kind: 'spot', intensity: 40, castShadow: true, distance: 0, decay: 2, angle: Math.PI / 6, penumbra: 0.3, target: [0, 0, 0] },
+    'rect-area': { kind: 'rect-area', intensity: 5, castShadow: false, width: 2, height: 1, target: [0, 0, 0] },
+    hemisphere: { kind: 'hemisphere', intensity: 1.0, castShadow: false, groundColor: '#444444' }
+};
+
+export const getLightKind = (props?: LightProps): LightKind => props?.kind || 'directional';
+
+/**
+ * Default properties for a new light of the given kind.
+ */
+export const createLightProps = (kind: LightKind, color = '#ffffff'): LightProps => ({
+    ...LIGHT_DEFAULTS[kind],
+    color
+});
+
+/**
+ * Switches a light to another kind, keeping its color and any properties the new kind shares.
+ */
+export const convertLightProps = (props: LightProps, kind: LightKind): LightProps => ({
+    ...createLightProps(kind, props.color),
+    ...(props.target && LIGHT_DEFAULTS[kind].target && { target: props.target })
+});
+
+export const lightUsesTarget = (kind: LightKind) => kind === 'directional' || kind === 'spot' || kind === 'rect-area';
+
+export const lightCastsShadow = (kind: LightKind) => kind === 'directional' || kind === 'point' || kind === 'spot';
+
+const fmt = (v: number[]) => v.map(n => n.toFixed(1)).join(', ');
+
+// Rough compass description of where light comes from, as seen from +Z (front)
+const describeDirection = (from: THREE.Vector3, to: THREE.Vector3) => {
+    const dir = from.clone().sub(to).normalize();
+    const parts: string[] = [];
+    if (dir.y > 0.5) parts.push('above');
+    else if (dir.y < -0.3) parts.push('below');
+    if (dir.x > 0.35) parts.push('the right');
+    else if (dir.x < -0.35) parts.push('the left');
+    if (dir.z > 0.35) parts.push('the front');
+    else if (dir.z < -0.35) parts.push('behind');
+    return parts.length > 0 ? `coming from ${parts.join(', ')}` : 'coming from straight ahead';
+};
+
+/**
+ * One-line description of a light for the image model.
+ */
+export const describeLight = (light: SceneObject, objects: SceneObject[], index: number): string => {
+    const props = light.lightProps || createLightProps('directional');
+    const kind = getLightKind(props);
+    const position = new THREE.Vector3(...getWorldTransform(objects, light.id).position);
+    const target = new THREE.Vector3(...(props.target || [0, 0, 0]));
+    const base = `Color: ${props.color}. Intensity: ${props.intensity}.`;
+    const shadows = lightCastsShadow(kind) ? (props.castShadow ? ' Casts hard shadows.' : ' Casts no shadows.') : '';
+
+    switch (kind) {
+        case 'point':
+            return `Source ${index}: Point light (bare bulb, omnidirectional) at (${fmt(position.toArray())}). ` +
+                `Range: ${props.distance ? `${props.distance.toFixed(1)} units` : 'unlimited'}, falls off with distance. ${base}${shadows}`;
+        case 'spot': {
+            const angle = THREE.MathUtils.radToDeg(props.angle ?? Math.PI / 6);
+            return `Source ${index}: Spot light at (${fmt(position.toArray())}) aimed at (${fmt(target.toArray())}), ${describeDirection(position, target)}. ` +
+                `Cone angle: ${(angle * 2).toFixed(0)} degrees, edge softness: ${Math.round((props.penumbra ?? 0) * 100)}%. Creates a pool of light. ${base}${shadows}`;
+        }
+        case 'rect-area':
+            return `Source ${index}: Rectangular area light / softbox (${(props.width ?? 1).toFixed(1)} x ${(props.height ?? 1).toFixed(1)} units) at (${fmt(position.toArray())}) ` +
+                `facing (${fmt(target.toArray())}), ${describeDirection(position, target)}. Produces soft, diffuse light and soft shadows. ${base}`;
+        case 'hemisphere':
+            return `Source ${index}: Hemisphere ambient light, sky color ${props.color} from above and ground color ${props.groundColor || '#444444'} from below. ` +
+                `Intensity: ${props.intensity}. Fills shadows, no direct highlights.`;
+        default:
+            return `Source ${index}: Directional light (sun-like, parallel rays) positioned at (${fmt(position.toArray())}) aimed at (${fmt(target.toArray())}), ` +
+                `${describeDirection(position, target)}. ${base}${shadows}`;
+    }
+};
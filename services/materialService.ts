@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import { MaterialMapSlot, MaterialOverride, ModelMaterialInfo } from '../types';
+import { registerLitMaterial } from './shadingService';
+
+/**
+ * Material overrides for loaded models.
+ *
+ * Model instances share the materials of the cached GLTF, so each instance gets its own copies
+ * first. Overrides are always applied on top of a fresh copy of the original, which makes
+ * removing an override (undo, reset) restore the model's own values.
+ */
+
+export const MATERIAL_MAP_LABELS: Record<MaterialMapSlot, string> = {
+    map: 'Base Color',
+    normalMap: 'Normal',
+    roughnessMap: 'Roughness',
+    metalnessMap: 'Metalness',
+    emissiveMap: 'Emissive'
+};
+
+const COLOR_MAPS: MaterialMapSlot[] = ['map', 'emissiveMap'];
+
+// Properties shared by the material types the loaders produce (standard, physical, phong, lambert, basic)
+type EditableMaterial = THREE.Material & Partial<Pick<THREE.MeshStandardMaterial, 'color' | 'roughness' | 'metalness' | 'emissive' | 'emissiveIntensity' | MaterialMapSlot>>;
+
+export interface MaterialBinding {
+    key: string;
+    original: EditableMaterial; // Cached GLTF material, read only
+    material: EditableMaterial; // This instance's copy
+    meshCount: number;
+}
+
+/**
+ * Replaces every mesh material under root with a copy, one per distinct material, and registers
+ * the copies as the meshes' lit materials for the shading modes.
+ * Keys are the material names, made unique; unnamed materials are numbered in traversal order.
+ */
+export const cloneModelMaterials = (root: THREE.Object3D): MaterialBinding[] => {
+    const bindings = new Map<THREE.Material, MaterialBinding>();
+    const usedKeys = new Set<string>();
+
+    const bind = (original: THREE.Material) => {
+        let binding = bindings.get(original);
+        if (!binding) {
+            const index = bindings.size + 1;
+            const base = original.name || `Material ${index}`;
+            const key = usedKeys.has(base) ? `${base} (${index})` : base;
+            usedKeys.add(key);
+            binding = { key, original, material: original.clone(), meshCount: 0 };
+            bindings.set(original, binding);
+        }
+        binding.meshCount++;
+        return binding.material;
+    };
+
+    root.traverse((obj) => {
+        const mesh = obj as THREE.Mesh;
+        if (!mesh.isMesh) return;
+        mesh.material = Array.isArray(mesh.material) ? mesh.material.map(bind) : bind(mesh.material);
+        registerLitMaterial(mesh);
+    });
+
+    return Array.from(bindings.values());
+};
+
+/**
+ * Plain description of a binding's original material for the inspector.
+ */
+export const getMaterialInfo = ({ key, original, meshCount }: MaterialBinding): ModelMaterialInfo => ({
+    key,
+    meshCount,
+    pbr: original.roughness !== undefined && original.metalness !== undefined,
+    color: `#${original.color?.getHexString() ?? 'ffffff'}`,
+    roughness: original.roughness ?? 1,
+    metalness: original.metalness ?? 0,
+    emissive: `#${original.emissive?.getHexString() ?? '000000'}`,
+    emissiveIntensity: original.emissiveIntensity ?? 1,
+    opacity: original.opacity,
+    maps: (Object.keys(MATERIAL_MAP_LABELS) as MaterialMapSlot[]).filter(slot => !!original[slot])
+});
+
+// Uploaded textures are shared by every material using them and kept for the session
+const textureCache = new Map<string, THREE.Texture>();
+
+const loadOverrideTexture = (url: string, slot: MaterialMapSlot, flipY: boolean) => {
+    const cacheKey = `${url}|${slot}|${flipY}`;
+    let texture = textureCache.get(cacheKey);
+    if (!texture) {
+        texture = new THREE.TextureLoader().load(url);
+        texture.flipY = flipY;
+        if (COLOR_MAPS.includes(slot)) texture.colorSpace = THREE.SRGBColorSpace;
+        textureCache.set(cacheKey, texture);
+    }
+    return texture;
+};
+
+/**
+ * Resets the binding's material to the original and applies the override, if any.
+ */
+export const applyMaterialOverride = ({ original, material }: MaterialBinding, override?: MaterialOverride) => {
+    material.copy(original);
+
+    if (override) {
+        if (override.color && material.color) material.color.set(override.color);
+        if (override.roughness !== undefined && material.roughness !== undefined) material.roughness = override.roughness;
+        if (override.metalness !== undefined && material.metalness !== undefined) material.metalness = override.metalness;
+        if (override.emissive && material.emissive) material.emissive.set(override.emissive);
+        if (override.emissiveIntensity !== undefined && material.emissiveIntensity !== undefined) material.emissiveIntensity = override.emissiveIntensity;
+        if (override.opacity !== undefined) {
+            material.opacity = override.opacity;
+            material.transparent = original.transparent || override.opacity < 1;
+        }
+
+        // Follow the model's UV convention (glTF textures are not flipped)
+        const existing = (Object.keys(MATERIAL_MAP_LABELS) as MaterialMapSlot[]).map(slot => original[slot]).find(Boolean);
+        const flipY = existing ? existing.flipY : false;
+        for (const [slot, url] of Object.entries(override.maps || {}) as [MaterialMapSlot, string | null][]) {
+            if (!(slot in material)) continue;
+            material[slot] = url ? loadOverrideTexture(url, slot, flipY) : null;
+        }
+    }
+
+    // Maps or transparency may have changed, which needs a new shader program
+    material.needsUpdate = true;
+};
@@ -11,20 +11,11 @@
  * export const storage = getStorage(app);
  */
 
-import { v4 as uuidv4 } from 'uuid';
 import { Asset, AssetStatus } from '../types';
 
-// Mock simulation of Cloud Storage upload
-export const uploadFileToStorage = async (file: File): Promise<string> => {
-  return new Promise((resolve) => {
-    // Simulate network delay
-    setTimeout(() => {
-      // In real app: return await getDownloadURL(storageRef);
-      // Here: create a local object URL
-      resolve(URL.createObjectURL(file));
-    }, 1000);
-  });
-};
+// Cloud Storage upload is backed by the local IndexedDB asset library.
+// In real app: return await getDownloadURL(storageRef);
+export { uploadFileToStorage } from './assetLibrary';
 
 // Mock simulation of Cloud Function behavior
 // This functionality typically lives in `functions/index.js` on GCP
@@ -0,0 +1,251 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { USDZLoader } from 'three/examples/jsm/loaders/USDZLoader.js';
+import { TGALoader } from 'three/examples/jsm/loaders/TGALoader.js';
+import { v4 as uuidv4 } from 'uuid';
+import { AssetStatus, ModelFormat, ModelSource } from '../types';
+import { useAppStore } from '../store/useAppStore';
+import { uploadFileToStorage } from './assetLibrary';
+
+/**
+ * Loader registry keyed by model format.
+ *
+ * glTF/GLB keeps using drei's useGLTF (Draco + caching) in the viewport; every other
+ * format is loaded through the entries below. Side files of a multi-file model
+ * (OBJ + MTL + textures, glTF + .bin) travel as `resources`: a map from file name
+ * to URL that the LoadingManager uses to resolve relative references.
+ */
+
+interface LoaderEntry {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  load?: (url: string, manager: THREE.LoadingManager, resources: Record<string, string>) => Promise<THREE.Object3D>;
+}
+
+// Default surface for formats that only carry geometry (STL, PLY)
+const createGeometryMesh = (geometry: THREE.BufferGeometry): THREE.Object3D => {
+  geometry.computeVertexNormals();
+  const material = new THREE.MeshStandardMaterial({
+    color: '#b4b4b8',
+    roughness: 0.6,
+    metalness: 0.05,
+    vertexColors: !!geometry.attributes.color
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  const group = new THREE.Group();
+  group.add(mesh);
+  return group;
+};
+
+const findResource = (resources: Record<string, string>, extension: string): string | undefined => {
+  const name = Object.keys(resources).find(n => n.toLowerCase().endsWith(`.${extension}`));
+  return name ? resources[name] : undefined;
+};
+
+export const MODEL_LOADERS: Record<ModelFormat, LoaderEntry> = {
+  glb: { label: 'GLB', extensions: ['glb'], mimeTypes: ['model/gltf-binary'] },
+  gltf: { label: 'glTF', extensions: ['gltf'], mimeTypes: ['model/gltf+json'] },
+  obj: {
+    label: 'OBJ',
+    extensions: ['obj'],
+    mimeTypes: ['model/obj', 'text/plain'],
+    load: async (url, manager, resources) => {
+      const loader = new OBJLoader(manager);
+      // Apply the bundled MTL file (if any) so textures and colors come through
+      const mtlUrl = findResource(resources, 'mtl');
+      if (mtlUrl) {
+        const materials = await new MTLLoader(manager).loadAsync(mtlUrl);
+        materials.preload();
+        loader.setMaterials(materials);
+      }
+      return loader.loadAsync(url);
+    }
+  },
+  fbx: {
+    label: 'FBX',
+    extensions: ['fbx'],
+    mimeTypes: ['application/octet-stream'],
+    load: (url, manager) => new FBXLoader(manager).loadAsync(url)
+  },
+  stl: {
+    label: 'STL',
+    extensions: ['stl'],
+    mimeTypes: ['model/stl', 'application/sla'],
+    load: async (url, manager) => createGeometryMesh(await new STLLoader(manager).loadAsync(url))
+  },
+  ply: {
+    label: 'PLY',
+    extensions: ['ply'],
+    mimeTypes: ['application/ply'],
+    load: async (url, manager) => createGeometryMesh(await new PLYLoader(manager).loadAsync(url))
+  },
+  usdz: {
+    label: 'USDZ',
+    extensions: ['usdz'],
+    mimeTypes: ['model/vnd.usdz+zip'],
+    load: (url, manager) => new USDZLoader(manager).loadAsync(url)
+  }
+};
+
+// Files that may accompany a model in a multi-file import
+const RESOURCE_EXTENSIONS = ['mtl', 'bin', 'png', 'jpg', 'jpeg', 'webp', 'tga', 'bmp', 'gif'];
+
+export const ACCEPTED_MODEL_FILES = [
+  ...Object.values(MODEL_LOADERS).flatMap(l => l.extensions),
+  ...RESOURCE_EXTENSIONS
+].map(ext => `.${ext}`).join(',');
+
+const getExtension = (name: string) => (name.split(/[?#]/)[0].split('.').pop() || '').toLowerCase();
+
+/**
+ * Resolves the model format from a file name, falling back to the MIME type.
+ */
+export const detectModelFormat = (fileName: string, mimeType?: string): ModelFormat | null => {
+  const ext = getExtension(fileName);
+  for (const [format, entry] of Object.entries(MODEL_LOADERS) as [ModelFormat, LoaderEntry][]) {
+    if (entry.extensions.includes(ext)) return format;
+  }
+  if (mimeType) {
+    for (const [format, entry] of Object.entries(MODEL_LOADERS) as [ModelFormat, LoaderEntry][]) {
+      if (entry.mimeTypes.includes(mimeType) && mimeType !== 'application/octet-stream' && mimeType !== 'text/plain') return format;
+    }
+  }
+  return null;
+};
+
+export const isGLTFFormat = (format?: ModelFormat) => !format || format === 'glb' || format === 'gltf';
+
+/**
+ * Builds a LoadingManager that maps relative file references (e.g. "textures/wood.png"
+ * inside an MTL) to the URLs of the files that were imported together with the model.
+ */
+export const createResourceManager = (resources: Record<string, string> = {}): THREE.LoadingManager => {
+  const manager = new THREE.LoadingManager();
+  const byName = new Map<string, string>();
+  Object.entries(resources).forEach(([name, url]) => byName.set(name.toLowerCase(), url));
+
+  manager.setURLModifier((url) => {
+    if (byName.size === 0) return url;
+    const cleaned = decodeURIComponent(url.split(/[?#]/)[0]).replace(/\\/g, '/');
+    const baseName = cleaned.split('/').pop()?.toLowerCase() || '';
+    return byName.get(baseName) || url;
+  });
+  manager.addHandler(/\.tga$/i, new TGALoader(manager));
+  return manager;
+};
+
+export interface ModelBundle {
+  file: File;
+  format: ModelFormat;
+  resourceFiles: File[];
+}
+
+/**
+ * Groups a multi-file drop into model bundles. Every recognised model file becomes a
+ * bundle and the remaining files (MTL, .bin, textures) are shared as its resources.
+ */
+export const resolveModelBundles = (files: File[]): { bundles: ModelBundle[]; ignored: File[] } => {
+  const models: { file: File; format: ModelFormat }[] = [];
+  const resourceFiles: File[] = [];
+  const ignored: File[] = [];
+
+  for (const file of files) {
+    const format = detectModelFormat(file.name, file.type);
+    if (format) models.push({ file, format });
+    else if (RESOURCE_EXTENSIONS.includes(getExtension(file.name))) resourceFiles.push(file);
+    else ignored.push(file);
+  }
+
+  return {
+    bundles: models.map(m => ({ ...m, resourceFiles: m.format === 'glb' ? [] : resourceFiles })),
+    ignored
+  };
+};
+
+/**
+ * Stores dropped/uploaded model files in the asset library and adds each model to the scene.
+ * Returns the names of the imported models and the files that were not recognised.
+ */
+export const importModelFiles = async (files: File[]): Promise<{ imported: string[]; ignored: File[] }> => {
+  const { bundles, ignored } = resolveModelBundles(files);
+  const { addAsset, addModelToScene, addNotification } = useAppStore.getState();
+
+  // Side files are shared between the models of one drop, store each of them once
+  const resourceUrls = new Map<File, string>();
+  const unstored = new Set<File>();
+  const imported: string[] = [];
+  let unsaved = 0;
+
+  const store = async (file: File): Promise<string> => {
+    try {
+      return await uploadFileToStorage(file);
+    } catch (err) {
+      // No local storage (e.g. private mode): the model still works for this session
+      console.warn(`[ModelLoaders] Could not store ${file.name}, keeping it in memory:`, err);
+      unstored.add(file);
+      return URL.createObjectURL(file);
+    }
+  };
+
+  for (const bundle of bundles) {
+    const url = await store(bundle.file);
+    let resources: Record<string, string> | undefined;
+    if (bundle.resourceFiles.length > 0) {
+      resources = {};
+      for (const file of bundle.resourceFiles) {
+        if (!resourceUrls.has(file)) resourceUrls.set(file, await store(file));
+        resources[file.name] = resourceUrls.get(file)!;
+      }
+    }
+    if ([bundle.file, ...bundle.resourceFiles].some(f => unstored.has(f))) unsaved++;
+
+    addAsset({
+      id: uuidv4(),
+      originalName: bundle.file.name,
+      imageUrl: `https://placehold.co/100x100/27272a/52525b?text=${MODEL_LOADERS[bundle.format].label}`,
+      status: AssetStatus.COMPLETED,
+      modelUrl: url,
+      modelFormat: bundle.format,
+      resources,
+      createdAt: Date.now()
+    });
+    addModelToScene(url, bundle.file.name, { format: bundle.format, resources });
+    imported.push(bundle.file.name);
+  }
+
+  if (unsaved > 0) addNotification('info', `${unsaved === 1 ? 'Model is' : `${unsaved} models are`} not stored and will be lost on reload`);
+  return { imported, ignored };
+};
+
+const modelCache = new Map<string, Promise<THREE.Object3D>>();
+
+/**
+ * Loads a non-glTF model through the registry. Results are cached per URL so the
+ * promise can be consumed with React's `use()` inside Suspense.
+ */
+export const loadModelCached = (url: string, source: ModelSource): Promise<THREE.Object3D> => {
+  const key = `${source.format}:${url}`;
+  let promise = modelCache.get(key);
+  if (!promise) {
+    const entry = source.format ? MODEL_LOADERS[source.format] : undefined;
+    if (!entry?.load) {
+      promise = Promise.reject(new Error(`No loader registered for format "${source.format}"`));
+    } else {
+      const resources = source.resources || {};
+      promise = entry.load(url, createResourceManager(resources), resources);
+    }
+    modelCache.set(key, promise);
+  }
+  return promise;
+};
+
+export const clearModelCache = (url: string) => {
+  for (const key of modelCache.keys()) {
+    if (key.endsWith(`:${url}`)) modelCache.delete(key);
+  }
+};
@@ -0,0 +1,55 @@
+import * as THREE from 'three';
+import { zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { CapturePass, CapturePasses, SceneObject } from '../types';
+
+/**
+ * Guide passes (depth, normal, ID mask) captured next to the reference image.
+ *
+ * The viewer renders the passes, this module assigns the mask colors, describes them
+ * for Gemini and packs everything for download.
+ */
+
+export const CAPTURE_PASS_LABELS: Record<CapturePass, string> = {
+    depth: 'Depth',
+    normal: 'Normal',
+    mask: 'ID Mask'
+};
+
+// Objects that get their own mask color (lights, cameras and groups have no surfaces)
+const hasSurfaces = (obj: SceneObject) => obj.visible && obj.type !== 'light' && obj.type !== 'camera' && obj.type !== 'group';
+
+/**
+ * Distinct mask color per visible object, keyed by SceneObject id. Hues are spread by the
+ * golden angle so neighbouring objects never get similar colors.
+ */
+export const getMaskColors = (objects: SceneObject[]): Map<string, string> => {
+    const colors = new Map<string, string>();
+    objects.filter(hasSurfaces).forEach((obj, i) => {
+        colors.set(obj.id, `#${new THREE.Color().setHSL((i * 0.618034) % 1, 0.9, 0.5).getHexString()}`);
+    });
+    return colors;
+};
+
+/**
+ * Color legend of the mask pass, one object per line.
+ */
+export const describeMaskLegend = (objects: SceneObject[], colors: Map<string, string>): string =>
+    objects
+        .filter(obj => colors.has(obj.id))
+        .map(obj => `${colors.get(obj.id)} = ${obj.name}`)
+        .join('\n');
+
+const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
+
+/**
+ * Packs the reference image and its passes into one zip (`<baseName>_beauty.png`, `<baseName>_depth.png`, ...).
+ */
+export const zipPasses = async (beauty: string, passes: CapturePasses, baseName: string): Promise<Blob> => {
+    const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+    const images: [string, string | undefined][] = [['beauty', beauty], ...Object.entries(passes)];
+    for (const [name, url] of images) {
+        if (!url) continue;
+        entries[`${baseName}_${name}.png`] = [new Uint8Array(await (await dataUrlToBlob(url)).arrayBuffer()), { level: 0 }];
+    }
+    return new Blob([zipSync(entries)], { type: 'application/zip' });
+};
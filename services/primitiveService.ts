@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
+import { PrimitiveProps, PrimitiveShape } from '../types';
+
+/**
+ * Built-in shapes (floors, pedestals, props) and the cyclorama studio backdrop.
+ *
+ * Every shape is built with its origin at the bottom center, so a new primitive stands on the
+ * floor and keeps standing on it when scaled. Parameters are plain numbers per shape, described
+ * by PRIMITIVE_SHAPES so the inspector can list them without knowing the shape.
+ */
+
+export interface PrimitiveParam {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    default: number;
+}
+
+interface PrimitiveShapeInfo {
+    label: string;
+    params: PrimitiveParam[];
+}
+
+const size = (key: string, label: string, value: number, max = 10): PrimitiveParam => ({ key, label, min: 0.01, max, step: 0.01, default: value });
+const segments = (value: number, min = 3, max = 128): PrimitiveParam => ({ key: 'segments', label: 'Segments', min, max, step: 1, default: value });
+
+export const PRIMITIVE_SHAPES: Record<PrimitiveShape, PrimitiveShapeInfo> = {
+    plane: { label: 'Plane', params: [size('width', 'Width', 4, 50), size('depth', 'Depth', 4, 50)] },
+    box: { label: 'Box', params: [size('width', 'Width', 1), size('height', 'Height', 1), size('depth', 'Depth', 1)] },
+    'rounded-box': { label: 'Rounded Box', params: [size('width', 'Width', 1), size('height', 'Height', 1), size('depth', 'Depth', 1), size('radius', 'Corner Radius', 0.1, 1), segments(4, 1, 16)] },
+    sphere: { label: 'Sphere', params: [size('radius', 'Radius', 0.5, 5), segments(32)] },
+    cylinder: { label: 'Cylinder', params: [size('radiusTop', 'Top Radius', 0.5, 5), size('radiusBottom', 'Bottom Radius', 0.5, 5), size('height', 'Height', 1), segments(32)] },
+    cone: { label: 'Cone', params: [size('radius', 'Radius', 0.5, 5), size('height', 'Height', 1), segments(32)] },
+    torus: { label: 'Torus', params: [size('radius', 'Radius', 0.5, 5), size('tube', 'Thickness', 0.15, 2), segments(48)] },
+    cyclorama: { label: 'Cyclorama Backdrop', params: [size('width', 'Width', 12, 50), size('depth', 'Floor Depth', 8, 50), size('height', 'Wall Height', 6, 30), size('radius', 'Curve Radius', 2, 10), segments(24, 2, 64)] }
+};
+
+/**
+ * Parameters of a new primitive of the given shape.
+ */
+export const createPrimitiveProps = (shape: PrimitiveShape): PrimitiveProps => ({
+    shape,
+    params: Object.fromEntries(PRIMITIVE_SHAPES[shape].params.map(p => [p.key, p.default]))
+});
+
+// Parameter value clamped to its range, the default when missing
+const getParam = (props: PrimitiveProps, key: string): number => {
+    const param = PRIMITIVE_SHAPES[props.shape].params.find(p => p.key === key)!;
+    const value = props.params[key] ?? param.default;
+    return THREE.MathUtils.clamp(param.step === 1 ? Math.round(value) : value, param.min, param.max);
+};
+
+// Infinity wall: a floor running from the front into a quarter circle that rises into the back wall.
+// The profile is swept along X; faces point up on the floor and to the front on the wall.
+const createCycloramaGeometry = (width: number, depth: number, height: number, radius: number, curveSegments: number) => {
+    const r = Math.min(radius, depth, height);
+    const back = -depth / 2;
+    const profile: [number, number][] = [[depth / 2, 0], [back + r, 0]]; // [z, y]
+    for (let i = 1; i <= curveSegments; i++) {
+        const angle = (i / curveSegments) * Math.PI / 2;
+        profile.push([back + r - Math.sin(angle) * r, r - Math.cos(angle) * r]);
+    }
+    if (height > r) profile.push([back, height]);
+
+    // UVs follow the distance along the profile so textures don't stretch around the curve
+    const lengths = [0];
+    for (let i = 1; i < profile.length; i++) {
+        lengths.push(lengths[i - 1] + Math.hypot(profile[i][0] - profile[i - 1][0], profile[i][1] - profile[i - 1][1]));
+    }
+    const totalLength = lengths[lengths.length - 1];
+
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    const indices: number[] = [];
+    profile.forEach(([z, y], i) => {
+        for (const side of [0, 1]) {
+            positions.push((side - 0.5) * width, y, z);
+            uvs.push(side, lengths[i] / totalLength);
+        }
+    });
+    for (let i = 0; i < profile.length - 1; i++) {
+        const a = i * 2;
+        indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+};
+
+/**
+ * Geometry of a primitive, origin at the bottom center.
+ */
+export const createPrimitiveGeometry = (props: PrimitiveProps): THREE.BufferGeometry => {
+    const p = (key: string) => getParam(props, key);
+    let geometry: THREE.BufferGeometry;
+    switch (props.shape) {
+        case 'plane':
+            return new THREE.PlaneGeometry(p('width'), p('depth')).rotateX(-Math.PI / 2);
+        case 'box':
+            geometry = new THREE.BoxGeometry(p('width'), p('height'), p('depth'));
+            break;
+        case 'rounded-box':
+            geometry = new RoundedBoxGeometry(p('width'), p('height'), p('depth'), p('segments'), Math.min(p('radius'), p('width') / 2, p('height') / 2, p('depth') / 2));
+            break;
+        case 'sphere':
+            geometry = new THREE.SphereGeometry(p('radius'), p('segments'), Math.max(2, Math.round(p('segments') / 2)));
+            break;
+        case 'cylinder':
+            geometry = new THREE.CylinderGeometry(p('radiusTop'), p('radiusBottom'), p('height'), p('segments'));
+            break;
+        case 'cone':
+            geometry = new THREE.ConeGeometry(p('radius'), p('height'), p('segments'));
+            break;
+        case 'torus':
+            // Lying flat, like a ring on a table
+            geometry = new THREE.TorusGeometry(p('radius'), p('tube'), Math.max(8, Math.round(p('segments') / 3)), p('segments')).rotateX(-Math.PI / 2);
+            break;
+        case 'cyclorama':
+            return createCycloramaGeometry(p('width'), p('depth'), p('height'), p('radius'), p('segments'));
+    }
+    geometry.computeBoundingBox();
+    return geometry.translate(0, -geometry.boundingBox!.min.y, 0);
+};
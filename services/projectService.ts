@@ -0,0 +1,170 @@
+import { BananaProjectFile, EmbeddedBlob, ProjectData } from '../types';
+import { downloadBlob } from './downloadService';
+
+// Current on-disk schema. Bump this and add a MIGRATIONS entry when existing data changes shape (see MIGRATIONS).
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.banana';
+
+// Local blob: URLs are swapped for these references when saving and restored on load
+const BLOB_REF_PREFIX = 'banana-blob:';
+
+/**
+ * Schema migrations. Each entry upgrades a parsed file from version `n` to `n + 1`,
+ * so an old file is walked step by step up to PROJECT_FILE_VERSION instead of failing.
+ *
+ * Additive changes don't bump the version. Older files simply lack the newer fields: loadProject
+ * merges animation, shots and the environment/snapping settings with their defaults, and object
+ * fields (primitive/text props, arrays) are optional or only exist on newer object types.
+ * A migration is only needed when stored data is renamed, moved or reinterpreted, or when a
+ * new field has no usable default.
+ */
+const MIGRATIONS: Record<number, (file: any) => any> = {
+    // v0 -> v1: Early exports were a raw dump of the store without the file envelope
+    0: (legacy) => ({
+        format: 'banana-project',
+        version: 1,
+        name: legacy.name || 'Untitled Project',
+        savedAt: legacy.savedAt || Date.now(),
+        project: {
+            sceneObjects: legacy.sceneObjects,
+            assets: legacy.assets || [],
+            renderSettings: legacy.renderSettings,
+            cameraState: legacy.cameraState,
+            activeCameraId: legacy.activeCameraId ?? null
+        },
+        blobs: legacy.blobs || {}
+    }),
+};
+
+// Recursively rewrites every string inside a JSON-compatible value
+const mapStrings = (value: any, fn: (s: string) => string): any => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(v => mapStrings(v, fn));
+    if (value && typeof value === 'object') {
+        const out: Record<string, any> = {};
+        for (const [key, v] of Object.entries(value)) out[key] = mapStrings(v, fn);
+        return out;
+    }
+    return value;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error || new Error('Failed to read blob'));
+    reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = ({ data, mimeType }: EmbeddedBlob): Blob => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType || 'application/octet-stream' });
+};
+
+/**
+ * Upgrades any supported file version to the current schema.
+ * Files without an envelope are treated as version 0 when they hold a scene object list.
+ */
+export const migrateProjectFile = (raw: any): BananaProjectFile => {
+    if (!raw || typeof raw !== 'object') throw new Error('Invalid project file');
+
+    let file = raw;
+    let version = raw.format === 'banana-project' ? Number(raw.version) : 0;
+    // Without an envelope only a store dump (which always has its object list) is a project
+    if (raw.format !== 'banana-project' && !Array.isArray(raw.sceneObjects)) {
+        throw new Error('Project file is missing scene data');
+    }
+
+    if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`Invalid project file version: ${raw.version}`);
+    }
+    if (version > PROJECT_FILE_VERSION) {
+        throw new Error(`Project was saved with a newer version (v${version}). Please update the app.`);
+    }
+
+    while (version < PROJECT_FILE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new Error(`No migration available from project version ${version}`);
+        file = migrate(file);
+        version++;
+        file.version = version;
+    }
+
+    if (!file.project || !Array.isArray(file.project.sceneObjects)) {
+        throw new Error('Project file is missing scene data');
+    }
+    return file as BananaProjectFile;
+};
+
+/**
+ * Serializes the project into the versioned .banana format.
+ * Local blob: URLs (uploaded/downloaded GLBs, images) are embedded as Base64,
+ * remote URLs are kept as plain references.
+ */
+export const serializeProject = async (project: ProjectData, name: string): Promise<BananaProjectFile> => {
+    const blobUrls = new Set<string>();
+    mapStrings(project, (s) => {
+        if (s.startsWith('blob:')) blobUrls.add(s);
+        return s;
+    });
+
+    const refs = new Map<string, string>();
+    const blobs: Record<string, EmbeddedBlob> = {};
+    let index = 0;
+
+    for (const url of blobUrls) {
+        try {
+            const blob = await (await fetch(url)).blob();
+            const key = `blob-${index++}`;
+            blobs[key] = { mimeType: blob.type, data: await blobToBase64(blob) };
+            refs.set(url, `${BLOB_REF_PREFIX}${key}`);
+        } catch (e) {
+            // A revoked URL cannot be recovered; keep the reference so the rest of the project still saves
+            console.warn(`[ProjectService] Could not embed ${url}`, e);
+        }
+    }
+
+    return {
+        format: 'banana-project',
+        version: PROJECT_FILE_VERSION,
+        name,
+        savedAt: Date.now(),
+        project: mapStrings(project, (s) => refs.get(s) || s),
+        blobs
+    };
+};
+
+/**
+ * Parses a .banana file, runs schema migrations and rebuilds blob: URLs for embedded data.
+ */
+export const parseProjectFile = (text: string): { name: string; project: ProjectData } => {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        throw new Error('Project file is not valid JSON');
+    }
+
+    const file = migrateProjectFile(raw);
+
+    const urls = new Map<string, string>();
+    for (const [key, embedded] of Object.entries(file.blobs || {})) {
+        urls.set(`${BLOB_REF_PREFIX}${key}`, URL.createObjectURL(base64ToBlob(embedded)));
+    }
+
+    const project: ProjectData = mapStrings(file.project, (s) =>
+        s.startsWith(BLOB_REF_PREFIX) ? (urls.get(s) || s) : s
+    );
+
+    return { name: file.name || 'Untitled Project', project };
+};
+
+/**
+ * Triggers a browser download of the serialized project.
+ */
+export const downloadProjectFile = (file: BananaProjectFile) => {
+    const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+    const safeName = file.name.replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'project';
+    downloadBlob(blob, `${safeName}${PROJECT_FILE_EXTENSION}`);
+};
@@ -0,0 +1,221 @@
+import { CapturePass, RenderJob } from '../types';
+import { useAppStore } from '../store/useAppStore';
+import { generateRefinedImage, GenerationConfig } from './geminiService';
+import { v4 as uuidv4 } from 'uuid';
+import { createDatabase } from './indexedDb';
+
+/**
+ * Persistent queue for AI renders.
+ *
+ * Every render request becomes a RenderJob in the store. The queue runs queued jobs
+ * against Gemini up to `renderConcurrency` at a time and mirrors all jobs (including
+ * the base capture and result images) into IndexedDB so the history survives reloads.
+ * Jobs still queued or running when the page closed come back cancelled, ready to be retried.
+ */
+
+const DB_NAME = 'banana-render-queue';
+const DB_VERSION = 1;
+const JOB_STORE = 'jobs';
+
+// Images are stored as blobs, everything else as in the store
+interface RenderJobRecord extends Omit<RenderJob, 'baseImage' | 'resultUrl' | 'guidePasses'> {
+  baseImage: Blob;
+  result?: Blob;
+  guidePasses?: Partial<Record<CapturePass, Blob>>;
+}
+
+export type RenderJobParams = Pick<RenderJob, 'prompt' | 'aspectRatio' | 'fov' | 'cameraMode' | 'cameraInfo' | 'lightingInfo' | 'baseImage' | 'sourceJobId' | 'referencePass' | 'guidePasses' | 'maskLegend' | 'shotName'>;
+
+const withStore = createDatabase(DB_NAME, DB_VERSION, [{ name: JOB_STORE, keyPath: 'id' }]);
+
+const urlToBlob = async (url: string) => (await fetch(url)).blob();
+
+// Gemini expects base64, blob: URLs from a reloaded queue are converted first
+const toDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = await urlToBlob(url);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const saveJob = async (job: RenderJob): Promise<void> => {
+  const { baseImage, resultUrl, guidePasses, ...rest } = job;
+  const passBlobs: RenderJobRecord['guidePasses'] = {};
+  for (const [pass, url] of Object.entries(guidePasses || {}) as [CapturePass, string][]) {
+    passBlobs[pass] = await urlToBlob(url);
+  }
+  const record: RenderJobRecord = {
+    ...rest,
+    baseImage: await urlToBlob(baseImage),
+    result: resultUrl ? await urlToBlob(resultUrl) : undefined,
+    guidePasses: passBlobs
+  };
+  await withStore(JOB_STORE, 'readwrite', s => s.put(record));
+};
+
+const loadJobs = async (): Promise<RenderJob[]> => {
+  const records = await withStore<RenderJobRecord[]>(JOB_STORE, 'readonly', s => s.getAll());
+  records.sort((a, b) => b.createdAt - a.createdAt);
+  return records.map(({ baseImage, result, guidePasses, ...rest }) => ({
+    ...rest,
+    // Interrupted by a reload: never sent (and billed) again on their own, the user can retry them
+    ...(rest.status === 'running' || rest.status === 'queued' ? { status: 'cancelled' as const, errorMsg: 'Interrupted by a page reload' } : {}),
+    baseImage: URL.createObjectURL(baseImage),
+    resultUrl: result ? URL.createObjectURL(result) : undefined,
+    guidePasses: Object.fromEntries(Object.entries(guidePasses || {}).map(([pass, blob]) => [pass, URL.createObjectURL(blob)]))
+  }));
+};
+
+// Abort controllers of the jobs currently talking to Gemini
+const running = new Map<string, AbortController>();
+
+const runJob = async (job: RenderJob) => {
+  const { updateRenderJob, addNotification } = useAppStore.getState();
+  const controller = new AbortController();
+  running.set(job.id, controller);
+  updateRenderJob(job.id, { status: 'running', startedAt: Date.now(), errorMsg: undefined });
+
+  try {
+    const guidePasses: GenerationConfig['guidePasses'] = {};
+    for (const [pass, url] of Object.entries(job.guidePasses || {}) as [CapturePass, string][]) {
+      guidePasses[pass] = await toDataUrl(url);
+    }
+    const resultUrl = await generateRefinedImage({
+      prompt: job.prompt,
+      referenceImage: await toDataUrl(job.baseImage),
+      aspectRatio: job.aspectRatio as GenerationConfig['aspectRatio'],
+      fov: job.fov,
+      cameraInfo: job.cameraInfo,
+      lightingInfo: job.lightingInfo,
+      referencePass: job.referencePass,
+      guidePasses,
+      maskLegend: job.maskLegend,
+      signal: controller.signal
+    });
+    if (controller.signal.aborted) return;
+    updateRenderJob(job.id, { status: 'completed', resultUrl, completedAt: Date.now() });
+    addNotification('success', 'AI Rendering Complete');
+  } catch (e: any) {
+    if (controller.signal.aborted) return;
+    console.error(e);
+    updateRenderJob(job.id, { status: 'error', errorMsg: e.message, completedAt: Date.now() });
+    addNotification('error', `Render Failed: ${e.message}`);
+  } finally {
+    // A retry may already have restarted the job with a new controller
+    if (running.get(job.id) === controller) running.delete(job.id);
+    pumpQueue();
+  }
+};
+
+// Starts queued jobs (oldest first) until the concurrency limit is reached
+const pumpQueue = () => {
+  const { renderJobs, renderConcurrency } = useAppStore.getState();
+  const queued = renderJobs
+    .filter(j => j.status === 'queued' && !running.has(j.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  // Starting a job updates the store, which can re-enter this function, so re-check on every step
+  for (const job of queued) {
+    if (running.size >= renderConcurrency) break;
+    if (!running.has(job.id)) runJob(job);
+  }
+};
+
+/**
+ * Adds a render to the queue and returns its job id.
+ */
+export const enqueueRenderJob = (params: RenderJobParams): string => {
+  const job: RenderJob = { ...params, id: uuidv4(), createdAt: Date.now(), status: 'queued' };
+  useAppStore.getState().addRenderJob(job);
+  return job.id;
+};
+
+/**
+ * Cancels a queued or running job. Gemini may still finish (and bill) a running request,
+ * its result is discarded.
+ */
+export const cancelRenderJob = (id: string) => {
+  running.get(id)?.abort();
+  running.delete(id);
+  useAppStore.getState().updateRenderJob(id, { status: 'cancelled', completedAt: Date.now() });
+};
+
+/**
+ * Runs a failed or cancelled job again with the same inputs.
+ */
+export const retryRenderJob = (id: string) => {
+  useAppStore.getState().updateRenderJob(id, { status: 'queued', errorMsg: undefined, resultUrl: undefined, startedAt: undefined, completedAt: undefined });
+};
+
+/**
+ * Queues a new job from an existing one's capture and camera, with the given changes.
+ */
+export const rerunRenderJob = (id: string, tweaks: Partial<Pick<RenderJob, 'prompt' | 'aspectRatio'>>): string | null => {
+  const source = useAppStore.getState().renderJobs.find(j => j.id === id);
+  if (!source) return null;
+  const { prompt, aspectRatio, fov, cameraMode, cameraInfo, lightingInfo, baseImage, referencePass, guidePasses, maskLegend, shotName } = source;
+  return enqueueRenderJob({ prompt, aspectRatio, fov, cameraMode, cameraInfo, lightingInfo, baseImage, referencePass, guidePasses, maskLegend, shotName, ...tweaks, sourceJobId: id });
+};
+
+export const deleteRenderJob = (id: string) => {
+  if (running.has(id)) cancelRenderJob(id);
+  useAppStore.getState().removeRenderJob(id);
+};
+
+// Signature of the persisted fields, used to skip writes for unchanged jobs
+const jobSignature = (j: RenderJob) => [j.status, j.prompt, j.aspectRatio, j.resultUrl, j.errorMsg].join('|');
+
+/**
+ * Rehydrates the queue into the store, keeps IndexedDB in sync and runs queued jobs.
+ * Returns an unsubscribe function.
+ */
+export const startRenderQueue = async (): Promise<() => void> => {
+  const signatures = new Map<string, string>();
+
+  // Serialize writes so image blobs of the same job never race
+  let queue = Promise.resolve();
+
+  const sync = (jobs: RenderJob[], prevJobs: RenderJob[]) => {
+    for (const job of jobs) {
+      const signature = jobSignature(job);
+      if (signatures.get(job.id) === signature) continue;
+      signatures.set(job.id, signature);
+      queue = queue
+        .then(() => saveJob(job))
+        .catch(e => console.error('[RenderQueue] Failed to persist job:', e));
+    }
+    for (const job of prevJobs) {
+      if (jobs.some(j => j.id === job.id)) continue;
+      signatures.delete(job.id);
+      queue = queue
+        .then(() => withStore(JOB_STORE, 'readwrite', s => s.delete(job.id)))
+        .catch(e => console.error('[RenderQueue] Failed to delete job:', e));
+    }
+  };
+
+  try {
+    const stored = await loadJobs();
+    stored.forEach(j => signatures.set(j.id, jobSignature(j)));
+
+    const current = useAppStore.getState().renderJobs;
+    useAppStore.getState().setRenderJobs([...current, ...stored.filter(s => !current.some(c => c.id === s.id))]);
+  } catch (e) {
+    console.error('[RenderQueue] Failed to load queue:', e);
+  }
+
+  sync(useAppStore.getState().renderJobs, []);
+  pumpQueue();
+
+  return useAppStore.subscribe((state, prevState) => {
+    if (state.renderJobs !== prevState.renderJobs) {
+      sync(state.renderJobs, prevState.renderJobs);
+      pumpQueue();
+    } else if (state.renderConcurrency !== prevState.renderConcurrency) {
+      pumpQueue();
+    }
+  });
+};
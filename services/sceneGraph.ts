@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import { ModelTransform, SceneObject } from '../types';
+
+/**
+ * Editor-only objects (grid, gizmos, helpers, light/camera icons) that must never
+ * appear in captures or exports.
+ */
+export const isEditorHelper = (obj: THREE.Object3D): boolean =>
+    !!obj.userData.isEditorObject ||
+    obj.name === 'GlobalGrid' ||
+    obj.type.includes('Helper') ||
+    obj.name === 'TransformControls' ||
+    !!(obj as any).isTransformControls;
+
+/**
+ * Finds the Three.js node rendered for a SceneObject (tagged with userData.sceneObjectId).
+ */
+export const findSceneObjectNode = (root: THREE.Object3D, id: string): THREE.Object3D | null => {
+    let found: THREE.Object3D | null = null;
+    root.traverse((obj) => {
+        if (!found && obj.userData.sceneObjectId === id) found = obj;
+    });
+    return found;
+};
+
+/**
+ * Objects with geometry of their own (models, primitives and text): they scale and have materials.
+ */
+export const isMeshObject = (obj: SceneObject): boolean => obj.type === 'model' || obj.type === 'primitive' || obj.type === 'text';
+
+/**
+ * True when the node and all its parents are visible (raycasts also hit objects below hidden parents).
+ */
+export const isRendered = (obj: THREE.Object3D | null): boolean => !obj || (obj.visible && isRendered(obj.parent));
+
+// --- SceneObject hierarchy (transforms are stored relative to the parent) ---
+
+export const composeTransform = (t: ModelTransform): THREE.Matrix4 =>
+    new THREE.Matrix4().compose(
+        new THREE.Vector3(...t.position),
+        new THREE.Quaternion().setFromEuler(new THREE.Euler(...t.rotation)),
+        new THREE.Vector3(...t.scale)
+    );
+
+export const decomposeTransform = (matrix: THREE.Matrix4): ModelTransform => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    matrix.decompose(position, quaternion, scale);
+    const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+    return {
+        position: position.toArray(),
+        rotation: [rotation.x, rotation.y, rotation.z],
+        scale: scale.toArray()
+    };
+};
+
+/**
+ * Direct children of an object. Passing null returns the roots, including objects whose
+ * parent no longer exists.
+ */
+export const getChildObjects = (objects: SceneObject[], parentId: string | null): SceneObject[] =>
+    parentId
+        ? objects.filter(o => o.parentId === parentId)
+        : objects.filter(o => !o.parentId || !objects.some(p => p.id === o.parentId));
+
+export const getDescendantIds = (objects: SceneObject[], id: string): Set<string> => {
+    const result = new Set<string>();
+    const queue = [id];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const child of objects) {
+            if (child.parentId === current && !result.has(child.id)) {
+                result.add(child.id);
+                queue.push(child.id);
+            }
+        }
+    }
+    return result;
+};
+
+/**
+ * World matrix of an object composed from the stored transforms of its ancestors.
+ * A null/unknown id yields the identity (the scene root).
+ */
+export const getWorldMatrix = (objects: SceneObject[], id: string | null | undefined): THREE.Matrix4 => {
+    const matrix = new THREE.Matrix4();
+    const visited = new Set<string>();
+    let current = id ? objects.find(o => o.id === id) : undefined;
+    while (current && !visited.has(current.id)) {
+        visited.add(current.id);
+        matrix.premultiply(composeTransform(current.transform));
+        const parentId = current.parentId;
+        current = parentId ? objects.find(o => o.id === parentId) : undefined;
+    }
+    return matrix;
+};
+
+export const getWorldTransform = (objects: SceneObject[], id: string): ModelTransform =>
+    decomposeTransform(getWorldMatrix(objects, id));
+
+/**
+ * Expresses a world matrix in the local space of the given parent.
+ */
+export const toLocalTransform = (objects: SceneObject[], parentId: string | null | undefined, worldMatrix: THREE.Matrix4): ModelTransform =>
+    decomposeTransform(getWorldMatrix(objects, parentId).invert().multiply(worldMatrix));
+
+/**
+ * Selected objects a transform edit applies to: unlocked ones, minus those that already
+ * move along with a selected ancestor.
+ */
+export const getTransformTargets = (objects: SceneObject[], selectedIds: string[]): SceneObject[] => {
+    const movable = objects.filter(o => selectedIds.includes(o.id) && !o.locked);
+    const nested = new Set<string>();
+    movable.forEach(o => getDescendantIds(objects, o.id).forEach(id => nested.add(id)));
+    return movable.filter(o => !nested.has(o.id));
+};
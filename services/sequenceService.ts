@@ -0,0 +1,177 @@
+import * as THREE from 'three';
+import { zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { SceneObject } from '../types';
+import { getWorldMatrix } from './sceneGraph';
+
+/**
+ * Image sequence / video rendering helpers.
+ *
+ * Frames are captured by the viewer (one still per frame), fitted to the output
+ * resolution here and then either encoded in the browser with MediaRecorder or
+ * packed into a zip of PNGs.
+ */
+
+export type SequenceSource = 'timeline' | 'camera-path';
+
+export type SequenceFormat = 'webm' | 'mp4' | 'png-zip';
+
+// World-space camera used to override the viewport camera for a frame
+export interface CameraPose {
+    position: THREE.Vector3;
+    quaternion: THREE.Quaternion;
+    fov: number;
+}
+
+export const SEQUENCE_FORMAT_LABELS: Record<SequenceFormat, string> = {
+    webm: 'WebM Video',
+    mp4: 'MP4 Video',
+    'png-zip': 'PNG Sequence (.zip)'
+};
+
+// Candidate recorder mime types per container, best first
+const VIDEO_MIME_TYPES: Record<Exclude<SequenceFormat, 'png-zip'>, string[]> = {
+    webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+    mp4: ['video/mp4;codecs=avc1', 'video/mp4']
+};
+
+const getVideoMimeType = (format: SequenceFormat): string | null => {
+    if (format === 'png-zip' || typeof MediaRecorder === 'undefined') return null;
+    return VIDEO_MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+/**
+ * Output formats the current browser can produce. PNG zips always work, video depends on MediaRecorder.
+ */
+export const getSupportedSequenceFormats = (): SequenceFormat[] =>
+    (['webm', 'mp4', 'png-zip'] as SequenceFormat[]).filter(f => f === 'png-zip' || getVideoMimeType(f) !== null);
+
+/**
+ * World pose of a scene camera.
+ */
+export const getCameraPose = (objects: SceneObject[], id: string): CameraPose => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    getWorldMatrix(objects, id).decompose(position, quaternion, new THREE.Vector3());
+    return { position, quaternion, fov: objects.find(o => o.id === id)?.cameraProps?.fov || 50 };
+};
+
+/**
+ * World poses of the scene cameras, in scene order. These are the control points of a camera path.
+ */
+export const getCameraPathPoses = (objects: SceneObject[]): CameraPose[] =>
+    objects.filter(o => o.type === 'camera').map(cam => getCameraPose(objects, cam.id));
+
+/**
+ * Pose along the path at `t` (0-1). Positions follow a smooth curve through every camera,
+ * orientation and fov blend between the two surrounding cameras.
+ */
+export const sampleCameraPath = (poses: CameraPose[], t: number): CameraPose => {
+    if (poses.length === 0) throw new Error('Camera path needs at least one scene camera');
+    if (poses.length === 1) return poses[0];
+
+    const clamped = Math.min(Math.max(t, 0), 1);
+    const curve = new THREE.CatmullRomCurve3(poses.map(p => p.position), false, 'centripetal');
+    const scaled = clamped * (poses.length - 1);
+    const index = Math.min(Math.floor(scaled), poses.length - 2);
+    const local = scaled - index;
+
+    return {
+        position: curve.getPoint(clamped),
+        quaternion: poses[index].quaternion.clone().slerp(poses[index + 1].quaternion, local),
+        fov: THREE.MathUtils.lerp(poses[index].fov, poses[index + 1].fov, local)
+    };
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode frame'));
+    img.src = src;
+});
+
+/**
+ * Scales an image to cover width x height (center crop) and returns it as a PNG blob.
+ */
+export const fitFrameToSize = async (src: string, width: number, height: number): Promise<Blob> => {
+    const img = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+    const w = img.naturalWidth * scale;
+    const h = img.naturalHeight * scale;
+    ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Failed to encode frame')),
+        'image/png'
+    ));
+};
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+/**
+ * Packs the frames into an uncompressed zip (PNGs are already compressed).
+ */
+export const zipFrames = async (frames: Blob[], baseName: string): Promise<Blob> => {
+    const digits = Math.max(4, String(frames.length).length);
+    const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+    for (let i = 0; i < frames.length; i++) {
+        const name = `${baseName}_${String(i + 1).padStart(digits, '0')}.png`;
+        entries[name] = [new Uint8Array(await frames[i].arrayBuffer()), { level: 0 }];
+    }
+    return new Blob([zipSync(entries)], { type: 'application/zip' });
+};
+
+/**
+ * Encodes frames into a video in real time: each frame is drawn onto a canvas stream and held
+ * for 1/fps seconds while MediaRecorder records it.
+ */
+export const encodeVideo = async (
+    frames: Blob[],
+    options: { width: number, height: number, fps: number, format: SequenceFormat, onProgress?: (done: number) => void }
+): Promise<Blob> => {
+    const mimeType = getVideoMimeType(options.format);
+    if (!mimeType) throw new Error(`${SEQUENCE_FORMAT_LABELS[options.format]} is not supported by this browser`);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 12_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+    const frameDuration = 1000 / options.fps;
+    recorder.start();
+    try {
+        for (let i = 0; i < frames.length; i++) {
+            // Decode before the frame's time slot starts so slow decodes don't stretch the previous frame
+            const bitmap = await createImageBitmap(frames[i]);
+            ctx.drawImage(bitmap, 0, 0, options.width, options.height);
+            bitmap.close();
+            track.requestFrame();
+            await new Promise(resolve => setTimeout(resolve, frameDuration));
+            options.onProgress?.(i + 1);
+        }
+    } finally {
+        recorder.stop();
+        await stopped;
+        track.stop();
+    }
+
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
@@ -0,0 +1,171 @@
+import * as THREE from 'three';
+import { ShadingMode } from '../types';
+
+/**
+ * Viewport shading modes.
+ *
+ * Model meshes register their lit material(s) here; switching modes swaps in a shared
+ * debug material and switching back restores the lit one. Lights, helpers, the grid and
+ * contact shadows are never registered, so they keep their look in every mode.
+ * The same swap is used to capture a single pass (e.g. clay) without changing the viewport.
+ */
+
+export const SHADING_MODE_LABELS: Record<ShadingMode, string> = {
+    lit: 'Lit',
+    clay: 'Clay',
+    wireframe: 'Wireframe',
+    normals: 'Normals',
+    depth: 'Depth',
+    unlit: 'Unlit (Albedo)'
+};
+
+type MeshMaterial = THREE.Material | THREE.Material[];
+
+const litMaterials = new WeakMap<THREE.Mesh, MeshMaterial>();
+
+/**
+ * Remembers the mesh's current material as its lit material.
+ */
+export const registerLitMaterial = (mesh: THREE.Mesh) => {
+    litMaterials.set(mesh, mesh.material);
+};
+
+/**
+ * The mesh's lit material, whatever mode it currently shows.
+ */
+export const getLitMaterial = (mesh: THREE.Mesh): MeshMaterial => litMaterials.get(mesh) ?? mesh.material;
+
+const clayMaterial = new THREE.MeshStandardMaterial({ color: '#c8c8c8', roughness: 0.85, metalness: 0 });
+const wireframeMaterial = new THREE.MeshBasicMaterial({ color: '#a1a1aa', wireframe: true });
+const normalMaterial = new THREE.MeshNormalMaterial();
+
+// Linear view depth between uNear (white) and uFar (black), see updateDepthRange
+const depthMaterial = new THREE.ShaderMaterial({
+    uniforms: { uNear: { value: 1 }, uFar: { value: 10 } },
+    vertexShader: /* glsl */`
+        #include <common>
+        #include <batching_pars_vertex>
+        #include <morphtarget_pars_vertex>
+        #include <skinning_pars_vertex>
+        varying float vViewDepth;
+        void main() {
+            #include <batching_vertex>
+            #include <skinbase_vertex>
+            #include <morphinstance_vertex>
+            #include <begin_vertex>
+            #include <morphtarget_vertex>
+            #include <skinning_vertex>
+            #include <project_vertex>
+            vViewDepth = -mvPosition.z;
+        }
+    `,
+    fragmentShader: /* glsl */`
+        uniform float uNear;
+        uniform float uFar;
+        varying float vViewDepth;
+        void main() {
+            float depth = clamp((vViewDepth - uNear) / max(uFar - uNear, 1e-4), 0.0, 1.0);
+            gl_FragColor = vec4(vec3(1.0 - depth), 1.0);
+        }
+    `
+});
+
+// Unlit copies follow their lit material (color, base color map, transparency) on every apply
+const unlitMaterials = new WeakMap<THREE.Material, THREE.MeshBasicMaterial>();
+
+const getUnlitMaterial = (lit: THREE.Material) => {
+    let unlit = unlitMaterials.get(lit);
+    if (!unlit) {
+        unlit = new THREE.MeshBasicMaterial();
+        unlitMaterials.set(lit, unlit);
+    }
+    const source = lit as Partial<THREE.MeshStandardMaterial>;
+    unlit.color.copy(source.color ?? new THREE.Color('#ffffff'));
+    unlit.map = source.map ?? null;
+    unlit.opacity = lit.opacity;
+    unlit.transparent = lit.transparent;
+    unlit.alphaTest = lit.alphaTest;
+    unlit.side = lit.side;
+    unlit.vertexColors = lit.vertexColors;
+    unlit.needsUpdate = true;
+    return unlit;
+};
+
+const getShadingMaterial = (lit: THREE.Material, mode: ShadingMode): THREE.Material => {
+    switch (mode) {
+        case 'clay': return clayMaterial;
+        case 'wireframe': return wireframeMaterial;
+        case 'normals': return normalMaterial;
+        case 'depth': return depthMaterial;
+        case 'unlit': return getUnlitMaterial(lit);
+        default: return lit;
+    }
+};
+
+/**
+ * Switches every registered mesh under root to the given mode.
+ */
+export const applyShadingMode = (root: THREE.Object3D, mode: ShadingMode) => {
+    root.traverse((obj) => {
+        const mesh = obj as THREE.Mesh;
+        const lit = litMaterials.get(mesh);
+        if (!lit) return;
+        mesh.material = Array.isArray(lit) ? lit.map(m => getShadingMaterial(m, mode)) : getShadingMaterial(lit, mode);
+    });
+};
+
+/**
+ * True for meshes that take part in shading modes and passes (models), false for lights, helpers, shadows.
+ */
+export const isShadedMesh = (obj: THREE.Object3D) => litMaterials.has(obj as THREE.Mesh);
+
+// Flat, untoned colors so mask pixels match the legend exactly
+const maskMaterials = new Map<string, THREE.MeshBasicMaterial>();
+
+const getMaskMaterial = (color: string) => {
+    let material = maskMaterials.get(color);
+    if (!material) {
+        material = new THREE.MeshBasicMaterial({ color, toneMapped: false });
+        maskMaterials.set(color, material);
+    }
+    return material;
+};
+
+/**
+ * Paints every registered mesh with the color of the SceneObject it belongs to (ID mask pass).
+ * Restore with applyShadingMode.
+ */
+export const applyMaskPass = (root: THREE.Object3D, colors: Map<string, string>) => {
+    root.traverse((obj) => {
+        const mesh = obj as THREE.Mesh;
+        if (!litMaterials.has(mesh)) return;
+        let owner: THREE.Object3D | null = mesh;
+        while (owner && !owner.userData.sceneObjectId) owner = owner.parent;
+        mesh.material = getMaskMaterial(colors.get(owner?.userData.sceneObjectId) || '#ffffff');
+    });
+};
+
+const corner = new THREE.Vector3();
+
+/**
+ * Fits the depth pass range to the registered meshes as seen from the camera.
+ */
+export const updateDepthRange = (root: THREE.Object3D, camera: THREE.Camera) => {
+    const bounds = new THREE.Box3();
+    root.traverse((obj) => {
+        if (litMaterials.has(obj as THREE.Mesh)) bounds.expandByObject(obj);
+    });
+    if (bounds.isEmpty()) return;
+
+    camera.updateMatrixWorld();
+    let near = Infinity;
+    let far = 0;
+    for (let i = 0; i < 8; i++) {
+        corner.set(i & 1 ? bounds.max.x : bounds.min.x, i & 2 ? bounds.max.y : bounds.min.y, i & 4 ? bounds.max.z : bounds.min.z);
+        const depth = -corner.applyMatrix4(camera.matrixWorldInverse).z;
+        near = Math.min(near, depth);
+        far = Math.max(far, depth);
+    }
+    depthMaterial.uniforms.uNear.value = Math.max(near, 0);
+    depthMaterial.uniforms.uFar.value = far;
+};
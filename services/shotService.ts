@@ -0,0 +1,43 @@
+import { SceneObject, Shot, ShotStyle } from '../types';
+
+/**
+ * Shot list: the scene cameras in shot order with their render settings, and the style
+ * presets appended to a shot's prompt.
+ */
+
+export const SHOT_STYLES: Record<ShotStyle, { label: string, prompt: string }> = {
+    none: { label: 'No Style', prompt: '' },
+    photoreal: { label: 'Photoreal', prompt: 'photorealistic, natural materials, physically accurate lighting' },
+    cinematic: { label: 'Cinematic', prompt: 'cinematic film still, dramatic lighting, color graded' },
+    product: { label: 'Product Shot', prompt: 'clean commercial product photography, seamless studio backdrop, crisp reflections' },
+    clay: { label: 'Clay Render', prompt: 'matte clay render, uniform light grey material, soft global illumination' },
+    illustration: { label: 'Illustration', prompt: 'hand-painted illustration, visible brush strokes, soft palette' },
+    anime: { label: 'Anime', prompt: 'anime style, cel shading, clean line art' }
+};
+
+export interface ShotEntry {
+    camera: SceneObject;
+    shot: Shot;
+}
+
+/**
+ * Every scene camera with its shot settings: listed shots first in list order, then cameras
+ * without an entry in scene order (with default settings).
+ */
+export const getShotList = (objects: SceneObject[], shots: Shot[], defaultPreset: number): ShotEntry[] => {
+    const cameras = objects.filter(o => o.type === 'camera');
+    const listed = shots.flatMap(shot => {
+        const camera = cameras.find(c => c.id === shot.cameraId);
+        return camera ? [{ camera, shot }] : [];
+    });
+    const unlisted = cameras
+        .filter(camera => !shots.some(shot => shot.cameraId === camera.id))
+        .map(camera => ({ camera, shot: { cameraId: camera.id, resolutionPreset: defaultPreset, prompt: '', style: 'none' as ShotStyle } }));
+    return [...listed, ...unlisted];
+};
+
+/**
+ * Prompt sent to Gemini for a shot: its own prompt followed by the style preset.
+ */
+export const composeShotPrompt = ({ prompt, style }: Shot): string =>
+    [prompt.trim(), SHOT_STYLES[style].prompt && `Style: ${SHOT_STYLES[style].prompt}`].filter(Boolean).join('. ');
@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+import { findSceneObjectNode, isRendered } from './sceneGraph';
+import { isShadedMesh } from './shadingService';
+
+/**
+ * Placing objects on geometry: bounds of SceneObjects, drop to floor and snapping to the
+ * surface or the closest vertex under the cursor.
+ *
+ * Everything here works on the rendered nodes in world space and returns world offsets,
+ * the store turns them into local transforms (see applyWorldOffsets).
+ */
+
+export type SurfaceSnapMode = 'surface' | 'vertex';
+
+export const SURFACE_SNAP_LABELS: Record<SurfaceSnapMode, string> = {
+    surface: 'Snap to Surface',
+    vertex: 'Snap to Vertex'
+};
+
+/**
+ * World bounds of the objects: the geometry of models, the position of lights, cameras and empty groups.
+ */
+export const getObjectBounds = (scene: THREE.Object3D, ids: string[]): THREE.Box3 => {
+    const bounds = new THREE.Box3();
+    ids.forEach(id => {
+        const node = findSceneObjectNode(scene, id);
+        if (!node || !isRendered(node)) return;
+        const before = bounds.clone();
+        node.traverse(child => {
+            if (isShadedMesh(child) && isRendered(child)) bounds.expandByObject(child);
+        });
+        if (bounds.equals(before)) bounds.expandByPoint(node.getWorldPosition(new THREE.Vector3()));
+    });
+    return bounds;
+};
+
+// Point the objects rest on: the bottom center of their bounds
+const getBaseAnchor = (bounds: THREE.Box3) => {
+    const anchor = bounds.getCenter(new THREE.Vector3());
+    anchor.y = bounds.min.y;
+    return anchor;
+};
+
+// Rendered model meshes outside the given objects, the surfaces objects can be placed on
+const getSurfaceMeshes = (scene: THREE.Object3D, excludeIds: string[]) => {
+    const excluded = new Set<THREE.Object3D>();
+    excludeIds.forEach(id => findSceneObjectNode(scene, id)?.traverse(child => excluded.add(child)));
+    const meshes: THREE.Object3D[] = [];
+    scene.traverse(child => {
+        if (isShadedMesh(child) && !excluded.has(child) && isRendered(child)) meshes.push(child);
+    });
+    return meshes;
+};
+
+/**
+ * World offset per object that lowers it onto the first surface below its bounds, or the ground (y = 0).
+ */
+export const getDropToFloorOffsets = (scene: THREE.Object3D, ids: string[]): Record<string, [number, number, number]> => {
+    const surfaces = getSurfaceMeshes(scene, ids);
+    const raycaster = new THREE.Raycaster();
+    const down = new THREE.Vector3(0, -1, 0);
+    const offsets: Record<string, [number, number, number]> = {};
+    ids.forEach(id => {
+        const bounds = getObjectBounds(scene, [id]);
+        if (bounds.isEmpty()) return;
+        const anchor = getBaseAnchor(bounds);
+        raycaster.set(anchor, down);
+        const hit = raycaster.intersectObjects(surfaces, false)[0];
+        const floor = hit && hit.point.y > 0 ? hit.point.y : 0;
+        offsets[id] = [0, floor - anchor.y, 0];
+    });
+    return offsets;
+};
+
+/**
+ * Point to snap to under the cursor (normalized device coordinates), skipping the objects being placed.
+ */
+export const pickSnapPoint = (scene: THREE.Object3D, camera: THREE.Camera, ndc: { x: number, y: number }, mode: SurfaceSnapMode, excludeIds: string[]): THREE.Vector3 | null => {
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(new THREE.Vector2(ndc.x, ndc.y), camera);
+    const hit = raycaster.intersectObjects(getSurfaceMeshes(scene, excludeIds), false)[0];
+    if (!hit) return null;
+    if (mode === 'surface' || !hit.face) return hit.point;
+
+    // Closest corner of the hit triangle
+    const position = (hit.object as THREE.Mesh).geometry.getAttribute('position');
+    return [hit.face.a, hit.face.b, hit.face.c]
+        .map(i => new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(hit.object.matrixWorld))
+        .reduce((closest, v) => v.distanceTo(hit.point) < closest.distanceTo(hit.point) ? v : closest);
+};
+
+/**
+ * Offset that moves the objects together so the bottom center of their bounds lands on the point.
+ */
+export const getSnapOffset = (scene: THREE.Object3D, ids: string[], point: THREE.Vector3): [number, number, number] | null => {
+    const bounds = getObjectBounds(scene, ids);
+    if (bounds.isEmpty()) return null;
+    return point.clone().sub(getBaseAnchor(bounds)).toArray();
+};
@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { Font, FontData, FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { TTFLoader } from 'three/examples/jsm/loaders/TTFLoader.js';
+import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import helvetiker from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import { FontFormat, TextProps } from '../types';
+
+/**
+ * Extruded 3D text: fonts (built-in Helvetiker, uploaded TTF/OTF or typeface JSON) and geometry.
+ *
+ * Each line is extruded on its own so it can be aligned left, centered or right. The text block
+ * sits on its origin like the primitives: bottom at y = 0, depth centered on z = 0, and x = 0 on
+ * the left edge, the center or the right edge depending on the alignment.
+ */
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.json';
+
+export const DEFAULT_FONT_NAME = 'Helvetiker';
+
+export const DEFAULT_TEXT_PROPS: TextProps = {
+    text: 'Text',
+    size: 0.5,
+    depth: 0.1,
+    bevelEnabled: true,
+    bevelThickness: 0.01,
+    bevelSize: 0.005,
+    align: 'center',
+    lineHeight: 1.2
+};
+
+/**
+ * Font format from a file name, null when unsupported.
+ */
+export const getFontFormat = (fileName: string): FontFormat | null => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (ext === 'ttf' || ext === 'otf') return 'ttf';
+    return ext === 'json' ? 'typeface' : null;
+};
+
+const fontCache = new Map<string, Promise<Font>>();
+
+const loadFont = async (url: string, format: FontFormat): Promise<Font> =>
+    format === 'ttf' ? new Font(await new TTFLoader().loadAsync(url)) : new FontLoader().loadAsync(url);
+
+/**
+ * Loads a font, the built-in one without a URL. Results are cached per URL so the promise can be
+ * consumed with React's `use()`; a font that fails to load falls back to the built-in one.
+ */
+export const loadFontCached = (url?: string, format: FontFormat = 'typeface'): Promise<Font> => {
+    const key = url ? `${format}:${url}` : 'default';
+    let promise = fontCache.get(key);
+    if (!promise) {
+        promise = url
+            ? loadFont(url, format).catch(e => {
+                console.warn(`[TextService] Could not load font ${url}, using ${DEFAULT_FONT_NAME}:`, e);
+                return loadFontCached();
+            })
+            : Promise.resolve(new Font(helvetiker as unknown as FontData));
+        fontCache.set(key, promise);
+    }
+    return promise;
+};
+
+// Nothing to draw, still with a position attribute for the services that read it (bounds, scatter)
+const createEmptyGeometry = () => new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute([], 3));
+
+/**
+ * Geometry of the text in the given font (empty when there is nothing to draw).
+ */
+export const createTextGeometry = (font: Font, props: TextProps): THREE.BufferGeometry => {
+    const bevel = props.bevelEnabled ? Math.min(props.bevelThickness, props.depth / 2) : 0;
+    const lines = props.text.split('\n').flatMap((line, i) => {
+        if (!line.trim()) return [];
+        const geometry = new TextGeometry(line, {
+            font,
+            size: props.size,
+            depth: Math.max(props.depth - bevel * 2, 0.001),
+            curveSegments: 8,
+            bevelEnabled: props.bevelEnabled,
+            bevelThickness: bevel,
+            bevelSize: props.bevelSize,
+            bevelSegments: 3
+        });
+        geometry.computeBoundingBox();
+        const { min, max } = geometry.boundingBox!;
+        const x = props.align === 'left' ? -min.x : props.align === 'right' ? -max.x : -(min.x + max.x) / 2;
+        // Front cap and sides are separate groups in ExtrudeGeometry, the text has a single material
+        geometry.clearGroups();
+        return [geometry.translate(x, -i * props.size * props.lineHeight, -props.depth / 2 + bevel)];
+    });
+    if (lines.length === 0) return createEmptyGeometry();
+
+    const merged = lines.length === 1 ? lines[0] : mergeGeometries(lines);
+    if (merged !== lines[0]) lines.forEach(g => g.dispose());
+    if (!merged) return createEmptyGeometry();
+
+    merged.computeBoundingBox();
+    return merged.translate(0, -merged.boundingBox!.min.y, 0);
+};
@@ -356,6 +356,11 @@ export const downloadTripoModel = async (url: string): Promise<Blob> => {
     }
 };
 
+// Task ids currently being polled in this session (used to resume interrupted tasks without double polling)
+const activePolls = new Set<string>();
+
+export const isTaskBeingPolled = (taskId: string) => activePolls.has(taskId);
+
 /**
  * Poll Task Status
  */
@@ -369,12 +374,18 @@ export const pollTripoTask = (
   let consecutiveErrors = 0;
   const maxAttempts = 150; // Max ~5 minutes
 
+  activePolls.add(taskId);
+  const stopPolling = () => {
+      activePolls.delete(taskId);
+      clearInterval(intervalId);
+  };
+
   const intervalId = setInterval(async () => {
     attempts++;
     
     // Safety break
     if (attempts > maxAttempts) {
-        clearInterval(intervalId);
+        stopPolling();
         onUpdate(AssetStatus.ERROR);
         console.error('[TripoService] Polling timed out (5 minutes).');
         return;
@@ -396,7 +407,7 @@ export const pollTripoTask = (
            // Fail fast on 500s or auth errors or consecutive failures
            if(response.status >= 500 || response.status === 401 || response.status === 403 || response.status === 404 || consecutiveErrors > 3) {
                console.error('[TripoService] Aborting poll due to persistent errors');
-               clearInterval(intervalId);
+               stopPolling();
                onUpdate(AssetStatus.ERROR);
            }
            return;
@@ -413,14 +424,14 @@ export const pollTripoTask = (
 
       if (res.code !== 0) {
         console.error(`[TripoService] Polling API Error (Code ${res.code}):`, res.message);
-        clearInterval(intervalId);
+        stopPolling();
         onUpdate(AssetStatus.ERROR);
         return;
       }
 
       if (!res.data) {
           console.error(`[TripoService] Invalid Response: 'data' field missing`, res);
-          clearInterval(intervalId);
+          stopPolling();
           onUpdate(AssetStatus.ERROR);
           return;
       }
@@ -433,7 +444,7 @@ export const pollTripoTask = (
       if (appStatus === AssetStatus.PENDING || appStatus === AssetStatus.PROCESSING) {
         onUpdate(appStatus, null, progress);
       } else if (appStatus === AssetStatus.COMPLETED) {
-        clearInterval(intervalId);
+        stopPolling();
         
         // Robust extraction of Model URL
         let modelUrl: string | undefined = undefined;
@@ -465,7 +476,7 @@ export const pollTripoTask = (
             onUpdate(AssetStatus.ERROR);
         }
       } else if (appStatus === AssetStatus.ERROR) {
-        clearInterval(intervalId);
+        stopPolling();
         console.error(`[TripoService] Task Failed with status: ${rawStatus}`);
         onUpdate(AssetStatus.ERROR);
       }
@@ -475,7 +486,7 @@ export const pollTripoTask = (
       consecutiveErrors++;
       if (consecutiveErrors > 3) {
            console.error('[TripoService] Too many exceptions, stopping.');
-           clearInterval(intervalId);
+           stopPolling();
            onUpdate(AssetStatus.ERROR);
       }
     }
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { CameraState } from '../types';
+
+/**
+ * Editor camera navigation: preset views (numpad / gizmo), framing bounds, and the orthographic
+ * zoom that matches the perspective view.
+ *
+ * Views keep the orbit target and distance; orthographic zoom is always derived from that distance,
+ * so switching projection never changes the framing.
+ */
+
+export type ViewPreset = 'front' | 'back' | 'right' | 'left' | 'top' | 'bottom';
+
+interface ViewPresetInfo {
+    label: string;
+    direction: [number, number, number]; // From the target towards the camera
+}
+
+// Top and bottom are tilted a hair towards +Z so the orbit up vector stays defined
+export const VIEW_PRESETS: Record<ViewPreset, ViewPresetInfo> = {
+    front: { label: 'Front', direction: [0, 0, 1] },
+    back: { label: 'Back', direction: [0, 0, -1] },
+    right: { label: 'Right', direction: [1, 0, 0] },
+    left: { label: 'Left', direction: [-1, 0, 0] },
+    top: { label: 'Top', direction: [0, 1, 1e-4] },
+    bottom: { label: 'Bottom', direction: [0, -1, 1e-4] }
+};
+
+// Numpad keys (Blender layout), Ctrl gives the opposite view
+export const NUMPAD_VIEWS: Record<string, [ViewPreset, ViewPreset]> = {
+    Numpad1: ['front', 'back'],
+    Numpad3: ['right', 'left'],
+    Numpad7: ['top', 'bottom']
+};
+
+const getDistance = (state: CameraState) =>
+    new THREE.Vector3(...state.position).distanceTo(new THREE.Vector3(...state.target));
+
+/**
+ * The camera looking at the current target from the preset direction, at the current distance.
+ */
+export const getPresetView = (state: CameraState, preset: ViewPreset): CameraState => {
+    const direction = new THREE.Vector3(...VIEW_PRESETS[preset].direction).normalize();
+    const position = new THREE.Vector3(...state.target).addScaledVector(direction, getDistance(state));
+    return { ...state, position: position.toArray() };
+};
+
+/**
+ * The camera looking at the bounds from the current direction, close enough for them to fill the view.
+ */
+export const getFramingView = (state: CameraState, bounds: THREE.Box3, aspect: number): CameraState => {
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, 0.25);
+    const halfFov = THREE.MathUtils.degToRad(state.fov) / 2;
+    const fitHalfFov = Math.min(halfFov, Math.atan(Math.tan(halfFov) * aspect));
+
+    const direction = new THREE.Vector3(...state.position).sub(new THREE.Vector3(...state.target));
+    if (direction.lengthSq() === 0) direction.set(0, 0, 1);
+    direction.normalize();
+
+    const position = sphere.center.clone().addScaledVector(direction, radius / Math.sin(fitHalfFov));
+    return { ...state, position: position.toArray(), target: sphere.center.toArray() };
+};
+
+/**
+ * Orthographic zoom (pixels per world unit) showing what the perspective camera sees at the target.
+ */
+export const getOrthographicZoom = (state: CameraState, viewHeight: number) =>
+    viewHeight / (2 * getDistance(state) * Math.tan(THREE.MathUtils.degToRad(state.fov) / 2));
+
+/**
+ * Orbit distance matching an orthographic zoom, the inverse of getOrthographicZoom.
+ */
+export const getOrthographicDistance = (zoom: number, fov: number, viewHeight: number) =>
+    viewHeight / (2 * zoom * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
@@ -1,30 +1,60 @@
 import { create } from 'zustand';
-import { Asset, RenderSettings, TransformMode, ModelTransform, AppNotification, SceneObject, CameraState } from '../types';
+import * as THREE from 'three';
+import { Asset, RenderSettings, TransformMode, ModelTransform, AppNotification, SceneObject, CameraState, ProjectData, ModelSource, AnimationData, AnimatableProperty, Keyframe, RenderJob, LightKind, EnvironmentSettings, ModelMaterialInfo, PrimitiveShape, Shot } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-
+import { cloneSceneObjects, collectSubtrees, LINKED_FIELDS } from '../services/clipboardService';
+import { composeTransform, getDescendantIds, getTransformTargets, isMeshObject, getWorldMatrix, toLocalTransform } from '../services/sceneGraph';
+import { DEFAULT_ANIMATION, applyAnimation, getAnimatableProperties, readPropertyValue, reparentTrack } from '../services/animationService';
+import { createLightProps } from '../services/lightService';
+import { createPrimitiveProps, PRIMITIVE_SHAPES } from '../services/primitiveService';
+import { DEFAULT_TEXT_PROPS } from '../services/textService';
+import { describeObjects, describeObjectUpdate, describeRenderSettingsUpdate, describeTransform, HistoryCommand, HistoryEntry, pushHistory, sealHistory, TRANSFORM_MODE_VERBS } from '../services/historyService';
+
+// What undo restores. Snapshots share unchanged values with the live state (see historyService)
 interface UndoableState {
     sceneObjects: SceneObject[];
     renderSettings: RenderSettings;
     selectedObjectId: string | null;
+    selectedObjectIds: string[];
+    animation: AnimationData;
+    shots: Shot[];
 }
 
 interface AppState {
   // Config
   backendUrl: string;
 
+  // Project
+  projectName: string;
+
   // Asset Management
   assets: Asset[];
+
+  // AI Render Queue (persisted by services/renderQueue.ts, not part of projects or history)
+  renderJobs: RenderJob[];
+  renderConcurrency: number; // Max jobs sent to Gemini at once
   
   // Scene State (Multiple Models & Lights)
   sceneObjects: SceneObject[];
+  modelMaterials: Record<string, ModelMaterialInfo[]>; // Materials of each loaded model, published by the viewport
+  focusPickCameraId: string | null; // Camera whose focus distance the next viewport click sets
   
   // Editor State
   transformMode: TransformMode;
-  selectedObjectId: string | null; // UUID of SceneObject or 'light-env', 'camera', etc.
+  selectedObjectId: string | null; // UUID of SceneObject or 'light-env', 'camera', etc. Primary selection shown in the properties panel
+  selectedObjectIds: string[]; // All selected SceneObjects (multi-selection), includes the primary one
   activeCameraId: string | null; // New: Which scene camera is currently being looked through
 
   // Scene Settings
   renderSettings: RenderSettings;
+
+  // Timeline (keyframes are undoable, the playhead is not)
+  animation: AnimationData;
+  animationTime: number;
+  isAnimationPlaying: boolean;
+
+  // Shot list (cameras without an entry follow in scene order, see shotService)
+  shots: Shot[];
   
   // Camera State (The default editor camera)
   cameraState: CameraState;
@@ -34,31 +64,65 @@ interface AppState {
   notifications: AppNotification[];
 
   // History
-  past: UndoableState[];
-  future: UndoableState[];
+  past: HistoryEntry<UndoableState>[]; // Capped at HISTORY_LIMIT, see historyService
+  future: HistoryEntry<UndoableState>[];
 
   // Actions
   setBackendUrl: (url: string) => void;
+  setProjectName: (name: string) => void;
+  getProjectData: () => ProjectData; // Serializable snapshot for saving
+  loadProject: (name: string, data: ProjectData) => void; // Replaces the scene and clears history
   setAssets: (assets: Asset[]) => void;
   addAsset: (asset: Asset) => void;
   updateAsset: (id: string, updates: Partial<Asset>) => void;
   removeAsset: (id: string) => void;
+
+  setRenderJobs: (jobs: RenderJob[]) => void;
+  addRenderJob: (job: RenderJob) => void;
+  updateRenderJob: (id: string, updates: Partial<RenderJob>) => void;
+  removeRenderJob: (id: string) => void;
+  setRenderConcurrency: (count: number) => void;
+  setModelMaterials: (id: string, materials: ModelMaterialInfo[] | null) => void; // null when the model unloads
+  setFocusPickCameraId: (id: string | null) => void;
   
-  addModelToScene: (url: string, name?: string) => void;
-  addLightToScene: () => void;
-  addCameraToScene: () => void; // New
+  addModelToScene: (url: string, name?: string, source?: ModelSource) => void; // source defaults to a plain GLB
+  addLightToScene: (kind?: LightKind) => void; // Directional by default
+  addPrimitiveToScene: (shape: PrimitiveShape) => void;
+  addTextToScene: () => void;
+  addCameraToScene: (view?: CameraState) => void; // Bookmarks the given view when set
   updateSceneObject: (id: string, updates: Partial<SceneObject>) => void;
-  removeSceneObject: (id: string) => void;
+  removeSceneObject: (id: string) => void; // Also removes the object's descendants
+  duplicateSceneObjects: (ids: string[], linked?: boolean) => void; // Copies with descendants next to the originals, selects the copies
+  pasteSceneObjects: (objects: SceneObject[]) => void; // Clipboard payload (see clipboardService), selects the pasted objects
+  unlinkSceneObject: (id: string) => void; // Leaves its link group with its own copy of the data
+  reparentSceneObject: (id: string, parentId: string | null) => void; // Keeps the world transform
+  groupSceneObjects: (ids: string[]) => void; // Wraps the objects in a new group at their center
+  ungroupSceneObject: (id: string) => void; // Moves the group's children to its parent and removes it
   clearScene: () => void;
   
   setTransformMode: (mode: TransformMode) => void;
-  setSelectedObjectId: (id: string | null) => void;
+  setSelectedObjectId: (id: string | null) => void; // Replaces the selection
+  toggleObjectSelection: (id: string) => void; // Shift/Ctrl-click: adds or removes one object
+  setSelectedObjectIds: (ids: string[]) => void; // Box select
   setActiveCameraId: (id: string | null) => void; // New
   
-  // Updates the currently selected object's transform
+  // Sets the primary object's transform and applies the same delta to every selected unlocked object
   updateSelectedObjectTransform: (transform: Partial<ModelTransform>) => void;
+  // Applies a world-space delta (e.g. from the shared selection gizmo) to every selected unlocked object
+  applySelectionDelta: (delta: THREE.Matrix4) => void;
+  applyWorldOffsets: (offsets: Record<string, [number, number, number]>, label?: string) => void; // World-space moves per object, one undo step
   
   updateRenderSettings: (settings: Partial<RenderSettings>) => void;
+
+  // Timeline Actions
+  setAnimationTime: (time: number) => void; // Moves the playhead and applies the animated values to the scene
+  setAnimationPlaying: (playing: boolean) => void;
+  updateAnimationSettings: (settings: Partial<Pick<AnimationData, 'duration' | 'fps' | 'loop'>>) => void;
+  addKeyframes: (objectIds: string[], properties?: AnimatableProperty[]) => void; // Keys current values at the playhead (all animatable properties by default)
+  updateKeyframe: (trackId: string, keyframeId: string, updates: Partial<Omit<Keyframe, 'id'>>) => void;
+  removeKeyframe: (trackId: string, keyframeId: string) => void;
+
+  setShots: (shots: Shot[]) => void; // Replaces the whole list, one undo step
   
   // Camera Actions
   setCameraState: (state: Partial<CameraState>) => void; // Updates Store AND Version (triggers Scene update)
@@ -70,17 +134,101 @@ interface AppState {
 
   undo: () => void;
   redo: () => void;
+  endHistoryStep: () => void; // Closes the last step so the next edit starts a new one (end of a gizmo drag)
+  jumpToHistory: (index: number) => void; // Number of steps applied: 0 is the oldest state kept, past.length the current one
 }
 
+const takeSnapshot = (state: AppState): UndoableState => ({
+    sceneObjects: state.sceneObjects,
+    renderSettings: state.renderSettings,
+    selectedObjectId: state.selectedObjectId,
+    selectedObjectIds: state.selectedObjectIds,
+    animation: state.animation,
+    shots: state.shots
+});
+
+// Undo step for an action: the current state goes on the undo stack under the command's label
+const recordHistory = (state: AppState, command: HistoryCommand): Pick<AppState, 'past' | 'future'> => ({
+    past: pushHistory(state.past, takeSnapshot(state), command),
+    future: []
+});
+
+// Moves through the history, negative steps undo and positive steps redo
+const travelHistory = (state: AppState, steps: number): Partial<AppState> => {
+    let past = state.past;
+    let future = state.future;
+    let current = takeSnapshot(state);
+    for (; steps < 0 && past.length > 0; steps++) {
+        const entry = past[past.length - 1];
+        past = past.slice(0, -1);
+        future = [{ ...entry, state: current }, ...future];
+        current = entry.state;
+    }
+    for (; steps > 0 && future.length > 0; steps--) {
+        const entry = future[0];
+        future = future.slice(1);
+        past = [...past, { ...entry, state: current }];
+        current = entry.state;
+    }
+    return { ...current, past: sealHistory(past), future };
+};
+
 // Generate a static ID for the default camera so we can reference it in initial state
 const DEFAULT_CAMERA_ID = uuidv4();
 
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+    source: 'preset',
+    preset: 'builtin-studio',
+    rotation: 0,
+    intensity: 1,
+    blur: 0.8,
+    showBackground: false,
+    backgroundMode: 'transparent',
+    backgroundColor: '#18181b',
+    backgroundColor2: '#09090b',
+};
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+    autoRotate: false,
+    gridVisible: false, // Changed default to false
+    environment: DEFAULT_ENVIRONMENT,
+    shadingMode: 'lit',
+    supersampling: 2,
+    resolutionPreset: 0,
+    safeFrame: { visible: true, thirds: false, center: false, titleSafe: false },
+    snapping: { enabled: false, translate: 0.5, rotate: 15, scale: 0.1, space: 'world' },
+};
+
+// Output sizes offered for renders (ratio is passed to Gemini)
+export const RESOLUTION_PRESETS = [
+    { label: 'Square (1:1)', w: 1024, h: 1024, ratio: "1:1", icon: 'square' },
+    { label: 'Landscape (16:9)', w: 1920, h: 1080, ratio: "16:9", icon: 'rectangle-horizontal' },
+    { label: 'Portrait (9:16)', w: 1080, h: 1920, ratio: "9:16", icon: 'rectangle-vertical' },
+    { label: 'Standard (4:3)', w: 1024, h: 768, ratio: "4:3", icon: 'monitor' },
+];
+
+export const DEFAULT_CAMERA_STATE: CameraState = {
+    // Editor Camera Default
+    position: [2, 1.5, 4],
+    target: [0, 0.5, 0],
+    fov: 50
+};
+
 export const useAppStore = create<AppState>((set, get) => ({
   // CONFIGURATION:
   // Default to the provided Cloudflare Worker URL
   backendUrl: localStorage.getItem('tripo_backend_url') || 'https://soft-wave-9c83.a718919334.workers.dev', 
 
+  projectName: 'Untitled Project',
+
   assets: [],
+
+  renderJobs: [],
+  renderConcurrency: Number(localStorage.getItem('render_concurrency')) || 2,
+
+  modelMaterials: {},
+  focusPickCameraId: null,
+
   sceneObjects: [
     // Default Directional Light
     {
@@ -89,7 +237,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       name: 'Main Light',
       transform: { position: [5, 5, 5], rotation: [0, 0, 0], scale: [1, 1, 1] },
       visible: true,
-      lightProps: { intensity: 1.5, color: '#ffffff', castShadow: true }
+      lightProps: { ...createLightProps('directional'), intensity: 1.5 }
     },
     // Default Main Camera (As Viewpoint)
     {
@@ -105,19 +253,17 @@ export const useAppStore = create<AppState>((set, get) => ({
   
   transformMode: 'translate',
   selectedObjectId: DEFAULT_CAMERA_ID, // Select the camera by default
+  selectedObjectIds: [DEFAULT_CAMERA_ID],
   activeCameraId: DEFAULT_CAMERA_ID,   // Set the camera as the active viewpoint
 
-  renderSettings: {
-    autoRotate: false, 
-    gridVisible: false, // Changed default to false
-  },
+  renderSettings: DEFAULT_RENDER_SETTINGS,
+
+  animation: DEFAULT_ANIMATION,
+  animationTime: 0,
+  isAnimationPlaying: false,
+  shots: [],
   
-  cameraState: {
-    // Editor Camera Default
-    position: [2, 1.5, 4],
-    target: [0, 0.5, 0],
-    fov: 50
-  },
+  cameraState: DEFAULT_CAMERA_STATE,
   cameraVersion: 0,
 
   notifications: [],
@@ -129,6 +275,51 @@ export const useAppStore = create<AppState>((set, get) => ({
       set({ backendUrl: url });
   },
 
+  setProjectName: (name) => set({ projectName: name }),
+
+  getProjectData: () => {
+      const state = get();
+      return {
+          sceneObjects: state.sceneObjects,
+          assets: state.assets,
+          renderSettings: state.renderSettings,
+          cameraState: state.cameraState,
+          activeCameraId: state.activeCameraId,
+          animation: state.animation,
+          shots: state.shots
+      };
+  },
+
+  loadProject: (name, data) => set((state) => {
+      const sceneObjects = data.sceneObjects || [];
+      const activeCameraId = sceneObjects.some(o => o.id === data.activeCameraId) ? data.activeCameraId : null;
+      return {
+          projectName: name,
+          sceneObjects,
+          // Project assets are added to the library rather than replacing it
+          assets: [...(data.assets || []), ...state.assets.filter(a => !(data.assets || []).some(p => p.id === a.id))],
+          // Merge with defaults so files saved before a setting existed still load cleanly
+          renderSettings: {
+              ...DEFAULT_RENDER_SETTINGS,
+              ...data.renderSettings,
+              environment: { ...DEFAULT_ENVIRONMENT, ...data.renderSettings?.environment },
+              safeFrame: { ...DEFAULT_RENDER_SETTINGS.safeFrame, ...data.renderSettings?.safeFrame },
+              snapping: { ...DEFAULT_RENDER_SETTINGS.snapping, ...data.renderSettings?.snapping }
+          },
+          animation: { ...DEFAULT_ANIMATION, ...data.animation },
+          shots: (data.shots || []).filter(shot => sceneObjects.some(o => o.id === shot.cameraId)),
+          animationTime: 0,
+          isAnimationPlaying: false,
+          cameraState: { ...DEFAULT_CAMERA_STATE, ...data.cameraState },
+          cameraVersion: state.cameraVersion + 1,
+          activeCameraId,
+          selectedObjectId: null,
+          selectedObjectIds: [],
+          past: [],
+          future: []
+      };
+  }),
+
   setAssets: (assets) => set({ assets }),
   
   addAsset: (asset) => set((state) => ({ 
@@ -145,19 +336,41 @@ export const useAppStore = create<AppState>((set, get) => ({
       assets: state.assets.filter(a => a.id !== id)
   })),
 
-  addModelToScene: (url, name) => set((state) => {
-      const snapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      };
-      
+  setRenderJobs: (jobs) => set({ renderJobs: jobs }),
+
+  addRenderJob: (job) => set((state) => ({
+      renderJobs: [job, ...state.renderJobs]
+  })),
+
+  updateRenderJob: (id, updates) => set((state) => ({
+      renderJobs: state.renderJobs.map(job => job.id === id ? { ...job, ...updates } : job)
+  })),
+
+  removeRenderJob: (id) => set((state) => ({
+      renderJobs: state.renderJobs.filter(job => job.id !== id)
+  })),
+
+  setRenderConcurrency: (count) => {
+      localStorage.setItem('render_concurrency', String(count));
+      set({ renderConcurrency: count });
+  },
+
+  setFocusPickCameraId: (id) => set({ focusPickCameraId: id }),
+
+  setModelMaterials: (id, materials) => set((state) => {
+      const { [id]: _, ...rest } = state.modelMaterials;
+      return { modelMaterials: materials ? { ...rest, [id]: materials } : rest };
+  }),
+
+  addModelToScene: (url, name, source) => set((state) => {
       const newId = uuidv4();
       const newObject: SceneObject = {
           id: newId,
           type: 'model',
           name: name || 'New Model',
           url: url,
+          format: source?.format,
+          resources: source?.resources,
           transform: { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
           visible: true,
           locked: false
@@ -166,152 +379,449 @@ export const useAppStore = create<AppState>((set, get) => ({
       return { 
         sceneObjects: [...state.sceneObjects, newObject],
         selectedObjectId: newId,
-        past: [...state.past, snapshot],
-        future: []
+        selectedObjectIds: [newId],
+        ...recordHistory(state, { label: `Add ${newObject.name}` })
       };
   }),
 
-  addLightToScene: () => set((state) => {
-    const snapshot: UndoableState = {
-        sceneObjects: state.sceneObjects,
-        renderSettings: state.renderSettings,
-        selectedObjectId: state.selectedObjectId
-    };
-
+  addLightToScene: (kind = 'directional') => set((state) => {
     const newId = uuidv4();
     const newLight: SceneObject = {
         id: newId,
         type: 'light',
         name: `Light ${state.sceneObjects.filter(o => o.type === 'light').length + 1}`,
-        transform: { position: [2, 5, 2], rotation: [0, 0, 0], scale: [1, 1, 1] },
+        transform: { position: kind === 'hemisphere' ? [0, 5, 0] : [2, 5, 2], rotation: [0, 0, 0], scale: [1, 1, 1] },
         visible: true,
         locked: false,
-        lightProps: { intensity: 1.0, color: '#ffffff', castShadow: true }
+        lightProps: createLightProps(kind)
     };
 
     return {
         sceneObjects: [...state.sceneObjects, newLight],
         selectedObjectId: newId,
-        past: [...state.past, snapshot],
-        future: []
+        selectedObjectIds: [newId],
+        ...recordHistory(state, { label: `Add ${newLight.name}` })
+    };
+  }),
+
+  addPrimitiveToScene: (shape) => set((state) => {
+    const label = PRIMITIVE_SHAPES[shape].label;
+    const newId = uuidv4();
+    const newPrimitive: SceneObject = {
+        id: newId,
+        type: 'primitive',
+        name: `${label} ${state.sceneObjects.filter(o => o.primitiveProps?.shape === shape).length + 1}`,
+        transform: { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
+        visible: true,
+        locked: false,
+        primitiveProps: createPrimitiveProps(shape)
+    };
+
+    return {
+        sceneObjects: [...state.sceneObjects, newPrimitive],
+        selectedObjectId: newId,
+        selectedObjectIds: [newId],
+        ...recordHistory(state, { label: `Add ${newPrimitive.name}` })
     };
   }),
 
-  addCameraToScene: () => set((state) => {
-    const snapshot: UndoableState = {
-        sceneObjects: state.sceneObjects,
-        renderSettings: state.renderSettings,
-        selectedObjectId: state.selectedObjectId
+  addTextToScene: () => set((state) => {
+    const newId = uuidv4();
+    const newText: SceneObject = {
+        id: newId,
+        type: 'text',
+        name: `Text ${state.sceneObjects.filter(o => o.type === 'text').length + 1}`,
+        transform: { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] },
+        visible: true,
+        locked: false,
+        textProps: { ...DEFAULT_TEXT_PROPS }
+    };
+
+    return {
+        sceneObjects: [...state.sceneObjects, newText],
+        selectedObjectId: newId,
+        selectedObjectIds: [newId],
+        ...recordHistory(state, { label: `Add ${newText.name}` })
     };
+  }),
+
+  addCameraToScene: (view) => set((state) => {
+    // Look from the view position towards its target
+    const rotation = view
+        ? new THREE.Euler().setFromRotationMatrix(new THREE.Matrix4().lookAt(new THREE.Vector3(...view.position), new THREE.Vector3(...view.target), new THREE.Vector3(0, 1, 0)))
+        : new THREE.Euler();
 
     const newId = uuidv4();
     const newCamera: SceneObject = {
         id: newId,
         type: 'camera',
         name: `Camera ${state.sceneObjects.filter(o => o.type === 'camera').length + 1}`,
-        transform: { position: [0, 2, 5], rotation: [0, 0, 0], scale: [1, 1, 1] },
+        transform: { position: view ? [...view.position] : [0, 2, 5], rotation: [rotation.x, rotation.y, rotation.z], scale: [1, 1, 1] },
         visible: true,
         locked: false,
-        cameraProps: { fov: 50 }
+        cameraProps: { fov: view?.fov ?? 50 }
     };
 
     return {
         sceneObjects: [...state.sceneObjects, newCamera],
         selectedObjectId: newId,
-        past: [...state.past, snapshot],
-        future: []
+        selectedObjectIds: [newId],
+        ...recordHistory(state, { label: `Add ${newCamera.name}` })
     };
   }),
 
   updateSceneObject: (id, updates) => set((state) => {
-     const snapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      };
+     const target = state.sceneObjects.find(obj => obj.id === id);
+     if (!target) return {};
+     // Linked duplicates take the shared part of the update along
+     const linkId = target.linkId;
+     const shared = Object.fromEntries(Object.entries(updates).filter(([key]) => LINKED_FIELDS.includes(key as keyof SceneObject)));
      return {
-         sceneObjects: state.sceneObjects.map(obj => obj.id === id ? { ...obj, ...updates } : obj),
-         past: [...state.past, snapshot],
-         future: []
+         sceneObjects: state.sceneObjects.map(obj =>
+             obj.id === id ? { ...obj, ...updates } :
+             linkId && obj.linkId === linkId ? { ...obj, ...shared } :
+             obj
+         ),
+         ...recordHistory(state, describeObjectUpdate(target, updates))
      };
   }),
 
   removeSceneObject: (id) => set((state) => {
-      const snapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      };
-      
+      const target = state.sceneObjects.find(obj => obj.id === id);
+      if (!target) return {};
+      const removed = getDescendantIds(state.sceneObjects, id).add(id);
+
       // If we remove the camera we are currently looking through, reset active camera
-      const isActiveCamera = state.activeCameraId === id;
+      const isActiveCamera = !!state.activeCameraId && removed.has(state.activeCameraId);
 
       return {
-          sceneObjects: state.sceneObjects.filter(obj => obj.id !== id),
-          selectedObjectId: state.selectedObjectId === id ? null : state.selectedObjectId,
+          sceneObjects: state.sceneObjects.filter(obj => !removed.has(obj.id)),
+          animation: { ...state.animation, tracks: state.animation.tracks.filter(t => !removed.has(t.objectId)) },
+          shots: state.shots.filter(shot => !removed.has(shot.cameraId)),
+          selectedObjectId: state.selectedObjectId && removed.has(state.selectedObjectId) ? null : state.selectedObjectId,
+          selectedObjectIds: state.selectedObjectIds.filter(sid => !removed.has(sid)),
           activeCameraId: isActiveCamera ? null : state.activeCameraId,
-          past: [...state.past, snapshot],
-          future: []
+          ...recordHistory(state, { label: `Delete ${target.name}` })
+      };
+  }),
+
+  duplicateSceneObjects: (ids, linked = false) => set((state) => {
+      const sources = collectSubtrees(state.sceneObjects, ids);
+      if (sources.length === 0) return {};
+
+      // Originals that aren't linked yet start a link group their copies join (groups hold no data to share)
+      const linkIds = new Map(linked ? sources.filter(o => !o.linkId && o.type !== 'group').map(o => [o.id, uuidv4()]) : []);
+      const withLinks = (o: SceneObject) => linkIds.has(o.id) ? { ...o, linkId: linkIds.get(o.id) } : o;
+      const copies = cloneSceneObjects(sources.map(withLinks), state.sceneObjects, linked);
+      const sceneObjects = state.sceneObjects.map(withLinks);
+      const selected = copies.filter(copy => !copy.parentId || !copies.some(o => o.id === copy.parentId)).map(o => o.id);
+
+      return {
+          sceneObjects: [...sceneObjects, ...copies],
+          selectedObjectId: selected[0],
+          selectedObjectIds: selected,
+          ...recordHistory(state, { label: `${linked ? 'Linked Duplicate' : 'Duplicate'} ${describeObjects(sources.filter(o => !o.parentId || !sources.some(p => p.id === o.parentId)))}` })
+      };
+  }),
+
+  pasteSceneObjects: (objects) => set((state) => {
+      if (objects.length === 0) return {};
+      const copies = cloneSceneObjects(objects, state.sceneObjects);
+      const selected = copies.filter(copy => !copy.parentId).map(o => o.id);
+
+      return {
+          sceneObjects: [...state.sceneObjects, ...copies],
+          selectedObjectId: selected[0] ?? null,
+          selectedObjectIds: selected,
+          ...recordHistory(state, { label: `Paste ${describeObjects(copies.filter(copy => !copy.parentId))}` })
+      };
+  }),
+
+  unlinkSceneObject: (id) => set((state) => {
+      const obj = state.sceneObjects.find(o => o.id === id);
+      if (!obj?.linkId) return {};
+      return {
+          sceneObjects: state.sceneObjects.map(o => o.id === id ? { ...o, linkId: undefined } : o),
+          ...recordHistory(state, { label: `Unlink ${obj.name}` })
+      };
+  }),
+
+  reparentSceneObject: (id, parentId) => set((state) => {
+      const obj = state.sceneObjects.find(o => o.id === id);
+      if (!obj || (obj.parentId ?? null) === parentId) return {};
+      // An object can't become a child of itself or of one of its descendants
+      if (parentId && (parentId === id || getDescendantIds(state.sceneObjects, id).has(parentId))) return {};
+
+      const transform = toLocalTransform(state.sceneObjects, parentId, getWorldMatrix(state.sceneObjects, id));
+      return {
+          sceneObjects: state.sceneObjects.map(o => o.id === id ? { ...o, parentId, transform } : o),
+          ...recordHistory(state, { label: `Reparent ${obj.name}` })
+      };
+  }),
+
+  groupSceneObjects: (ids) => set((state) => {
+      // Ignore objects whose ancestor is grouped as well, they move along with it
+      const members = state.sceneObjects.filter(o =>
+          ids.includes(o.id) && !ids.some(other => other !== o.id && getDescendantIds(state.sceneObjects, other).has(o.id))
+      );
+
+      // The group lives under the members' shared parent (or the root) at their center
+      const parentIds = new Set(members.map(o => o.parentId ?? null));
+      const parentId = parentIds.size === 1 ? [...parentIds][0] : null;
+      const center = new THREE.Vector3();
+      members.forEach(o => center.add(new THREE.Vector3().setFromMatrixPosition(getWorldMatrix(state.sceneObjects, o.id))));
+      if (members.length > 0) center.divideScalar(members.length);
+
+      const groupId = uuidv4();
+      const group: SceneObject = {
+          id: groupId,
+          type: 'group',
+          name: `Group ${state.sceneObjects.filter(o => o.type === 'group').length + 1}`,
+          parentId,
+          transform: toLocalTransform(state.sceneObjects, parentId, new THREE.Matrix4().makeTranslation(center)),
+          visible: true,
+          locked: false
+      };
+
+      const withGroup = [...state.sceneObjects, group];
+      // Members' keyframes move from their old parent's space into the group's
+      const fromGroup = getWorldMatrix(withGroup, groupId).invert();
+      const memberById = new Map(members.map(o => [o.id, o]));
+      return {
+          sceneObjects: withGroup.map(o => memberById.has(o.id)
+              ? { ...o, parentId: groupId, transform: toLocalTransform(withGroup, groupId, getWorldMatrix(withGroup, o.id)) }
+              : o
+          ),
+          animation: {
+              ...state.animation,
+              tracks: state.animation.tracks.map(t => {
+                  const member = memberById.get(t.objectId);
+                  return member ? reparentTrack(t, member, fromGroup.clone().multiply(getWorldMatrix(withGroup, member.parentId))) : t;
+              })
+          },
+          selectedObjectId: groupId,
+          selectedObjectIds: [groupId],
+          ...recordHistory(state, { label: `Group ${describeObjects(members)}` })
+      };
+  }),
+
+  ungroupSceneObject: (id) => set((state) => {
+      const group = state.sceneObjects.find(o => o.id === id);
+      if (!group || group.type !== 'group') return {};
+
+      const parentId = group.parentId ?? null;
+      // Children's keyframes were relative to the group as well, move them into the parent's space
+      const groupMatrix = composeTransform(group.transform);
+      const children = new Map(state.sceneObjects.filter(o => o.parentId === id).map(o => [o.id, o]));
+      return {
+          sceneObjects: state.sceneObjects
+              .filter(o => o.id !== id)
+              .map(o => o.parentId === id
+                  ? { ...o, parentId, transform: toLocalTransform(state.sceneObjects, parentId, getWorldMatrix(state.sceneObjects, o.id)) }
+                  : o
+              ),
+          animation: {
+              ...state.animation,
+              tracks: state.animation.tracks
+                  .filter(t => t.objectId !== id)
+                  .map(t => children.has(t.objectId) ? reparentTrack(t, children.get(t.objectId)!, groupMatrix) : t)
+          },
+          selectedObjectId: state.selectedObjectId === id ? null : state.selectedObjectId,
+          selectedObjectIds: state.selectedObjectIds.filter(sid => sid !== id),
+          ...recordHistory(state, { label: `Ungroup ${group.name}` })
       };
   }),
 
   clearScene: () => set((state) => ({
       sceneObjects: [],
       selectedObjectId: null,
+      selectedObjectIds: [],
       activeCameraId: null,
-      past: [...state.past, {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      }]
+      animation: { ...state.animation, tracks: [] },
+      shots: [],
+      ...recordHistory(state, { label: 'Clear Scene' })
   })),
 
   setTransformMode: (mode) => set({ transformMode: mode }),
-  setSelectedObjectId: (id) => set({ selectedObjectId: id }),
+  setSelectedObjectId: (id) => set((state) => ({
+      selectedObjectId: id,
+      selectedObjectIds: id && state.sceneObjects.some(o => o.id === id) ? [id] : []
+  })),
+  toggleObjectSelection: (id) => set((state) => {
+      if (state.selectedObjectIds.includes(id)) {
+          const ids = state.selectedObjectIds.filter(sid => sid !== id);
+          return {
+              selectedObjectIds: ids,
+              selectedObjectId: state.selectedObjectId === id ? (ids[ids.length - 1] ?? null) : state.selectedObjectId
+          };
+      }
+      return { selectedObjectIds: [...state.selectedObjectIds, id], selectedObjectId: id };
+  }),
+  setSelectedObjectIds: (ids) => set((state) => ({
+      selectedObjectIds: ids,
+      selectedObjectId: state.selectedObjectId && ids.includes(state.selectedObjectId) ? state.selectedObjectId : (ids[ids.length - 1] ?? null)
+  })),
   setActiveCameraId: (id) => set({ activeCameraId: id }),
   
   updateSelectedObjectTransform: (updates) => set((state) => {
-      if (!state.selectedObjectId) return {};
-      
-      const currentObj = state.sceneObjects.find(o => o.id === state.selectedObjectId);
-      if (currentObj && currentObj.locked) return {}; // Prevent transform if locked
-
-      const snapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      };
+      const primary = state.sceneObjects.find(o => o.id === state.selectedObjectId);
+      if (!primary) return {};
+
+      const targets = getTransformTargets(state.sceneObjects, state.selectedObjectIds);
+      if (targets.length === 0) return {}; // Prevent transform if locked
+
+      // Deltas are taken relative to the primary object: offsets for position/rotation, ratios for scale
+      const base = primary.transform;
+      const { position, rotation, scale } = updates;
+      const applyDelta = (t: ModelTransform): ModelTransform => ({
+          position: position ? t.position.map((v, i) => v + position[i] - base.position[i]) as [number, number, number] : t.position,
+          rotation: rotation ? t.rotation.map((v, i) => v + rotation[i] - base.rotation[i]) as [number, number, number] : t.rotation,
+          scale: scale ? t.scale.map((v, i) => base.scale[i] !== 0 ? v * scale[i] / base.scale[i] : scale[i]) as [number, number, number] : t.scale
+      });
 
       const updatedObjects = state.sceneObjects.map(obj => {
-          if (obj.id === state.selectedObjectId) {
-              return {
-                  ...obj,
-                  transform: { ...obj.transform, ...updates }
-              };
+          if (obj.id === primary.id && targets.some(t => t.id === obj.id)) {
+              return { ...obj, transform: { ...obj.transform, ...updates } };
+          }
+          if (targets.some(t => t.id === obj.id)) {
+              return { ...obj, transform: applyDelta(obj.transform) };
           }
           return obj;
       });
 
       return {
         sceneObjects: updatedObjects,
-        past: [...state.past, snapshot],
-        future: []
+        ...recordHistory(state, describeTransform(targets, updates))
       };
   }),
 
-  updateRenderSettings: (updates) => set((state) => {
-      const snapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
+  applySelectionDelta: (delta) => set((state) => {
+      const targets = getTransformTargets(state.sceneObjects, state.selectedObjectIds);
+      if (targets.length === 0) return {};
+
+      const updated = new Map<string, ModelTransform>();
+      targets.forEach(obj => {
+          const world = delta.clone().multiply(getWorldMatrix(state.sceneObjects, obj.id));
+          const local = toLocalTransform(state.sceneObjects, obj.parentId, world);
+          // Lights and cameras have no scale
+          updated.set(obj.id, isMeshObject(obj) || obj.type === 'group' ? local : { ...local, scale: obj.transform.scale });
+      });
+
+      return {
+          sceneObjects: state.sceneObjects.map(obj => updated.has(obj.id) ? { ...obj, transform: updated.get(obj.id)! } : obj),
+          ...recordHistory(state, { label: `${TRANSFORM_MODE_VERBS[state.transformMode]} ${describeObjects(targets)}` })
       };
+  }),
+
+  applyWorldOffsets: (offsets, label) => set((state) => {
+      const ids = Object.keys(offsets).filter(id => state.sceneObjects.some(o => o.id === id && !o.locked));
+      if (ids.length === 0) return {};
+
+      const updated = new Map<string, ModelTransform>();
+      state.sceneObjects.filter(obj => ids.includes(obj.id)).forEach(obj => {
+          const world = new THREE.Matrix4().makeTranslation(...offsets[obj.id]).multiply(getWorldMatrix(state.sceneObjects, obj.id));
+          const local = toLocalTransform(state.sceneObjects, obj.parentId, world);
+          updated.set(obj.id, isMeshObject(obj) || obj.type === 'group' ? local : { ...local, scale: obj.transform.scale });
+      });
+
+      return {
+          sceneObjects: state.sceneObjects.map(obj => updated.has(obj.id) ? { ...obj, transform: updated.get(obj.id)! } : obj),
+          ...recordHistory(state, { label: label ?? `Move ${describeObjects(state.sceneObjects.filter(obj => ids.includes(obj.id)))}` })
+      };
+  }),
+
+  updateRenderSettings: (updates) => set((state) => {
       return {
         renderSettings: { ...state.renderSettings, ...updates },
-        past: [...state.past, snapshot],
-        future: []
+        ...recordHistory(state, describeRenderSettingsUpdate(updates))
+      };
+  }),
+
+  setAnimationTime: (time) => set((state) => {
+      const clamped = Math.min(Math.max(time, 0), state.animation.duration);
+      return {
+          animationTime: clamped,
+          sceneObjects: applyAnimation(state.sceneObjects, state.animation, clamped)
+      };
+  }),
+
+  setAnimationPlaying: (playing) => set({ isAnimationPlaying: playing }),
+
+  updateAnimationSettings: (updates) => set((state) => {
+      const animation = { ...state.animation, ...updates };
+      return {
+          animation,
+          animationTime: Math.min(state.animationTime, animation.duration),
+          ...recordHistory(state, { label: 'Change Timeline Settings', coalesceKey: `animation:${Object.keys(updates).join()}` })
+      };
+  }),
+
+  addKeyframes: (objectIds, properties) => set((state) => {
+      const objects = state.sceneObjects.filter(o => objectIds.includes(o.id) && o.type !== 'group');
+      if (objects.length === 0) return {};
+
+      const time = state.animationTime;
+      let tracks = [...state.animation.tracks];
+
+      for (const obj of objects) {
+          const props = getAnimatableProperties(obj).filter(p => !properties || properties.includes(p));
+          for (const property of props) {
+              const keyframe: Keyframe = { id: uuidv4(), time, value: readPropertyValue(obj, property), interpolation: 'linear' };
+              const track = tracks.find(t => t.objectId === obj.id && t.property === property);
+              if (!track) {
+                  tracks.push({ id: uuidv4(), objectId: obj.id, property, keyframes: [keyframe] });
+                  continue;
+              }
+              // Keying on an existing keyframe's time overwrites its value
+              const existing = track.keyframes.find(k => Math.abs(k.time - time) < 1e-4);
+              const keyframes = existing
+                  ? track.keyframes.map(k => k === existing ? { ...k, value: keyframe.value } : k)
+                  : [...track.keyframes, keyframe].sort((a, b) => a.time - b.time);
+              tracks = tracks.map(t => t === track ? { ...t, keyframes } : t);
+          }
+      }
+
+      return {
+          animation: { ...state.animation, tracks },
+          ...recordHistory(state, { label: `Add Keyframes to ${describeObjects(objects)}` })
       };
   }),
 
+  updateKeyframe: (trackId, keyframeId, updates) => set((state) => {
+      const animation = {
+          ...state.animation,
+          tracks: state.animation.tracks.map(t => t.id !== trackId ? t : {
+              ...t,
+              keyframes: t.keyframes
+                  .map(k => k.id === keyframeId ? { ...k, ...updates } : k)
+                  .sort((a, b) => a.time - b.time)
+          })
+      };
+      return {
+          animation,
+          sceneObjects: applyAnimation(state.sceneObjects, animation, state.animationTime),
+          ...recordHistory(state, { label: 'Edit Keyframe', coalesceKey: `keyframe:${keyframeId}:${Object.keys(updates).join()}` })
+      };
+  }),
+
+  removeKeyframe: (trackId, keyframeId) => set((state) => {
+      // Tracks without keyframes are dropped
+      const tracks = state.animation.tracks
+          .map(t => t.id === trackId ? { ...t, keyframes: t.keyframes.filter(k => k.id !== keyframeId) } : t)
+          .filter(t => t.keyframes.length > 0);
+      const animation = { ...state.animation, tracks };
+      return {
+          animation,
+          sceneObjects: applyAnimation(state.sceneObjects, animation, state.animationTime),
+          ...recordHistory(state, { label: 'Delete Keyframe' })
+      };
+  }),
+
+  setShots: (shots) => set((state) => ({
+      shots,
+      ...recordHistory(state, { label: 'Edit Shot List', coalesceKey: 'shots' })
+  })),
+
   setCameraState: (newState) => set((state) => ({
       cameraState: { ...state.cameraState, ...newState },
       cameraVersion: state.cameraVersion + 1
@@ -322,7 +832,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   })),
 
   resetCamera: () => set((state) => ({
-      cameraState: { position: [2, 1.5, 4], target: [0, 0.5, 0], fov: 50 },
+      cameraState: DEFAULT_CAMERA_STATE,
       cameraVersion: state.cameraVersion + 1
   })),
 
@@ -338,45 +848,11 @@ export const useAppStore = create<AppState>((set, get) => ({
     notifications: state.notifications.filter(n => n.id !== id)
   })),
 
-  undo: () => set((state) => {
-      if (state.past.length === 0) return {};
+  undo: () => set((state) => state.past.length > 0 ? travelHistory(state, -1) : {}),
 
-      const previous = state.past[state.past.length - 1];
-      const newPast = state.past.slice(0, -1);
+  redo: () => set((state) => state.future.length > 0 ? travelHistory(state, 1) : {}),
 
-      const currentSnapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      };
+  endHistoryStep: () => set((state) => ({ past: sealHistory(state.past) })),
 
-      return {
-          past: newPast,
-          future: [currentSnapshot, ...state.future],
-          sceneObjects: previous.sceneObjects,
-          renderSettings: previous.renderSettings,
-          selectedObjectId: previous.selectedObjectId
-      };
-  }),
-
-  redo: () => set((state) => {
-      if (state.future.length === 0) return {};
-
-      const next = state.future[0];
-      const newFuture = state.future.slice(1);
-
-      const currentSnapshot: UndoableState = {
-          sceneObjects: state.sceneObjects,
-          renderSettings: state.renderSettings,
-          selectedObjectId: state.selectedObjectId
-      };
-
-      return {
-          past: [...state.past, currentSnapshot],
-          future: newFuture,
-          sceneObjects: next.sceneObjects,
-          renderSettings: next.renderSettings,
-          selectedObjectId: next.selectedObjectId
-      };
-  })
+  jumpToHistory: (index) => set((state) => travelHistory(state, index - state.past.length))
 }));
\ No newline at end of file
@@ -14,35 +14,269 @@ export interface Asset {
   modelUrl: string | null;
   createdAt: number;
   errorMsg?: string;
+  prompt?: string; // Text prompt used for Text-to-3D generation
+  taskId?: string; // Tripo task id, kept so interrupted generations can resume
+  thumbnailUrl?: string; // Small preview generated by the local asset library
+  modelFormat?: ModelFormat; // Source format of modelUrl (defaults to glb)
+  resources?: Record<string, string>; // Side files of a multi-file model (file name -> URL)
 }
 
-export type SceneObjectType = 'model' | 'light' | 'camera';
+// Model file formats supported by the loader registry (services/modelLoaders.ts)
+export type ModelFormat = 'glb' | 'gltf' | 'obj' | 'fbx' | 'stl' | 'ply' | 'usdz';
+
+// How a model URL should be loaded
+export interface ModelSource {
+  format?: ModelFormat;
+  resources?: Record<string, string>;
+}
+
+export type SceneObjectType = 'model' | 'primitive' | 'text' | 'light' | 'camera' | 'group';
 
 export interface SceneObject {
   id: string;
   type: SceneObjectType;
   name: string;
+  parentId?: string | null; // Parent SceneObject, transform is relative to it (root when unset)
   url?: string;
+  format?: ModelFormat; // Source format of url, undefined for legacy glb scenes
+  resources?: Record<string, string>; // Side files (MTL, textures, .bin) by file name
   transform: ModelTransform;
   visible: boolean;
   locked?: boolean; // New: Lock transformation
-  lightProps?: {
-    intensity: number;
-    color: string;
-    castShadow: boolean;
-  };
-  cameraProps?: { // New: Camera specific properties
-    fov: number;
-  };
+  lightProps?: LightProps;
+  cameraProps?: CameraProps;
+  primitiveProps?: PrimitiveProps;
+  textProps?: TextProps;
+  materialOverrides?: Record<string, MaterialOverride>; // Models, primitives and text: edits per material key (see materialService)
+  linkId?: string; // Linked duplicates share their data (model, materials, light/camera props), see clipboardService
+  array?: ArrayProps; // Models, primitives and text: drawn as instanced copies (see arrayService)
+}
+
+// Built-in shapes, parameters per shape are listed in PRIMITIVE_SHAPES (see primitiveService)
+export type PrimitiveShape = 'plane' | 'box' | 'rounded-box' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'cyclorama';
+
+export interface PrimitiveProps {
+  shape: PrimitiveShape;
+  params: Record<string, number>;
+}
+
+// Extruded 3D text (see textService). Origin at the bottom of the text block, on the aligned edge
+export type TextAlign = 'left' | 'center' | 'right';
+export type FontFormat = 'ttf' | 'typeface'; // TTF/OTF files or three.js typeface JSON
+
+export interface TextProps {
+  text: string; // Multi-line
+  fontUrl?: string; // Uploaded font, the built-in Helvetiker when unset
+  fontFormat?: FontFormat;
+  fontName?: string;
+  size: number;
+  depth: number;
+  bevelEnabled: boolean;
+  bevelThickness: number;
+  bevelSize: number;
+  align: TextAlign;
+  lineHeight: number; // Multiple of the size
+}
+
+// Array / scatter of a model, rendered with instancing. The first copy sits at the object's origin
+export type ArrayMode = 'linear' | 'radial' | 'grid' | 'scatter';
+
+export interface ArrayProps {
+  mode: ArrayMode;
+  count: number; // Copies for linear, radial and scatter
+  spacing: [number, number, number]; // Linear: step per copy, grid: cell size (local units)
+  gridCount: [number, number, number]; // Grid: copies per axis
+  radius: number; // Radial: circle around the local Y axis
+  sweep: number; // Radial: degrees the copies spread over, 360 for a full circle
+  targetId?: string; // Scatter: model or primitive whose surface is covered, copies stay on it when either moves
+  seed: number; // Scatter: same seed, same layout
+  rotationRange: [number, number, number]; // Scatter: random rotation per axis, ± degrees
+  scaleRange: [number, number]; // Scatter: random uniform scale, min and max
+  alignToNormal: boolean; // Scatter: copies stand along the surface normal instead of world up
+}
+
+// Physical camera, optional fields fall back to DEFAULT_CAMERA_PROPS (see cameraService)
+export type SensorPreset = 'full-frame' | 'super-35' | 'aps-c' | 'micro-four-thirds' | 'one-inch';
+
+export interface CameraProps {
+  fov: number; // Vertical, degrees. The focal length is derived from it and the sensor height
+  sensor?: SensorPreset;
+  near?: number;
+  far?: number;
+  depthOfField?: boolean; // Preview in the viewport and describe to Gemini
+  focusDistance?: number; // Meters along the view axis
+  aperture?: number; // f-number
+}
+
+export type MaterialMapSlot = 'map' | 'normalMap' | 'roughnessMap' | 'metalnessMap' | 'emissiveMap';
+
+// Applied to the model instance's own material copies, the cached GLTF is never modified
+export interface MaterialOverride {
+  color?: string;
+  roughness?: number;
+  metalness?: number;
+  emissive?: string;
+  emissiveIntensity?: number;
+  opacity?: number;
+  maps?: Partial<Record<MaterialMapSlot, string | null>>; // Replacement texture (blob: URL), null removes the model's own
+}
+
+// Original values of a loaded model's material, published by the viewport for the inspector
+export interface ModelMaterialInfo {
+  key: string;
+  meshCount: number;
+  pbr: boolean; // Has roughness / metalness
+  color: string;
+  roughness: number;
+  metalness: number;
+  emissive: string;
+  emissiveIntensity: number;
+  opacity: number;
+  maps: MaterialMapSlot[]; // Slots the model fills itself
+}
+
+export type LightKind = 'directional' | 'point' | 'spot' | 'rect-area' | 'hemisphere';
+
+export interface LightProps {
+  kind?: LightKind; // Directional when unset (scenes saved before light kinds existed)
+  intensity: number;
+  color: string;
+  castShadow: boolean; // Ignored by rect-area and hemisphere lights
+  target?: [number, number, number]; // Directional / spot / rect-area: world point the light aims at (origin when unset)
+  distance?: number; // Point / spot: range, 0 = unlimited
+  decay?: number; // Point / spot: falloff exponent (2 = physically correct)
+  angle?: number; // Spot: cone half-angle in radians
+  penumbra?: number; // Spot: soft edge, 0-1
+  width?: number; // Rect-area size
+  height?: number;
+  groundColor?: string; // Hemisphere: color from below (color is the sky)
+}
+
+// Built-in environments are procedural light rigs that work offline, the rest are drei's HDRI presets (downloaded on first use)
+export type BuiltinEnvironmentPreset = 'builtin-studio' | 'builtin-softbox' | 'builtin-sunset';
+export type HdriPreset = 'apartment' | 'city' | 'dawn' | 'forest' | 'lobby' | 'night' | 'park' | 'studio' | 'sunset' | 'warehouse';
+export type EnvironmentPreset = BuiltinEnvironmentPreset | HdriPreset;
+
+export type EnvironmentSource = 'preset' | 'custom' | 'none';
+
+export type BackgroundMode = 'transparent' | 'solid' | 'gradient';
+
+export interface EnvironmentSettings {
+  source: EnvironmentSource;
+  preset: EnvironmentPreset;
+  customUrl?: string; // Uploaded .hdr/.exr (blob: URL, embedded when the project is saved)
+  customName?: string;
+  customFormat?: 'hdr' | 'exr';
+  rotation: number; // Degrees around Y
+  intensity: number;
+  blur: number; // Background blurriness, 0-1
+  showBackground: boolean; // Show the environment itself behind the scene
+  backgroundMode: BackgroundMode; // Used when the environment isn't shown as background
+  backgroundColor: string;
+  backgroundColor2: string; // Gradient bottom color
+}
+
+// Viewport shading, also selectable as the reference pass sent to Gemini
+export type ShadingMode = 'lit' | 'clay' | 'wireframe' | 'normals' | 'depth' | 'unlit';
+
+// Extra guide images captured next to the reference image (same camera and size)
+export type CapturePass = 'depth' | 'normal' | 'mask';
+export type CapturePasses = Partial<Record<CapturePass, string>>; // PNG data: or blob: URLs
+
+// Letterbox overlay showing what the selected render preset crops when looking through a scene camera
+export interface SafeFrameSettings {
+  visible: boolean;
+  thirds: boolean; // Rule-of-thirds lines
+  center: boolean; // Center cross
+  titleSafe: boolean; // Action safe (90%) and title safe (80%) margins
+}
+
+export type TransformSpace = 'world' | 'local';
+
+// Gizmo snapping increments, the translate increment is also the grid cell size
+export interface SnapSettings {
+  enabled: boolean;
+  translate: number; // World units
+  rotate: number; // Degrees
+  scale: number; // Scale factor step
+  space: TransformSpace; // Gizmo axes
 }
 
 export interface RenderSettings {
   autoRotate: boolean;
   gridVisible: boolean;
+  environment: EnvironmentSettings;
+  shadingMode: ShadingMode;
+  supersampling: number; // Render scale of still captures, box-filtered down to the output size
+  resolutionPreset: number; // Index into RESOLUTION_PRESETS, shared by the render windows and the safe frame
+  safeFrame: SafeFrameSettings;
+  snapping: SnapSettings;
 }
 
 export type TransformMode = 'translate' | 'rotate' | 'scale';
 
+// --- Keyframe Animation ---
+export type InterpolationMode = 'linear' | 'step' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export type AnimatableProperty = 'position' | 'rotation' | 'scale' | 'lightIntensity' | 'lightColor' | 'cameraFov';
+
+export interface Keyframe {
+  id: string;
+  time: number; // Seconds
+  value: number[]; // Vector components, a single number for scalars, RGB (0-1) for colors
+  interpolation: InterpolationMode; // Easing of the segment towards the next keyframe
+}
+
+export interface AnimationTrack {
+  id: string;
+  objectId: string;
+  property: AnimatableProperty;
+  keyframes: Keyframe[]; // Sorted by time
+}
+
+export interface AnimationData {
+  duration: number; // Seconds
+  fps: number;
+  loop: boolean;
+  tracks: AnimationTrack[];
+}
+
+// --- Shot List ---
+export type ShotStyle = 'none' | 'photoreal' | 'cinematic' | 'product' | 'clay' | 'illustration' | 'anime';
+
+// Render settings of one scene camera, the list order is the shot order
+export interface Shot {
+  cameraId: string;
+  resolutionPreset: number; // Index into RESOLUTION_PRESETS
+  prompt: string;
+  style: ShotStyle;
+}
+
+// --- AI Render Queue ---
+export type RenderJobStatus = 'queued' | 'running' | 'completed' | 'error' | 'cancelled';
+
+export interface RenderJob {
+  id: string;
+  createdAt: number;
+  status: RenderJobStatus;
+  prompt: string;
+  aspectRatio: string; // e.g. "16:9", one of the resolution preset ratios
+  fov: number;
+  cameraMode: 'scene' | 'editor'; // Rendered through a scene camera or the editor view
+  cameraInfo: string; // Camera transform at capture time
+  lightingInfo: string; // Light summary sent to Gemini
+  baseImage: string; // Viewport capture (data: or blob: URL)
+  resultUrl?: string;
+  errorMsg?: string;
+  sourceJobId?: string; // Job this one was re-run from
+  referencePass?: ShadingMode; // Shading of baseImage, lit when unset
+  guidePasses?: CapturePasses; // Sent to Gemini as additional images
+  maskLegend?: string; // Object name per ID mask color
+  shotName?: string; // Camera name when queued from the shot list
+  startedAt?: number;
+  completedAt?: number;
+}
+
 export interface ModelTransform {
   position: [number, number, number];
   rotation: [number, number, number];
@@ -53,6 +287,7 @@ export interface CameraState {
   position: [number, number, number];
   target: [number, number, number];
   fov: number;
+  orthographic?: boolean; // Zoom follows the orbit distance (see viewService)
 }
 
 export interface NanoBananaConfig {
@@ -69,6 +304,33 @@ export interface NanoBananaConfig {
   height?: number;
 }
 
+// Serializable subset of the editor state that makes up a project
+export interface ProjectData {
+  sceneObjects: SceneObject[];
+  assets: Asset[];
+  renderSettings: RenderSettings;
+  cameraState: CameraState;
+  activeCameraId: string | null;
+  animation?: AnimationData; // Missing in projects saved before the timeline existed
+  shots?: Shot[];
+}
+
+// Binary payload embedded in a .banana file (GLBs, textures, images)
+export interface EmbeddedBlob {
+  mimeType: string;
+  data: string; // Base64 (no data URI prefix)
+}
+
+// On-disk format of a .banana project file
+export interface BananaProjectFile {
+  format: 'banana-project';
+  version: number;
+  name: string;
+  savedAt: number;
+  project: ProjectData;
+  blobs: Record<string, EmbeddedBlob>;
+}
+
 export interface AppNotification {
   id: string;
   type: 'success' | 'error' | 'info';